@@ -0,0 +1,72 @@
+/**
+ * Récepteur de webhooks local (tests d'intégration)
+ * Affiche chaque livraison reçue et vérifie sa signature HMAC (X-Cadastre-Signature)
+ *
+ * Usage: WEBHOOK_SECRET=whsec_... npx tsx scripts/webhook-receiver.ts
+ *
+ * Variables:
+ *   PORT              Port d'écoute (défaut 4000), URL à enregistrer: http://localhost:4000/
+ *   WEBHOOK_SECRET    Secret retourné par POST /webhooks (sans secret: signature non vérifiée)
+ *   FAIL_FIRST        Répond 500 aux N premières livraisons (test des retries)
+ */
+
+import * as http from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const PORT = parseInt(process.env.PORT || '4000');
+const SECRET = process.env.WEBHOOK_SECRET || '';
+const FAIL_FIRST = parseInt(process.env.FAIL_FIRST || '0');
+// Écart max accepté entre X-Cadastre-Timestamp et l'horloge locale (rejeu)
+const MAX_AGE_SECONDS = 300;
+
+let received = 0;
+
+function verifySignature(body: string, timestamp: string, signature: string): boolean {
+  const expected = 'sha256=' + createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    received++;
+    const body = Buffer.concat(chunks).toString('utf8');
+    const event = req.headers['x-cadastre-event'];
+    const delivery = req.headers['x-cadastre-delivery'];
+    const timestamp = String(req.headers['x-cadastre-timestamp'] || '');
+    const signature = String(req.headers['x-cadastre-signature'] || '');
+
+    console.log(`\n#${received} ${req.method} ${req.url} event=${event} delivery=${delivery}`);
+
+    if (SECRET) {
+      const age = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+      if (!(age <= MAX_AGE_SECONDS) || !verifySignature(body, timestamp, signature)) {
+        console.log('  Signature invalide -> 401');
+        res.writeHead(401).end();
+        return;
+      }
+      console.log('  Signature valide');
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (received <= FAIL_FIRST) {
+      console.log(`  Échec simulé (${received}/${FAIL_FIRST}) -> 500`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Récepteur de webhooks sur http://localhost:${PORT}/`);
+  console.log(SECRET ? 'Vérification des signatures activée' : 'WEBHOOK_SECRET absent: signatures non vérifiées');
+});
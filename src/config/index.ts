@@ -22,9 +22,72 @@ export const config = {
     timeout: 10000,
   },
 
+  // Sources de l'enrichissement entreprises, interrogées dans l'ordre (api, sirene)
+  // La source suivante est interrogée si le SIREN est introuvable, en erreur ou hors délai
+  // (ENRICHMENT_PROVIDER, une seule source, reste accepté)
+  enrichment: {
+    providers: (process.env.ENRICHMENT_PROVIDERS || process.env.ENRICHMENT_PROVIDER || 'api')
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean),
+    timeoutMs: parseInt(process.env.ENRICHMENT_TIMEOUT_MS || '20000'), // timeout par défaut d'une source
+    // Timeouts par source, ex: "sirene:2000,api:30000"
+    timeouts: Object.fromEntries(
+      (process.env.ENRICHMENT_PROVIDER_TIMEOUTS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(s => s.trim()))
+        .filter(([name, ms]) => name && !isNaN(parseInt(ms)))
+        .map(([name, ms]) => [name, parseInt(ms)])
+    ) as Record<string, number>,
+  },
+
+  // Stock SIRENE (fichiers INSEE déposés localement, importés via /admin/sirene/import)
+  sirene: {
+    dataDir: process.env.SIRENE_DATA_DIR || '/data/sirene',
+  },
+
+  // Cache des fiches entreprises (table entreprises_cache)
+  enrichmentCache: {
+    enabled: process.env.ENRICHMENT_CACHE_ENABLED !== 'false',
+    ttlHours: parseInt(process.env.ENRICHMENT_CACHE_TTL_HOURS || '168'), // 7 jours
+    negativeTtlHours: parseInt(process.env.ENRICHMENT_CACHE_NEGATIVE_TTL_HOURS || '24'), // SIREN introuvables
+  },
+
   // Authentification
   auth: {
     masterApiKey: process.env.MASTER_API_KEY || 'your_api_key',
+    defaultRateLimit: parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '60'), // requêtes par minute
+    rotationGraceHours: parseInt(process.env.API_KEY_ROTATION_GRACE_HOURS || '24'), // validité de l'ancienne clé
+    // Scopes des clés créées sans scopes explicites (validés au démarrage)
+    defaultScopes: (process.env.API_KEY_DEFAULT_SCOPES || 'search:read').split(',').map(s => s.trim()).filter(Boolean),
+  },
+
+  // Jobs d'export asynchrones
+  jobs: {
+    pollIntervalMs: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '5000'),
+    retentionDays: parseInt(process.env.JOBS_RETENTION_DAYS || '7'), // conservation des résultats
+    maxActivePerKey: parseInt(process.env.JOBS_MAX_ACTIVE_PER_KEY || '5'), // jobs en attente ou en cours
+  },
+
+  // Webhooks (livraisons signées HMAC, retries avec backoff exponentiel)
+  webhooks: {
+    pollIntervalMs: parseInt(process.env.WEBHOOKS_POLL_INTERVAL_MS || '5000'),
+    maxAttempts: parseInt(process.env.WEBHOOKS_MAX_ATTEMPTS || '6'),
+    retryBaseSeconds: parseInt(process.env.WEBHOOKS_RETRY_BASE_SECONDS || '30'), // 30s, 1min, 2min, 4min...
+    timeoutMs: parseInt(process.env.WEBHOOKS_TIMEOUT_MS || '10000'),
+  },
+
+  // Tables MAJIC (pm_AA_b_*, pb_AA_b_*): plusieurs millésimes peuvent être chargés
+  // Millésime par défaut des recherches: le plus récent, sauf MAJIC_MILLESIME (ex: 2024)
+  // pour garder l'ancien millésime par défaut pendant la validation du nouveau
+  majic: {
+    millesime: process.env.MAJIC_MILLESIME ? parseInt(process.env.MAJIC_MILLESIME) : null,
+  },
+
+  // Listes de surveillance (watchlists)
+  watchlists: {
+    maxItems: parseInt(process.env.WATCHLISTS_MAX_ITEMS || '500'), // éléments actifs par liste
+    maxPolygonLots: parseInt(process.env.WATCHLISTS_MAX_POLYGON_LOTS || '5000'), // lots suivis dans une zone
   },
 
   // Recherche
@@ -32,11 +95,12 @@ export const config = {
     defaultLimit: 100,
     maxLimit: 10000,
     fuzzyThreshold: 0.3, // Seuil de similarité pour la recherche fuzzy
+    // Requêtes simultanées sur les tables départementales (recherches nationales), sous le max du pool (20)
+    tableConcurrency: parseInt(process.env.SEARCH_TABLE_CONCURRENCY || '8'),
   },
 
   // PostGIS geocoding
   postgis: {
     srid: 4326, // WGS84
-    geocodingCoverage: 0.9799, // 97.99% coverage
   }
 };
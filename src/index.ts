@@ -3,9 +3,26 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import { config } from './config/index.js';
 import { testConnection, closePool } from './services/database.js';
+import { setupApiKeysTable, getUnknownDefaultScopes, API_SCOPES } from './services/api-keys.js';
+import { setupUsageTable } from './services/usage.js';
+import { setupJobsTable, startJobWorker, stopJobWorker } from './services/jobs.js';
+import { setupEnrichmentCacheTable, purgeExpiredEntreprises } from './services/enrichment-cache.js';
+import { setupDirigeantsIndexTable, backfillDirigeantsIndex, isDirigeantsBackfillDone } from './services/dirigeants-index.js';
+import { setupSirenIndexTable } from './services/siren-index.js';
+import { getUnknownEnrichmentProviders, listEnrichmentProviders } from './services/enrichment.js';
+import { setupWebhooksTable, startWebhookWorker, stopWebhookWorker } from './services/webhooks.js';
+import { setupWatchlistsTable, startWatchlistMonitor } from './services/watchlists.js';
+import { setupProprietairesGeoTables } from './services/proprietaires-geo.js';
+import { isConfiguredMillesimeLoaded } from './utils/table-resolver.js';
 import { searchRoutes } from './routes/search.js';
 import { healthRoutes } from './routes/health.js';
-import { adminRoutes } from './routes/admin.js';
+import { adminRoutes, adminSireneRoutes, adminDataRoutes, adminKeyRoutes } from './routes/admin.js';
+import { usageRoutes } from './routes/usage.js';
+import { jobRoutes } from './routes/jobs.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { entrepriseRoutes } from './routes/entreprises.js';
+import { historyRoutes } from './routes/history.js';
+import { watchlistRoutes } from './routes/watchlists.js';
 
 // Créer l'instance Fastify avec timeout étendu pour les recherches géo
 const fastify = Fastify({
@@ -50,6 +67,15 @@ async function setupServer() {
   await fastify.register(healthRoutes);
   await fastify.register(searchRoutes);
   await fastify.register(adminRoutes);
+  await fastify.register(adminSireneRoutes);
+  await fastify.register(adminDataRoutes);
+  await fastify.register(adminKeyRoutes);
+  await fastify.register(usageRoutes);
+  await fastify.register(jobRoutes);
+  await fastify.register(webhookRoutes);
+  await fastify.register(entrepriseRoutes);
+  await fastify.register(historyRoutes);
+  await fastify.register(watchlistRoutes);
 
   // Gestionnaire d'erreur global
   fastify.setErrorHandler((error: Error & { statusCode?: number }, _request, reply) => {
@@ -76,14 +102,45 @@ async function setupServer() {
 // Démarrer le serveur
 async function start() {
   try {
+    const unknownScopes = getUnknownDefaultScopes();
+    if (unknownScopes.length > 0) {
+      throw new Error(`API_KEY_DEFAULT_SCOPES: scopes inconnus (${unknownScopes.join(', ')}), disponibles: ${API_SCOPES.join(', ')}`);
+    }
+
     await setupServer();
 
     // Vérifier la connexion à la base de données (ne pas crasher si échec)
     const dbConnected = await testConnection();
+    let backfillDirigeants = false;
     if (!dbConnected) {
       fastify.log.warn('ATTENTION: Impossible de se connecter à la base de données - les recherches ne fonctionneront pas');
     } else {
       fastify.log.info('Connexion à la base de données établie');
+
+      // Tables applicatives (clés API, usage, jobs, webhooks, cache entreprises, index des dirigeants et des SIREN,
+      // listes de surveillance, reconstructions de proprietaires_geo)
+      await setupApiKeysTable();
+      await setupUsageTable();
+      await setupJobsTable();
+      await setupWebhooksTable();
+      await setupEnrichmentCacheTable();
+      await setupDirigeantsIndexTable();
+      await setupSirenIndexTable();
+      await setupWatchlistsTable();
+      await setupProprietairesGeoTables();
+
+      const purged = await purgeExpiredEntreprises();
+      if (purged > 0) {
+        fastify.log.info(`Cache entreprises: ${purged} fiches expirées supprimées`);
+      }
+
+      if (!await isConfiguredMillesimeLoaded()) {
+        fastify.log.warn(`MAJIC_MILLESIME=${config.majic.millesime} non chargé, millésime le plus récent utilisé`);
+      }
+
+      // Reprise du cache entreprises dans l'index des dirigeants pas encore terminée (première mise en service
+      // ou reprise interrompue): continuée après le démarrage du serveur
+      backfillDirigeants = !await isDirigeantsBackfillDone();
     }
 
     // Démarrer le serveur
@@ -94,7 +151,28 @@ async function start() {
 
     fastify.log.info(`Serveur démarré sur http://${config.host}:${config.port}`);
     fastify.log.info('Timeout configuré: 5 minutes pour les recherches géographiques');
+    fastify.log.info(`Sources d'enrichissement: ${config.enrichment.providers.join(' -> ')}`);
+
+    const unknownProviders = getUnknownEnrichmentProviders();
+    if (unknownProviders.length > 0) {
+      fastify.log.warn(`ENRICHMENT_PROVIDERS: sources inconnues ignorées (${unknownProviders.join(', ')}), disponibles: ${listEnrichmentProviders().join(', ')}`);
+    }
     fastify.log.info('Endpoints admin BAN: GET /admin/ban/status, POST /admin/ban/setup, POST /admin/ban/import');
+    fastify.log.info('Endpoints admin clés API: GET/POST /admin/keys, POST /admin/keys/:id/rotate, POST /admin/keys/:id/deactivate');
+
+    // Workers des jobs d'export (reprend aussi les jobs interrompus par un redémarrage) et des webhooks,
+    // vérification des listes de surveillance après chaque rafraîchissement des données
+    if (dbConnected) {
+      startWebhookWorker();
+      startJobWorker();
+      startWatchlistMonitor();
+    }
+
+    if (backfillDirigeants) {
+      backfillDirigeantsIndex()
+        .then(backfilled => fastify.log.info(`Index des dirigeants: ${backfilled} fiches du cache entreprises indexées`))
+        .catch(err => fastify.log.error(`Index des dirigeants: reprise du cache interrompue (${err instanceof Error ? err.message : err})`));
+    }
   } catch (err) {
     fastify.log.error(err instanceof Error ? err.message : 'Erreur inconnue');
     process.exit(1);
@@ -106,6 +184,8 @@ async function shutdown() {
   fastify.log.info('Arrêt du serveur...');
 
   try {
+    await stopJobWorker();
+    await stopWebhookWorker();
     await fastify.close();
     await closePool();
     fastify.log.info('Serveur arrêté proprement');
@@ -1,8 +1,52 @@
-import { FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyRequest, FastifyReply, HookHandlerDoneFunction } from 'fastify';
 import { config } from '../config/index.js';
+import { findApiKey, addMonthlyUsage, API_SCOPES } from '../services/api-keys.js';
+import { recordUsage } from '../services/usage.js';
+import { runWithUsage } from '../utils/usage-context.js';
+import { ApiKey, ApiScope, RequestUsage } from '../types/index.js';
 
-// Pour l'instant, on utilise une seule API key master
-// Plus tard, on pourra ajouter une table api_keys avec rate limiting et quotas
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Clé API authentifiée (renseignée par validateApiKey)
+    apiKey?: ApiKey;
+    // Compteurs de la requête (total_proprietaires est décompté du quota mensuel de la clé)
+    usage?: RequestUsage;
+  }
+}
+
+// Clé master (configuration): tous les scopes, pas de rate limiting ni de quota
+const MASTER_KEY: ApiKey = {
+  id: 0,
+  key_prefix: 'master',
+  name: 'master',
+  created_at: new Date(0),
+  is_active: true,
+  scopes: API_SCOPES,
+};
+
+const RATE_LIMIT_WINDOW_MS = 60000;
+
+// Timestamps des requêtes récentes par clé (fenêtre glissante d'une minute)
+const keyWindows = new Map<number, number[]>();
+
+// Consomme un slot de la fenêtre de la clé, retourne false si la limite est atteinte
+function consumeRateLimit(apiKey: ApiKey): boolean {
+  if (!apiKey.rate_limit) return true;
+
+  const now = Date.now();
+  const timestamps = (keyWindows.get(apiKey.id) || []).filter(ts => now - ts < RATE_LIMIT_WINDOW_MS);
+
+  if (timestamps.length >= apiKey.rate_limit) {
+    keyWindows.set(apiKey.id, timestamps);
+    return false;
+  }
+
+  timestamps.push(now);
+  keyWindows.set(apiKey.id, timestamps);
+  return true;
+}
+
+// Valide la clé API: master key (configuration) ou clé de la table api_keys
 export async function validateApiKey(
   request: FastifyRequest,
   reply: FastifyReply
@@ -19,8 +63,26 @@ export async function validateApiKey(
     return;
   }
 
-  // Vérification simple contre la master key
-  if (apiKey !== config.auth.masterApiKey) {
+  if (apiKey === config.auth.masterApiKey) {
+    request.apiKey = MASTER_KEY;
+    return;
+  }
+
+  let key: ApiKey | null;
+  try {
+    key = await findApiKey(apiKey);
+  } catch (error) {
+    console.error('Erreur vérification API key:', error);
+    reply.code(500).send({
+      success: false,
+      error: 'Erreur interne du serveur',
+      code: 'INTERNAL_ERROR',
+      details: 'Impossible de vérifier la clé API',
+    });
+    return;
+  }
+
+  if (!key || !key.is_active) {
     reply.code(403).send({
       success: false,
       error: 'API key invalide',
@@ -30,14 +92,107 @@ export async function validateApiKey(
     return;
   }
 
-  // Ici, on pourrait ajouter plus tard:
-  // - Vérification en base de données
-  // - Rate limiting par clé
-  // - Quotas mensuels
-  // - Logging des requêtes
+  if (!consumeRateLimit(key)) {
+    reply.code(429).send({
+      success: false,
+      error: 'Trop de requêtes',
+      code: 'RATE_LIMIT_EXCEEDED',
+      details: `Limite de ${key.rate_limit} requêtes par minute atteinte pour cette clé`,
+    });
+    return;
+  }
+
+  if (key.monthly_quota !== undefined && (key.current_month_usage || 0) >= key.monthly_quota) {
+    reply.code(429).send({
+      success: false,
+      error: 'Quota mensuel atteint',
+      code: 'QUOTA_EXCEEDED',
+      details: `Quota de ${key.monthly_quota} résultats par mois atteint pour cette clé`,
+    });
+    return;
+  }
+
+  request.apiKey = key;
+}
+
+// Initialise les compteurs de la requête (les services y ajoutent leurs appels d'enrichissement)
+export function trackUsage(
+  request: FastifyRequest,
+  _reply: FastifyReply,
+  done: HookHandlerDoneFunction
+): void {
+  const usage: RequestUsage = { total_proprietaires: 0, total_lots: 0, enrichment_calls: 0 };
+  request.usage = usage;
+  runWithUsage(usage, done);
+}
+
+// Renseigne le nombre de résultats retournés par la route
+export function setResultCounts(request: FastifyRequest, totalProprietaires: number, totalLots: number): void {
+  if (!request.usage) return;
+  request.usage.total_proprietaires = totalProprietaires;
+  request.usage.total_lots = totalLots;
+}
+
+// Enregistre la requête dans api_usage et décompte les résultats du quota mensuel de la clé
+export async function recordKeyUsage(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const key = request.apiKey;
+  const usage = request.usage;
+  if (!key || !usage) return;
+
+  try {
+    await recordUsage({
+      api_key_id: key.id,
+      method: request.method,
+      route: request.routeOptions.url || request.url,
+      status_code: reply.statusCode,
+      duration_ms: reply.elapsedTime,
+      ...usage,
+    });
+
+    if (key.id !== MASTER_KEY.id && reply.statusCode < 400) {
+      await addMonthlyUsage(key.id, usage.total_proprietaires);
+    }
+  } catch (error) {
+    console.error(`Erreur mise à jour usage API key ${key.key_prefix}:`, error);
+  }
 }
 
-// Décorateur pour les routes protégées
+// Vérifie que la clé authentifiée dispose du scope
+export function hasScope(request: FastifyRequest, scope: ApiScope): boolean {
+  return request.apiKey?.scopes.includes(scope) ?? false;
+}
+
+// Répond 403 INSUFFICIENT_SCOPE pour un scope manquant
+export function sendInsufficientScope(reply: FastifyReply, scope: ApiScope): FastifyReply {
+  return reply.code(403).send({
+    success: false,
+    error: 'Scope insuffisant',
+    code: 'INSUFFICIENT_SCOPE',
+    details: `Cette opération nécessite le scope "${scope}"`,
+  });
+}
+
+// Décorateur pour les routes protégées (toute clé valide)
 export const authHook = {
+  onRequest: trackUsage,
   preHandler: validateApiKey,
+  onResponse: recordKeyUsage,
 };
+
+// Décorateur pour les routes protégées nécessitant un scope
+export function requireScope(scope: ApiScope) {
+  const checkScope = async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (!hasScope(request, scope)) {
+      sendInsufficientScope(reply, scope);
+    }
+  };
+
+  return {
+    onRequest: trackUsage,
+    preHandler: [validateApiKey, checkScope],
+    onResponse: recordKeyUsage,
+  };
+}
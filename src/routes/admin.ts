@@ -5,17 +5,91 @@ import {
   fullSetup,
   startBanImport,
   getImportState,
-  createIndexes,
+  reindexBan,
 } from '../services/ban-setup.js';
 import { getBanStats } from '../services/geo-search.js';
-import { authHook } from '../middleware/auth.js';
+import {
+  checkSireneTables,
+  createSireneTables,
+  getSireneFiles,
+  getSireneImportState,
+  startSireneImport,
+} from '../services/sirene-setup.js';
+import {
+  getSirenIndexStats,
+  getSirenIndexBuildState,
+  startSirenIndexRebuild,
+} from '../services/siren-index.js';
+import { getWatchlistStats, getWatchlistCheckState, startWatchlistCheck } from '../services/watchlists.js';
+import {
+  getGeoRebuildState,
+  getLastGeoBuild,
+  getResumableGeoBuild,
+  startGeoRebuild,
+} from '../services/proprietaires-geo.js';
+import {
+  createApiKey,
+  listApiKeys,
+  rotateApiKey,
+  deactivateApiKey,
+  updateApiKeyScopes,
+  isValidScopeList,
+  API_SCOPES,
+} from '../services/api-keys.js';
+import { getUsageReport, getUsageByKey } from '../services/usage.js';
+import { getEnrichmentCacheStats, invalidateCachedEntreprises } from '../services/enrichment-cache.js';
+import { getEnrichmentProvidersHealth } from '../services/enrichment.js';
+import { requireScope } from '../middleware/auth.js';
+import { parseUsageDays, MAX_USAGE_DAYS } from './usage.js';
+import { parseMillesime, listAvailableMillesimes } from '../utils/table-resolver.js';
+import { config } from '../config/index.js';
+import { ApiScope } from '../types/index.js';
+
+// Types pour les requêtes de gestion des clés
+interface CreateApiKeyBody {
+  name: string;
+  rate_limit?: number;
+  monthly_quota?: number;
+  scopes?: ApiScope[];
+}
+
+interface UpdateScopesBody {
+  scopes: ApiScope[];
+}
+
+interface RotateApiKeyBody {
+  grace_period_hours?: number;
+}
+
+interface ApiKeyParams {
+  id: string;
+}
+
+interface AdminUsageQuery {
+  days?: number;
+  key_id?: string;
+}
+
+interface InvalidateCacheBody {
+  siren?: string;
+}
+
+interface GeoRebuildBody {
+  millesime?: string | number;
+  restart?: boolean;
+}
+
+// Vérifie qu'une valeur optionnelle est un entier positif
+function isOptionalPositiveInt(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+}
 
 export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   
   // Vérifier l'état du système BAN
   fastify.get(
     '/admin/ban/status',
-    { ...authHook },
+    { ...requireScope('admin:ban') },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
         const postgis = await checkPostGIS();
@@ -56,7 +130,7 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   // Setup: installer PostGIS et créer la table BAN
   fastify.post(
     '/admin/ban/setup',
-    { ...authHook },
+    { ...requireScope('admin:ban') },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
         console.log('[Admin] Démarrage setup BAN...');
@@ -90,7 +164,7 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   // Import: télécharger et importer la BAN (en arrière-plan)
   fastify.post(
     '/admin/ban/import',
-    { ...authHook },
+    { ...requireScope('admin:ban') },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
         console.log('[Admin] Démarrage import BAN...');
@@ -123,11 +197,11 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   // Recréer les index (après import)
   fastify.post(
     '/admin/ban/reindex',
-    { ...authHook },
+    { ...requireScope('admin:ban') },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
         console.log('[Admin] Recréation des index BAN...');
-        const result = await createIndexes();
+        const result = await reindexBan();
 
         return reply.send({
           success: result.success,
@@ -147,7 +221,7 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   // Stats BAN (raccourci)
   fastify.get(
     '/admin/ban/stats',
-    { ...authHook },
+    { ...requireScope('admin:ban') },
     async (_request: FastifyRequest, reply: FastifyReply) => {
       try {
         const stats = await getBanStats();
@@ -175,3 +249,642 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 }
+
+export async function adminSireneRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Vérifier l'état du stock SIRENE (tables, fichiers, import en cours)
+  fastify.get(
+    '/admin/sirene/status',
+    { ...requireScope('admin:sirene') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const tables = await checkSireneTables();
+        const files = getSireneFiles();
+
+        return reply.send({
+          success: true,
+          system: {
+            providers: config.enrichment.providers,
+            data_dir: config.sirene.dataDir,
+            fichier_unites_legales: files.unitesLegales,
+            fichier_etablissements: files.etablissements,
+            tables_exist: tables.exists,
+            unites_legales_count: tables.unitesLegales,
+            etablissements_count: tables.etablissements,
+          },
+          import: getSireneImportState(),
+          ready: tables.exists && tables.unitesLegales > 0,
+          next_step: !tables.exists
+            ? 'Appelez POST /admin/sirene/setup pour créer les tables'
+            : !files.unitesLegales || !files.etablissements
+            ? `Déposez les fichiers du stock SIRENE dans ${config.sirene.dataDir}`
+            : tables.unitesLegales === 0
+            ? 'Appelez POST /admin/sirene/import pour importer le stock'
+            : config.enrichment.providers.includes('sirene')
+            ? 'Enrichissement servi par le stock SIRENE'
+            : 'Stock prêt: ajoutez "sirene" à ENRICHMENT_PROVIDERS pour l\'utiliser',
+        });
+      } catch (error) {
+        console.error('Erreur status SIRENE:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la vérification',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Setup: créer les tables SIRENE
+  fastify.post(
+    '/admin/sirene/setup',
+    { ...requireScope('admin:sirene') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        console.log('[Admin] Création des tables SIRENE...');
+        const result = await createSireneTables();
+
+        if (!result.success) {
+          return reply.code(500).send({
+            success: false,
+            error: result.message,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: result.message,
+          next_step: `Déposez les fichiers du stock dans ${config.sirene.dataDir} puis appelez POST /admin/sirene/import`,
+        });
+      } catch (error) {
+        console.error('Erreur setup SIRENE:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors du setup',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Import: importer les fichiers du stock déposés localement (en arrière-plan)
+  fastify.post(
+    '/admin/sirene/import',
+    { ...requireScope('admin:sirene') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        console.log('[Admin] Démarrage import SIRENE...');
+        const result = await startSireneImport();
+
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.message,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: result.message,
+          check_progress: 'GET /admin/sirene/status',
+          estimated_time: '1-3 heures',
+        });
+      } catch (error) {
+        console.error('Erreur import SIRENE:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors du démarrage de l\'import',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
+
+export async function adminDataRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Vérifier l'état de l'index SIREN (volume, dernière reconstruction, reconstruction en cours)
+  fastify.get(
+    '/admin/siren-index/status',
+    { ...requireScope('admin:data') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const stats = await getSirenIndexStats();
+
+        return reply.send({
+          success: true,
+          index: stats,
+          rebuild: getSirenIndexBuildState(),
+          ready: stats.indexed_at !== null,
+          next_step: stats.indexed_at === null
+            ? 'Appelez POST /admin/siren-index/rebuild pour construire l\'index'
+            : 'Index utilisé par /search/siren et /search/siren/summary (à reconstruire après chargement des tables MAJIC)',
+        });
+      } catch (error) {
+        console.error('Erreur status index SIREN:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la vérification',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Reconstruire l'index SIREN depuis les tables MAJIC (en arrière-plan)
+  fastify.post(
+    '/admin/siren-index/rebuild',
+    { ...requireScope('admin:data') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        console.log('[Admin] Reconstruction de l\'index SIREN...');
+        const result = await startSirenIndexRebuild();
+
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.message,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: result.message,
+          check_progress: 'GET /admin/siren-index/status',
+        });
+      } catch (error) {
+        console.error('Erreur reconstruction index SIREN:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors du démarrage de la reconstruction',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Vérifier l'état de proprietaires_geo (dernière reconstruction, couverture, reconstruction en cours ou reprenable)
+  fastify.get(
+    '/admin/proprietaires-geo/status',
+    { ...requireScope('admin:data') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const lastBuild = await getLastGeoBuild();
+        const resumable = await getResumableGeoBuild();
+
+        return reply.send({
+          success: true,
+          last_build: lastBuild,
+          rebuild: getGeoRebuildState(),
+          resumable,
+          next_step: resumable
+            ? `Appelez POST /admin/proprietaires-geo/rebuild pour reprendre la reconstruction (${resumable.tables_done}/${resumable.tables_count} tables traitées)`
+            : lastBuild === null
+            ? 'Appelez POST /admin/proprietaires-geo/rebuild pour géocoder les tables MAJIC (BAN importée requise)'
+            : 'Table à reconstruire après chaque nouveau millésime MAJIC ou import BAN',
+        });
+      } catch (error) {
+        console.error('Erreur status proprietaires_geo:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la vérification',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Reconstruire proprietaires_geo depuis les tables MAJIC et la BAN (en arrière-plan, reprise après interruption)
+  fastify.post<{ Body: GeoRebuildBody }>(
+    '/admin/proprietaires-geo/rebuild',
+    { ...requireScope('admin:data') },
+    async (request: FastifyRequest<{ Body: GeoRebuildBody }>, reply: FastifyReply) => {
+      const { millesime, restart } = request.body || {};
+
+      try {
+        let effectiveMillesime: number | undefined;
+        if (millesime !== undefined) {
+          const parsed = await parseMillesime(String(millesime));
+          if (!parsed) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Millésime invalide',
+              code: 'INVALID_MILLESIME',
+              details: `Millésime "${millesime}" non chargé. Millésimes disponibles: ${(await listAvailableMillesimes()).join(', ') || 'aucun'}`,
+            });
+          }
+          effectiveMillesime = parsed;
+        }
+
+        console.log('[Admin] Reconstruction de proprietaires_geo...');
+        const result = await startGeoRebuild(effectiveMillesime, restart === true);
+
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.message,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: result.message,
+          resumed: result.resumed,
+          check_progress: 'GET /admin/proprietaires-geo/status',
+        });
+      } catch (error) {
+        console.error('Erreur reconstruction proprietaires_geo:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors du démarrage de la reconstruction',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Vérifier l'état des listes de surveillance (volume, dernière vérification, vérification en cours)
+  fastify.get(
+    '/admin/watchlists/status',
+    { ...requireScope('admin:data') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const stats = await getWatchlistStats();
+
+        return reply.send({
+          success: true,
+          watchlists: stats,
+          check: getWatchlistCheckState(),
+        });
+      } catch (error) {
+        console.error('Erreur status listes de surveillance:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la vérification',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Comparer tous les éléments surveillés aux données courantes (en arrière-plan)
+  // Lancé automatiquement après un nouveau millésime MAJIC et après la reconstruction de proprietaires_geo (zones)
+  fastify.post(
+    '/admin/watchlists/check',
+    { ...requireScope('admin:data') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        console.log('[Admin] Vérification des listes de surveillance...');
+        const result = await startWatchlistCheck('admin');
+
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.message,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: result.message,
+          check_progress: 'GET /admin/watchlists/status',
+        });
+      } catch (error) {
+        console.error('Erreur vérification listes de surveillance:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors du démarrage de la vérification',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
+
+export async function adminKeyRoutes(fastify: FastifyInstance): Promise<void> {
+
+  // Créer une clé API (la clé en clair n'est retournée qu'une seule fois)
+  fastify.post<{ Body: CreateApiKeyBody }>(
+    '/admin/keys',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Body: CreateApiKeyBody }>, reply: FastifyReply) => {
+      const { name, rate_limit, monthly_quota, scopes } = request.body || {};
+
+      if (!name || typeof name !== 'string' || name.trim().length < 2) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Nom de clé invalide',
+          code: 'INVALID_KEY_NAME',
+          details: 'Le paramètre "name" doit contenir au moins 2 caractères',
+        });
+      }
+
+      if (!isOptionalPositiveInt(rate_limit) || !isOptionalPositiveInt(monthly_quota)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Limites invalides',
+          code: 'INVALID_KEY_LIMITS',
+          details: 'rate_limit et monthly_quota doivent être des entiers positifs',
+        });
+      }
+
+      if (scopes !== undefined && !isValidScopeList(scopes)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Scopes invalides',
+          code: 'INVALID_SCOPES',
+          details: `Scopes disponibles: ${API_SCOPES.join(', ')}`,
+        });
+      }
+
+      try {
+        const { key, apiKey } = await createApiKey({ name: name.trim(), rate_limit, monthly_quota, scopes });
+        console.log(`[Admin] Clé API créée: ${apiKey.name} (${apiKey.key_prefix}...)`);
+
+        return reply.code(201).send({
+          success: true,
+          key,
+          api_key: apiKey,
+          warning: 'Conservez cette clé: elle ne sera plus jamais affichée',
+        });
+      } catch (error) {
+        console.error('Erreur création clé API:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la création de la clé',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Lister les clés API avec leur usage du mois
+  fastify.get(
+    '/admin/keys',
+    { ...requireScope('admin:keys') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const keys = await listApiKeys();
+
+        return reply.send({
+          success: true,
+          keys,
+          total: keys.length,
+        });
+      } catch (error) {
+        console.error('Erreur liste clés API:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la récupération des clés',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Rotation: nouvelle clé, l'ancienne reste valide pendant la période de grâce
+  fastify.post<{ Params: ApiKeyParams; Body: RotateApiKeyBody }>(
+    '/admin/keys/:id/rotate',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Params: ApiKeyParams; Body: RotateApiKeyBody }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const gracePeriodHours = request.body?.grace_period_hours ?? config.auth.rotationGraceHours;
+
+      if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > 720) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Période de grâce invalide',
+          code: 'INVALID_GRACE_PERIOD',
+          details: 'grace_period_hours doit être un nombre entre 0 et 720',
+        });
+      }
+
+      try {
+        const result = isNaN(id) ? null : await rotateApiKey(id, gracePeriodHours);
+
+        if (!result) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Clé API introuvable ou désactivée',
+            code: 'API_KEY_NOT_FOUND',
+          });
+        }
+
+        console.log(`[Admin] Rotation clé API ${result.apiKey.name} (grâce: ${gracePeriodHours}h)`);
+
+        return reply.send({
+          success: true,
+          key: result.key,
+          api_key: result.apiKey,
+          warning: 'Conservez cette clé: elle ne sera plus jamais affichée',
+          previous_key_valid_until: result.apiKey.previous_key_expires_at,
+        });
+      } catch (error) {
+        console.error('Erreur rotation clé API:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la rotation de la clé',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Remplacer les scopes d'une clé
+  fastify.post<{ Params: ApiKeyParams; Body: UpdateScopesBody }>(
+    '/admin/keys/:id/scopes',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Params: ApiKeyParams; Body: UpdateScopesBody }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const scopes = request.body?.scopes;
+
+      if (!isValidScopeList(scopes) || scopes.length === 0) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Scopes invalides',
+          code: 'INVALID_SCOPES',
+          details: `Scopes disponibles: ${API_SCOPES.join(', ')}`,
+        });
+      }
+
+      try {
+        const apiKey = isNaN(id) ? null : await updateApiKeyScopes(id, scopes);
+
+        if (!apiKey) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Clé API introuvable',
+            code: 'API_KEY_NOT_FOUND',
+          });
+        }
+
+        console.log(`[Admin] Scopes clé API ${apiKey.name}: ${apiKey.scopes.join(', ')}`);
+
+        return reply.send({
+          success: true,
+          api_key: apiKey,
+        });
+      } catch (error) {
+        console.error('Erreur mise à jour scopes clé API:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la mise à jour des scopes',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Désactiver une clé (immédiat, ancienne clé en période de grâce comprise)
+  fastify.post<{ Params: ApiKeyParams }>(
+    '/admin/keys/:id/deactivate',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Params: ApiKeyParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+
+      try {
+        const apiKey = isNaN(id) ? null : await deactivateApiKey(id);
+
+        if (!apiKey) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Clé API introuvable',
+            code: 'API_KEY_NOT_FOUND',
+          });
+        }
+
+        console.log(`[Admin] Clé API désactivée: ${apiKey.name}`);
+
+        return reply.send({
+          success: true,
+          api_key: apiKey,
+        });
+      } catch (error) {
+        console.error('Erreur désactivation clé API:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la désactivation de la clé',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Usage de toutes les clés (ou d'une clé avec key_id)
+  fastify.get<{ Querystring: AdminUsageQuery }>(
+    '/admin/usage',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Querystring: AdminUsageQuery }>, reply: FastifyReply) => {
+      const days = parseUsageDays(request.query.days);
+      const keyId = request.query.key_id !== undefined ? parseInt(request.query.key_id) : undefined;
+
+      if (days === null || (keyId !== undefined && isNaN(keyId))) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Paramètres invalides',
+          code: 'INVALID_USAGE_QUERY',
+          details: `"days" doit être un entier entre 1 et ${MAX_USAGE_DAYS}, "key_id" un identifiant de clé`,
+        });
+      }
+
+      try {
+        const [report, parCle] = await Promise.all([
+          getUsageReport(keyId, days),
+          keyId === undefined ? getUsageByKey(days) : Promise.resolve(undefined),
+        ]);
+
+        return reply.send({
+          success: true,
+          key_id: keyId ?? null,
+          days,
+          ...report,
+          par_cle: parCle,
+        });
+      } catch (error) {
+        console.error('Erreur rapport d\'usage admin:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la récupération de l\'usage',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Sources d'enrichissement: ordre de la chaîne, timeouts et état de santé
+  fastify.get(
+    '/admin/enrichment/providers',
+    { ...requireScope('admin:keys') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send({
+        success: true,
+        chain: config.enrichment.providers,
+        providers: getEnrichmentProvidersHealth(),
+      });
+    }
+  );
+
+  // Statistiques du cache des fiches entreprises
+  fastify.get(
+    '/admin/enrichment/cache',
+    { ...requireScope('admin:keys') },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const stats = await getEnrichmentCacheStats();
+
+        return reply.send({
+          success: true,
+          cache: {
+            enabled: config.enrichmentCache.enabled,
+            ttl_hours: config.enrichmentCache.ttlHours,
+            negative_ttl_hours: config.enrichmentCache.negativeTtlHours,
+            ...stats,
+          },
+        });
+      } catch (error) {
+        console.error('Erreur stats cache entreprises:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de la récupération des stats du cache',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Invalider une fiche (siren) ou tout le cache: le prochain enrichissement interroge l'API
+  fastify.post<{ Body: InvalidateCacheBody }>(
+    '/admin/enrichment/cache/invalidate',
+    { ...requireScope('admin:keys') },
+    async (request: FastifyRequest<{ Body: InvalidateCacheBody }>, reply: FastifyReply) => {
+      const siren = request.body?.siren;
+
+      if (siren !== undefined && (typeof siren !== 'string' || !/^\d{9}$/.test(siren))) {
+        return reply.code(400).send({
+          success: false,
+          error: 'SIREN invalide',
+          code: 'INVALID_SIREN',
+          details: 'Le SIREN doit contenir exactement 9 chiffres',
+        });
+      }
+
+      try {
+        const deleted = await invalidateCachedEntreprises(siren);
+        console.log(`[Admin] Cache entreprises invalidé (${siren || 'toutes les fiches'}): ${deleted} entrées`);
+
+        return reply.send({
+          success: true,
+          siren: siren ?? null,
+          deleted,
+        });
+      } catch (error) {
+        console.error('Erreur invalidation cache entreprises:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur lors de l\'invalidation du cache',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
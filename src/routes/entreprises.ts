@@ -0,0 +1,106 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { MAX_DEPTH } from '../services/entreprises-api.js';
+import { buildControlGraph } from '../services/ownership-graph.js';
+import { requireScope, setResultCounts } from '../middleware/auth.js';
+import { controlGraphToDot } from '../utils/graphviz.js';
+
+// Types pour les requêtes
+interface EntrepriseParams {
+  siren: string;
+}
+
+interface ControlGraphQuery {
+  format?: string;
+  max_depth?: number;
+}
+
+type GraphFormat = 'json' | 'dot';
+
+const DOT_MEDIA_TYPE = 'text/vnd.graphviz';
+
+// Format de sortie: paramètre format, sinon header Accept (null si le format est inconnu)
+function resolveGraphFormat(request: FastifyRequest, format: string | undefined): GraphFormat | null {
+  if (format !== undefined) {
+    return format === 'json' || format === 'dot' ? format : null;
+  }
+  return (request.headers.accept || '').includes(DOT_MEDIA_TYPE) ? 'dot' : 'json';
+}
+
+export async function entrepriseRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Graphe de contrôle d'une entreprise (dirigeants personnes morales et physiques)
+  fastify.get<{ Params: EntrepriseParams; Querystring: ControlGraphQuery }>(
+    '/entreprises/:siren/graph',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Params: EntrepriseParams; Querystring: ControlGraphQuery }>, reply: FastifyReply) => {
+      const { siren } = request.params;
+      const { format, max_depth } = request.query;
+
+      if (!/^\d{9}$/.test(siren)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'SIREN invalide',
+          code: 'INVALID_SIREN',
+          details: 'Le SIREN doit contenir exactement 9 chiffres',
+        });
+      }
+
+      const outputFormat = resolveGraphFormat(request, format);
+      if (!outputFormat) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Format invalide',
+          code: 'INVALID_FORMAT',
+          details: 'Le paramètre "format" doit valoir "json" ou "dot"',
+        });
+      }
+
+      const maxDepth = max_depth !== undefined ? Number(max_depth) : MAX_DEPTH;
+      if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_DEPTH) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Profondeur invalide',
+          code: 'INVALID_DEPTH',
+          details: `Le paramètre "max_depth" doit être un entier entre 1 et ${MAX_DEPTH}`,
+        });
+      }
+
+      try {
+        const graph = await buildControlGraph(siren, maxDepth);
+
+        if (!graph) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Entreprise introuvable',
+            code: 'ENTREPRISE_NOT_FOUND',
+            details: `Aucune entreprise avec le SIREN ${siren} dans l'API Recherche Entreprises`,
+          });
+        }
+
+        setResultCounts(request, graph.nodes.length, 0);
+
+        if (outputFormat === 'dot') {
+          return reply
+            .header('Content-Type', `${DOT_MEDIA_TYPE}; charset=utf-8`)
+            .send(controlGraphToDot(graph));
+        }
+
+        return reply.send({
+          success: true,
+          query: {
+            siren,
+            max_depth: maxDepth,
+          },
+          graph,
+        });
+      } catch (error) {
+        console.error('Erreur graphe de contrôle:', error);
+        return reply.code(502).send({
+          success: false,
+          error: 'API Recherche Entreprises indisponible',
+          code: 'ENRICHMENT_UNAVAILABLE',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
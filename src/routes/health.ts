@@ -1,6 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { testConnection } from '../services/database.js';
-import { listAvailableDepartments } from '../utils/table-resolver.js';
+import { listAvailableDepartments, listAvailableMillesimes, getDefaultMillesime, parseMillesime } from '../utils/table-resolver.js';
 
 export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
   // Route: Health check (pas d'authentification requise)
@@ -24,13 +24,28 @@ export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
     });
   });
 
-  // Route: Liste des départements disponibles
-  fastify.get('/departments', async (_request: FastifyRequest, reply: FastifyReply) => {
+  // Route: Liste des départements disponibles (millésime par défaut, ou ?millesime=2024)
+  fastify.get<{ Querystring: { millesime?: string } }>('/departments', async (request: FastifyRequest<{ Querystring: { millesime?: string } }>, reply: FastifyReply) => {
     try {
-      const departments = await listAvailableDepartments();
+      const { millesime } = request.query;
+      const millesimes = await listAvailableMillesimes();
+      const effectiveMillesime = millesime !== undefined ? await parseMillesime(millesime) : await getDefaultMillesime();
+
+      if (millesime !== undefined && !effectiveMillesime) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Millésime invalide',
+          code: 'INVALID_MILLESIME',
+          details: `Millésime "${millesime}" non chargé. Millésimes disponibles: ${millesimes.join(', ') || 'aucun'}`,
+        });
+      }
+
+      const departments = await listAvailableDepartments(effectiveMillesime ?? undefined);
 
       return reply.send({
         success: true,
+        millesime: effectiveMillesime,
+        millesimes,
         departements: departments,
         total: departments.length,
       });
@@ -52,13 +67,20 @@ export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
       description: 'API de recherche cadastrale avec enrichissement entreprises',
       endpoints: {
         'GET /health': 'Vérification de l\'état de l\'API',
-        'GET /departments': 'Liste des départements disponibles',
+        'GET /departments': {
+          description: 'Liste des départements et des millésimes MAJIC disponibles',
+          params: {
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+          },
+        },
         'GET /search/address': {
           description: 'Recherche de propriétaires par adresse',
           params: {
             adresse: 'Texte de recherche (requis, min 3 caractères)',
             departement: 'Code département pour filtrer (optionnel)',
-            limit: 'Nombre max de résultats (optionnel)',
+            limit: 'Nombre max de propriétaires par page (optionnel)',
+            cursor: 'Curseur de pagination, valeur next_cursor de la page précédente (optionnel)',
+            format: 'json (défaut), geojson, csv ou xlsx (optionnel, ou header Accept)',
           },
           auth: 'X-API-Key header requis',
         },
@@ -67,6 +89,39 @@ export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
           params: {
             siren: 'Numéro SIREN à 9 chiffres (requis)',
             departement: 'Code département pour filtrer (optionnel)',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+            format: 'json (défaut), csv ou xlsx (optionnel)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /search/siren/summary': {
+          description: 'Nombre de lots d\'un SIREN par département (index siren_index)',
+          params: {
+            siren: 'Numéro SIREN à 9 chiffres (requis)',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /search/group': {
+          description: 'Propriétés des sociétés reliées au SIREN par la chaîne de contrôle (amont et aval)',
+          params: {
+            siren: 'SIREN de la société racine (requis)',
+            departement: 'Code département pour filtrer (optionnel)',
+            max_depth: 'Liens de contrôle suivis, 1 à 5 (optionnel, défaut 3)',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+            format: 'json (défaut), csv ou xlsx (optionnel)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /search/dirigeant': {
+          description: 'Propriétés des entreprises dont une personne est dirigeante ou bénéficiaire effective',
+          params: {
+            nom: 'Nom de famille (requis)',
+            prenoms: 'Prénom(s), comparés en début de chaîne (optionnel)',
+            annee_naissance: 'Année de naissance sur 4 chiffres (optionnel)',
+            departement: 'Code département pour filtrer (optionnel)',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+            format: 'json (défaut), csv ou xlsx (optionnel)',
           },
           auth: 'X-API-Key header requis',
         },
@@ -75,7 +130,121 @@ export async function healthRoutes(fastify: FastifyInstance): Promise<void> {
           params: {
             denomination: 'Nom ou raison sociale à rechercher (requis, min 2 caractères)',
             departement: 'Code département pour filtrer (optionnel)',
-            limit: 'Nombre max de résultats (optionnel)',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+            limit: 'Nombre max de propriétaires par page (optionnel, défaut 10000)',
+            cursor: 'Curseur de pagination, valeur next_cursor de la page précédente (optionnel)',
+            format: 'json (défaut), csv ou xlsx (optionnel)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /search/parcel': {
+          description: 'Titulaires de droits sur une parcelle (référence cadastrale)',
+          params: {
+            reference: 'Référence complète, ex: 75-056-000-AB-0123 (ou les paramètres ci-dessous)',
+            departement: 'Code département',
+            code_commune: 'Code commune INSEE (3 chiffres)',
+            prefixe: 'Préfixe de section (optionnel)',
+            section: 'Section cadastrale',
+            numero_plan: 'Numéro de plan',
+            millesime: 'Millésime MAJIC, ex: 2024 (optionnel, défaut: le plus récent)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /usage': {
+          description: 'Usage de la clé appelante (agrégats quotidiens, mensuels et par route)',
+          params: {
+            days: 'Nombre de jours des agrégats quotidiens (optionnel, défaut 30, max 366)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'POST /jobs': {
+          description: 'Lance une recherche en arrière-plan (job d\'export)',
+          params: {
+            type: 'address, siren, owner, geo ou radius (requis)',
+            params: 'Paramètres de la recherche correspondante (requis)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /jobs/:id': {
+          description: 'Statut et progression d\'un job',
+          auth: 'X-API-Key header requis',
+        },
+        'GET /jobs/:id/result': {
+          description: 'Résultat d\'un job terminé',
+          params: {
+            format: 'json (défaut), ndjson, csv, xlsx ou geojson (optionnel)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /entreprises/:siren/graph': {
+          description: 'Graphe de contrôle d\'une entreprise (dirigeants personnes morales et physiques)',
+          params: {
+            siren: 'Numéro SIREN à 9 chiffres (requis)',
+            max_depth: 'Niveaux de sociétés remontés, 1 à 5 (optionnel, défaut 5)',
+            format: 'json (défaut) ou dot (optionnel, ou header Accept)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /history/parcel': {
+          description: 'Acquisitions, cessions, changements de droit et de dénomination sur une parcelle entre millésimes MAJIC',
+          params: {
+            reference: 'Référence complète, ex: 75-056-000-AB-0123 (ou departement, code_commune, prefixe, section, numero_plan)',
+            depuis: 'Premier millésime comparé (optionnel, défaut: le plus ancien)',
+            jusqu_a: 'Dernier millésime comparé (optionnel, défaut: millésime par défaut)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'GET /history/siren/:siren': {
+          description: 'Acquisitions, cessions, changements de droit et de dénomination d\'un SIREN entre millésimes MAJIC',
+          params: {
+            siren: 'Numéro SIREN à 9 chiffres (requis)',
+            departement: 'Code département pour filtrer (optionnel)',
+            depuis: 'Premier millésime comparé (optionnel, défaut: le plus ancien)',
+            jusqu_a: 'Dernier millésime comparé (optionnel, défaut: millésime par défaut)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'POST /webhooks': {
+          description: 'Enregistre une URL notifiée (POST signé HMAC) à la fin des imports BAN, des jobs et des vérifications de listes',
+          params: {
+            url: 'URL http(s) de destination (requis)',
+            events: 'ban.import.completed, ban.import.failed, ban.reindex.completed, ban.reindex.failed, job.completed, job.failed, watchlist.events (requis)',
+          },
+          auth: 'X-API-Key header requis (scope admin:ban pour les événements ban.*)',
+        },
+        'GET /webhooks': {
+          description: 'Webhooks de la clé appelante',
+          auth: 'X-API-Key header requis',
+        },
+        'GET /webhooks/:id/deliveries': {
+          description: 'Journal des livraisons d\'un webhook et de leurs tentatives',
+          auth: 'X-API-Key header requis',
+        },
+        'POST /watchlists': {
+          description: 'Crée une liste de surveillance (SIREN, parcelles, zones)',
+          params: {
+            name: 'Nom de la liste (requis)',
+          },
+          auth: 'X-API-Key header requis',
+        },
+        'POST /watchlists/:id/items': {
+          description: 'Ajoute un élément surveillé et relève son état de référence',
+          params: {
+            type: 'siren, parcel ou polygon (requis)',
+            siren: 'SIREN à 9 chiffres (type siren), departement optionnel',
+            reference: 'Référence complète (type parcel), ou departement, code_commune, prefixe, section, numero_plan',
+            geometry: 'Polygon/MultiPolygon GeoJSON ou polygon (type polygon), repair optionnel',
+            label: 'Libellé (optionnel)',
+          },
+          auth: 'X-API-Key header requis (scope search:geo pour les zones)',
+        },
+        'GET /watchlists/:id/events': {
+          description: 'Événements de changement (nouveau propriétaire, lot ajouté/retiré, entreprise fermée...)',
+          params: {
+            since_id: 'Événements postérieurs à cet identifiant (optionnel)',
+            limit: 'Nombre d\'événements (optionnel, défaut 100, max 1000)',
+            type: 'Type d\'événement (optionnel)',
+            item_id: 'Élément de la liste (optionnel)',
           },
           auth: 'X-API-Key header requis',
         },
@@ -0,0 +1,179 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { parseReferenceComplete } from '../services/search.js';
+import { getParcelHistory, getSirenHistory, resolveHistoryMillesimes, HistoryResult } from '../services/history.js';
+import { requireScope, setResultCounts } from '../middleware/auth.js';
+import { listAvailableMillesimes, parseMillesime } from '../utils/table-resolver.js';
+
+// Types pour les requêtes
+interface HistoryRangeQuery {
+  depuis?: string;
+  jusqu_a?: string;
+}
+
+interface ParcelHistoryQuery extends HistoryRangeQuery {
+  reference?: string;
+  departement?: string;
+  code_commune?: string;
+  prefixe?: string;
+  section?: string;
+  numero_plan?: string;
+}
+
+interface SirenHistoryParams {
+  siren: string;
+}
+
+interface SirenHistoryQuery extends HistoryRangeQuery {
+  departement?: string;
+}
+
+interface HistoryRangeError {
+  success: false;
+  error: string;
+  code: string;
+  details: string;
+}
+
+// Millésimes comparés: depuis (défaut: le plus ancien chargé) jusqu'à jusqu_a (défaut: millésime par défaut)
+async function resolveHistoryRange(query: HistoryRangeQuery): Promise<number[] | HistoryRangeError> {
+  const bornes: Array<[string, string | undefined]> = [['depuis', query.depuis], ['jusqu_a', query.jusqu_a]];
+  const valeurs: Array<number | undefined> = [];
+
+  for (const [name, value] of bornes) {
+    if (value === undefined) {
+      valeurs.push(undefined);
+      continue;
+    }
+    const millesime = await parseMillesime(value);
+    if (!millesime) {
+      return {
+        success: false,
+        error: 'Millésime invalide',
+        code: 'INVALID_MILLESIME',
+        details: `Millésime "${value}" (${name}) non chargé. Millésimes disponibles: ${(await listAvailableMillesimes()).join(', ') || 'aucun'}`,
+      };
+    }
+    valeurs.push(millesime);
+  }
+
+  const millesimes = await resolveHistoryMillesimes(valeurs[0], valeurs[1]);
+  if (millesimes.length < 2) {
+    return {
+      success: false,
+      error: 'Période invalide',
+      code: 'INVALID_MILLESIME_RANGE',
+      details: `Au moins deux millésimes chargés sont nécessaires entre "depuis" et "jusqu_a" (chargés: ${(await listAvailableMillesimes()).join(', ') || 'aucun'})`,
+    };
+  }
+
+  return millesimes;
+}
+
+// Corps de réponse commun aux deux routes
+function historyResponse(query: Record<string, unknown>, result: HistoryResult) {
+  return {
+    success: true,
+    query,
+    millesimes: result.millesimes,
+    periodes: result.periodes,
+    nombre_titulaires: result.nombre_titulaires,
+    departements_exclus: result.departements_exclus,
+  };
+}
+
+export async function historyRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Historique des titulaires d'une parcelle entre millésimes MAJIC
+  fastify.get<{ Querystring: ParcelHistoryQuery }>(
+    '/history/parcel',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: ParcelHistoryQuery }>, reply: FastifyReply) => {
+      const { reference, departement, code_commune, prefixe, section, numero_plan } = request.query;
+
+      // Raccourci reference=75-056-000-AB-0123, sinon paramètres séparés (comme /search/parcel)
+      const parcelle = reference
+        ? parseReferenceComplete(reference)
+        : departement && code_commune && section && numero_plan
+        ? { departement, code_commune, prefixe: prefixe || undefined, section, numero_plan }
+        : null;
+
+      if (!parcelle) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Référence cadastrale invalide',
+          code: 'INVALID_REFERENCE',
+          details: 'Fournissez "reference" (ex: 75-056-000-AB-0123) ou departement, code_commune, section et numero_plan',
+        });
+      }
+
+      try {
+        const millesimes = await resolveHistoryRange(request.query);
+        if (!Array.isArray(millesimes)) {
+          return reply.code(400).send(millesimes);
+        }
+
+        const result = await getParcelHistory(parcelle, millesimes);
+        setResultCounts(request, result.nombre_titulaires, result.millesimes[result.millesimes.length - 1].nombre_lots);
+
+        return reply.send(historyResponse({
+          reference: reference || null,
+          ...parcelle,
+          prefixe: parcelle.prefixe ?? null,
+          depuis: millesimes[0],
+          jusqu_a: millesimes[millesimes.length - 1],
+        }, result));
+      } catch (error) {
+        console.error('Erreur historique parcelle:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Route: Historique des parcelles détenues par un SIREN entre millésimes MAJIC
+  fastify.get<{ Params: SirenHistoryParams; Querystring: SirenHistoryQuery }>(
+    '/history/siren/:siren',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Params: SirenHistoryParams; Querystring: SirenHistoryQuery }>, reply: FastifyReply) => {
+      const { siren } = request.params;
+      const { departement } = request.query;
+
+      if (!/^\d{9}$/.test(siren)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'SIREN invalide',
+          code: 'INVALID_SIREN',
+          details: 'Le SIREN doit contenir exactement 9 chiffres',
+        });
+      }
+
+      try {
+        const millesimes = await resolveHistoryRange(request.query);
+        if (!Array.isArray(millesimes)) {
+          return reply.code(400).send(millesimes);
+        }
+
+        const result = await getSirenHistory(siren, departement, millesimes);
+        setResultCounts(request, result.nombre_titulaires, result.millesimes[result.millesimes.length - 1].nombre_lots);
+
+        return reply.send(historyResponse({
+          siren,
+          departement: departement || null,
+          depuis: millesimes[0],
+          jusqu_a: millesimes[millesimes.length - 1],
+        }, result));
+      } catch (error) {
+        console.error('Erreur historique SIREN:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,391 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PassThrough } from 'stream';
+import { once } from 'events';
+import { createJob, getJob, getJobResults, countActiveJobs } from '../services/jobs.js';
+import { prepareSearchGeometry } from '../services/geo-search-postgis.js';
+import { parseMillesime, listAvailableMillesimes } from '../utils/table-resolver.js';
+import { authHook, hasScope, sendInsufficientScope, setResultCounts } from '../middleware/auth.js';
+import { parseSearchGeometry, resultatToFeatures } from '../utils/geojson.js';
+import { createExportWriter, EXPORT_CONTENT_TYPES } from '../utils/export.js';
+import { config } from '../config/index.js';
+import { ApiScope, ExportJob, JobSearchDefinition, JobSearchType } from '../types/index.js';
+
+// Types pour les requêtes
+interface CreateJobBody {
+  type: JobSearchType;
+  params: Record<string, any>;
+}
+
+interface JobParams {
+  id: string;
+}
+
+interface JobResultQuery {
+  format?: string;
+}
+
+// Scopes requis par type de recherche (les jobs geo parcourent toute la zone, comme le streaming)
+const JOB_SCOPES: Record<JobSearchType, ApiScope[]> = {
+  address: ['search:read'],
+  siren: ['search:read'],
+  owner: ['search:read'],
+  geo: ['search:geo', 'search:stream'],
+  radius: ['search:geo'],
+};
+
+const JOB_RESULT_FORMATS = ['json', 'ndjson', 'csv', 'xlsx', 'geojson'] as const;
+type JobResultFormat = typeof JOB_RESULT_FORMATS[number];
+
+// Propriétaires lus en base par lot lors du téléchargement
+const RESULT_READ_BATCH = 500;
+
+const JOB_NOT_FOUND_ERROR = {
+  success: false,
+  error: 'Job non trouvé',
+  code: 'JOB_NOT_FOUND',
+  details: 'Aucun job avec cet identifiant pour cette clé API (ou job expiré)',
+};
+
+// Réponse 400 pour une définition de job invalide
+interface JobDefinitionError {
+  success: false;
+  error: string;
+  code: string;
+  details: string;
+}
+
+function invalidJob(code: string, error: string, details: string): JobDefinitionError {
+  return { success: false, error, code, details };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function optionalLimit(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+// Vérifie la définition du job (mêmes règles que les routes de recherche) et n'en garde que les paramètres connus
+function parseJobDefinition(body: CreateJobBody): JobSearchDefinition | JobDefinitionError {
+  const p = body.params && typeof body.params === 'object' ? body.params : {};
+
+  switch (body.type) {
+    case 'address':
+      if (typeof p.adresse !== 'string' || p.adresse.trim().length < 3) {
+        return invalidJob('MISSING_ADDRESS', 'Paramètre adresse requis', 'params.adresse doit contenir au moins 3 caractères');
+      }
+      return {
+        type: 'address',
+        params: { adresse: p.adresse, departement: optionalString(p.departement), code_postal: optionalString(p.code_postal) },
+      };
+
+    case 'siren':
+      if (typeof p.siren !== 'string' || !/^\d{9}$/.test(p.siren)) {
+        return invalidJob('INVALID_SIREN', 'SIREN invalide', 'params.siren doit contenir exactement 9 chiffres');
+      }
+      return { type: 'siren', params: { siren: p.siren, departement: optionalString(p.departement) } };
+
+    case 'owner':
+      if (typeof p.denomination !== 'string' || p.denomination.trim().length < 2) {
+        return invalidJob('MISSING_DENOMINATION', 'Paramètre denomination requis', 'params.denomination doit contenir au moins 2 caractères');
+      }
+      return { type: 'owner', params: { denomination: p.denomination, departement: optionalString(p.departement) } };
+
+    case 'radius':
+      if (typeof p.longitude !== 'number' || typeof p.latitude !== 'number') {
+        return invalidJob('INVALID_COORDINATES', 'Coordonnées invalides', 'params.longitude et params.latitude doivent être des nombres');
+      }
+      if (typeof p.radius_meters !== 'number' || p.radius_meters <= 0 || p.radius_meters > 50000) {
+        return invalidJob('INVALID_RADIUS', 'Rayon invalide', 'params.radius_meters doit être un nombre entre 1 et 50000 mètres');
+      }
+      return {
+        type: 'radius',
+        params: { longitude: p.longitude, latitude: p.latitude, radius_meters: p.radius_meters, limit: optionalLimit(p.limit) },
+      };
+
+    case 'geo':
+      // Géométrie vérifiée ensuite par parseSearchGeometry puis PostGIS
+      return {
+        type: 'geo',
+        params: { polygon: p.polygon, geometry: p.geometry, repair: p.repair === true, limit: optionalLimit(p.limit) },
+      };
+
+    default:
+      return invalidJob(
+        'INVALID_JOB_TYPE',
+        'Type de job invalide',
+        `Le champ "type" doit valoir ${Object.keys(JOB_SCOPES).map(t => `"${t}"`).join(', ')}`
+      );
+  }
+}
+
+// Job visible par la clé appelante (la master key voit tous les jobs)
+async function findOwnedJob(request: FastifyRequest, id: string): Promise<ExportJob | null> {
+  const job = await getJob(id);
+  if (!job) return null;
+  const apiKey = request.apiKey!;
+  return apiKey.id === 0 || job.api_key_id === apiKey.id ? job : null;
+}
+
+// Représentation publique d'un job
+function formatJob(job: ExportJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    params: job.params,
+    status: job.status,
+    progress: {
+      traites: job.progress,
+      total: job.total,
+      pourcentage: job.total ? Math.min(100, Math.round((job.progress / job.total) * 100)) : null,
+    },
+    total_proprietaires: job.total_proprietaires,
+    total_lots: job.total_lots,
+    error: job.error,
+    attempts: job.attempts,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+    expires_at: job.expires_at,
+    result_url: job.status === 'completed' ? `/jobs/${job.id}/result` : null,
+  };
+}
+
+// Écrit les résultats du job dans le flux, lot par lot (respecte la contre-pression du client)
+async function writeJobResults(job: ExportJob, format: JobResultFormat, output: PassThrough): Promise<void> {
+  const exportWriter = format === 'csv' || format === 'xlsx' ? createExportWriter(format, output) : null;
+
+  if (format === 'json') {
+    output.write(`{"success":true,"job":${JSON.stringify(formatJob(job))},"resultats":[`);
+  } else if (format === 'geojson') {
+    output.write('{"type":"FeatureCollection","features":[');
+  }
+
+  let afterSeq = 0;
+  let first = true;
+
+  while (!output.destroyed) {
+    const rows = await getJobResults(job.id, afterSeq, RESULT_READ_BATCH);
+    if (rows.length === 0) break;
+
+    for (const { seq, data } of rows) {
+      afterSeq = seq;
+
+      if (exportWriter) {
+        await exportWriter.write(data);
+      } else if (format === 'ndjson') {
+        output.write(JSON.stringify(data) + '\n');
+      } else if (format === 'json') {
+        output.write((first ? '' : ',') + JSON.stringify(data));
+        first = false;
+      } else {
+        for (const feature of resultatToFeatures(data)) {
+          output.write((first ? '' : ',') + JSON.stringify(feature));
+          first = false;
+        }
+      }
+    }
+
+    if (output.writableNeedDrain) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+  }
+
+  if (exportWriter) {
+    await exportWriter.end();
+    return;
+  }
+
+  if (format === 'json') {
+    output.write(']}');
+  } else if (format === 'geojson') {
+    output.write(`],"job_id":${JSON.stringify(job.id)},"total_proprietaires":${job.total_proprietaires}}`);
+  }
+  output.end();
+}
+
+export async function jobRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Créer un job d'export (la recherche s'exécute en arrière-plan)
+  fastify.post<{ Body: CreateJobBody }>(
+    '/jobs',
+    { ...authHook },
+    async (request: FastifyRequest<{ Body: CreateJobBody }>, reply: FastifyReply) => {
+      const definition = parseJobDefinition(request.body || ({} as CreateJobBody));
+      if ('code' in definition) {
+        return reply.code(400).send(definition);
+      }
+
+      const missingScope = JOB_SCOPES[definition.type].find(scope => !hasScope(request, scope));
+      if (missingScope) {
+        return sendInsufficientScope(reply, missingScope);
+      }
+
+      // Jobs geo: la géométrie est vérifiée (et éventuellement réparée) dès la création
+      const searchGeometry = definition.type === 'geo'
+        ? parseSearchGeometry(definition.params.polygon, definition.params.geometry)
+        : null;
+      if (searchGeometry && 'code' in searchGeometry) {
+        return reply.code(400).send({ success: false, ...searchGeometry });
+      }
+
+      const apiKey = request.apiKey!;
+
+      try {
+        if (await countActiveJobs(apiKey.id) >= config.jobs.maxActivePerKey) {
+          return reply.code(429).send({
+            success: false,
+            error: 'Trop de jobs en cours',
+            code: 'TOO_MANY_JOBS',
+            details: `Maximum ${config.jobs.maxActivePerKey} jobs en attente ou en cours par clé API`,
+          });
+        }
+
+        let geometryWkt: string | undefined;
+        if (definition.type === 'geo' && searchGeometry) {
+          const prepared = await prepareSearchGeometry(searchGeometry, definition.params.repair === true);
+          if (!prepared.valid) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Géométrie invalide',
+              code: 'INVALID_GEOMETRY',
+              details: `${prepared.reason} (utilisez "repair": true pour la corriger automatiquement)`,
+            });
+          }
+          geometryWkt = prepared.wkt;
+        }
+
+        // Jobs siren et owner: millésime MAJIC vérifié dès la création (millésime par défaut si absent)
+        const millesime = request.body?.params?.millesime;
+        if ((definition.type === 'siren' || definition.type === 'owner') && millesime !== undefined) {
+          const parsed = await parseMillesime(String(millesime));
+          if (!parsed) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Millésime invalide',
+              code: 'INVALID_MILLESIME',
+              details: `Millésime "${millesime}" non chargé. Millésimes disponibles: ${(await listAvailableMillesimes()).join(', ') || 'aucun'}`,
+            });
+          }
+          definition.params.millesime = parsed;
+        }
+
+        const job = await createJob(apiKey.id, definition, geometryWkt);
+        console.log(`[jobs] Job ${job.id} créé (${job.type}) par la clé ${apiKey.key_prefix}`);
+
+        return reply.code(202).send({
+          success: true,
+          job: formatJob(job),
+          status_url: `/jobs/${job.id}`,
+        });
+      } catch (error) {
+        console.error('Erreur création job:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Route: Statut et progression d'un job
+  fastify.get<{ Params: JobParams }>(
+    '/jobs/:id',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: JobParams }>, reply: FastifyReply) => {
+      try {
+        const job = await findOwnedJob(request, request.params.id);
+        if (!job) {
+          return reply.code(404).send(JOB_NOT_FOUND_ERROR);
+        }
+
+        return reply.send({ success: true, job: formatJob(job) });
+      } catch (error) {
+        console.error('Erreur statut job:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Route: Télécharger le résultat d'un job terminé (JSON, NDJSON, CSV, XLSX ou GeoJSON)
+  fastify.get<{ Params: JobParams; Querystring: JobResultQuery }>(
+    '/jobs/:id/result',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: JobParams; Querystring: JobResultQuery }>, reply: FastifyReply) => {
+      const format = (request.query.format || 'json') as JobResultFormat;
+
+      if (!JOB_RESULT_FORMATS.includes(format)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Format invalide',
+          code: 'INVALID_FORMAT',
+          details: `Le paramètre "format" doit valoir ${JOB_RESULT_FORMATS.map(f => `"${f}"`).join(', ')}`,
+        });
+      }
+
+      let job: ExportJob | null;
+      try {
+        job = await findOwnedJob(request, request.params.id);
+      } catch (error) {
+        console.error('Erreur résultat job:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+
+      if (!job) {
+        return reply.code(404).send(JOB_NOT_FOUND_ERROR);
+      }
+
+      if (job.status === 'failed') {
+        return reply.code(409).send({
+          success: false,
+          error: 'Job en échec',
+          code: 'JOB_FAILED',
+          details: job.error || 'Erreur inconnue',
+        });
+      }
+
+      if (job.status !== 'completed') {
+        return reply.code(409).send({
+          success: false,
+          error: 'Résultat pas encore disponible',
+          code: 'JOB_NOT_READY',
+          details: `Job ${job.status} (${job.progress} propriétaires traités), consultez GET /jobs/${job.id}`,
+        });
+      }
+
+      setResultCounts(request, job.total_proprietaires, job.total_lots);
+
+      const contentTypes: Record<JobResultFormat, string> = {
+        json: 'application/json; charset=utf-8',
+        ndjson: 'application/x-ndjson',
+        geojson: 'application/geo+json',
+        ...EXPORT_CONTENT_TYPES,
+      };
+
+      const output = new PassThrough();
+      reply
+        .type(contentTypes[format])
+        .header('Content-Disposition', `attachment; filename="job-${job.id}.${format}"`)
+        .send(output);
+
+      writeJobResults(job, format, output).catch(error => {
+        console.error(`Erreur téléchargement job ${job.id}:`, error);
+        output.destroy(error instanceof Error ? error : new Error(String(error)));
+      });
+
+      return reply;
+    }
+  );
+}
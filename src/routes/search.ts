@@ -1,7 +1,16 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { searchBySiren, searchByDenomination } from '../services/search.js';
-import { searchByPolygon, searchByPolygonStreaming, getGeoStats, searchByRadius, searchByAddressPostgis, ProprietaireResult } from '../services/geo-search-postgis.js';
-import { authHook } from '../middleware/auth.js';
+import { PassThrough } from 'stream';
+import axios from 'axios';
+import { searchBySiren, searchByGroup, searchByDirigeant, searchByDenomination, searchByReference, parseReferenceComplete } from '../services/search.js';
+import { searchByPolygon, searchByPolygonStreaming, getGeoStats, getGeoCoverage, getAreaGeocodingStats, GeoCoverageGroupBy, searchByRadius, searchByAddressPostgis, searchNearest, prepareSearchGeometry, ProprietaireResult } from '../services/geo-search-postgis.js';
+import { requireScope, hasScope, sendInsufficientScope, setResultCounts } from '../middleware/auth.js';
+import { decodeCursor } from '../utils/cursor.js';
+import { parseSearchGeometry, countGeometryPoints, toFeatureCollection } from '../utils/geojson.js';
+import { createExportWriter, EXPORT_CONTENT_TYPES, ExportAbortedError, ExportFormat, ExportWriter } from '../utils/export.js';
+import { ResultatProprietaire } from '../types/index.js';
+import { MAX_DEPTH } from '../services/entreprises-api.js';
+import { getSirenLotsByDepartment } from '../services/siren-index.js';
+import { getDefaultMillesime, listAvailableMillesimes, parseMillesime } from '../utils/table-resolver.js';
 
 // BUILD v2.4.0 - 2025-12-05 - Unlimited enrichment for streaming mode
 
@@ -11,23 +20,192 @@ interface SearchByAddressQuery {
   departement?: string;
   code_postal?: string;
   limit?: number;
+  cursor?: string;
+  format?: string;
 }
 
 interface SearchBySirenQuery {
   siren: string;
   departement?: string;
+  millesime?: string;
+  format?: string;
+}
+
+interface SirenSummaryQuery {
+  siren: string;
+  millesime?: string;
+}
+
+interface SearchByGroupQuery {
+  siren: string;
+  departement?: string;
+  max_depth?: number;
+  millesime?: string;
+  format?: string;
+}
+
+interface SearchByDirigeantQuery {
+  nom: string;
+  prenoms?: string;
+  annee_naissance?: string;
+  departement?: string;
+  millesime?: string;
+  format?: string;
 }
 
 interface SearchByDenominationQuery {
   denomination: string;
   departement?: string;
   limit?: number;
+  cursor?: string;
+  millesime?: string;
+  format?: string;
+}
+
+interface SearchByParcelQuery {
+  reference?: string;
+  departement?: string;
+  code_commune?: string;
+  prefixe?: string;
+  section?: string;
+  numero_plan?: string;
+  millesime?: string;
 }
 
 interface SearchByPolygonBody {
-  polygon: number[][];
+  polygon?: number[][]; // Anneau simple [[lng, lat], ...]
+  geometry?: unknown; // GeoJSON Polygon/MultiPolygon (Geometry ou Feature)
+  repair?: boolean; // Réparer une géométrie invalide (ST_MakeValid)
   limit?: number;
   stream?: boolean;
+  cursor?: string; // Mode non-streaming uniquement
+  format?: string; // geojson: mode non-streaming uniquement
+}
+
+// Paramètre de format des routes POST (également accepté dans le corps)
+interface OutputFormatQuery {
+  format?: string;
+}
+
+// Réponse 400 pour un curseur de pagination illisible
+const INVALID_CURSOR_ERROR = {
+  success: false,
+  error: 'Curseur invalide',
+  code: 'INVALID_CURSOR',
+  details: 'Utilisez la valeur next_cursor retournée par la page précédente',
+};
+
+function isInvalidCursor(cursor?: string): boolean {
+  return cursor !== undefined && decodeCursor(cursor) === null;
+}
+
+// Millésime MAJIC des recherches sur les tables départementales: paramètre millesime, sinon millésime par défaut
+// (null si le millésime demandé n'est pas chargé, undefined si aucune table MAJIC n'est chargée)
+async function resolveMillesimeParam(millesime?: string): Promise<number | null | undefined> {
+  if (millesime === undefined) return (await getDefaultMillesime()) ?? undefined;
+  return await parseMillesime(millesime);
+}
+
+// Réponse 400 pour un millésime absent de la base
+async function invalidMillesimeError(millesime: string) {
+  const millesimes = await listAvailableMillesimes();
+  return {
+    success: false,
+    error: 'Millésime invalide',
+    code: 'INVALID_MILLESIME',
+    details: `Millésime "${millesime}" non chargé. Millésimes disponibles: ${millesimes.join(', ') || 'aucun'}`,
+  };
+}
+
+const GEOJSON_MEDIA_TYPE = 'application/geo+json';
+
+type OutputFormat = 'json' | 'geojson' | ExportFormat;
+
+// Formats disponibles selon la route (geojson: recherches géocodées uniquement)
+const GEO_OUTPUT_FORMATS: OutputFormat[] = ['json', 'geojson', 'csv', 'xlsx'];
+const TABLE_OUTPUT_FORMATS: OutputFormat[] = ['json', 'csv', 'xlsx'];
+
+// Liens de contrôle suivis par défaut depuis la société racine (/search/group)
+const DEFAULT_GROUP_DEPTH = 3;
+
+// Types MIME reconnus dans le header Accept
+const ACCEPT_FORMATS: Array<[string, OutputFormat]> = [
+  [GEOJSON_MEDIA_TYPE, 'geojson'],
+  ['text/csv', 'csv'],
+  [EXPORT_CONTENT_TYPES.xlsx, 'xlsx'],
+];
+
+// Réponse 400 pour un format de sortie non disponible sur la route
+function invalidFormatError(formats: OutputFormat[], details?: string) {
+  return {
+    success: false,
+    error: 'Format invalide',
+    code: 'INVALID_FORMAT',
+    details: details || `Le paramètre "format" doit valoir ${formats.map(f => `"${f}"`).join(', ')}`,
+  };
+}
+
+// Format de sortie: paramètre format, sinon header Accept (null si le format n'est pas disponible)
+function resolveOutputFormat(request: FastifyRequest, format: string | undefined, formats: OutputFormat[]): OutputFormat | null {
+  if (format !== undefined) {
+    return formats.includes(format as OutputFormat) ? format as OutputFormat : null;
+  }
+  const accept = request.headers.accept || '';
+  const match = ACCEPT_FORMATS.find(([mediaType, f]) => formats.includes(f) && accept.includes(mediaType));
+  return match ? match[1] : 'json';
+}
+
+function isExportFormat(format: OutputFormat): format is ExportFormat {
+  return format === 'csv' || format === 'xlsx';
+}
+
+// Démarre un export CSV/XLSX en pièce jointe, écrit au fil de l'eau dans la réponse
+function startExport(
+  reply: FastifyReply,
+  format: ExportFormat,
+  filename: string,
+  nextCursor?: string | null
+): { writer: ExportWriter; abort: (error: unknown) => void } {
+  const output = new PassThrough();
+
+  if (nextCursor) {
+    reply.header('X-Next-Cursor', nextCursor);
+  }
+  reply
+    .type(EXPORT_CONTENT_TYPES[format])
+    .header('Content-Disposition', `attachment; filename="${filename}.${format}"`)
+    .send(output);
+
+  return {
+    writer: createExportWriter(format, output),
+    // Les en-têtes sont envoyés: une erreur ne peut qu'interrompre le fichier
+    abort: (error: unknown) => {
+      if (error instanceof ExportAbortedError) {
+        console.log('[export] Client déconnecté: export interrompu');
+        return;
+      }
+      console.error('Erreur export:', error);
+      output.destroy(error instanceof Error ? error : new Error(String(error)));
+    },
+  };
+}
+
+// Envoie des résultats déjà calculés en CSV/XLSX (une ligne par référence cadastrale)
+function sendExport(
+  reply: FastifyReply,
+  format: ExportFormat,
+  filename: string,
+  resultats: ResultatProprietaire[],
+  nextCursor?: string | null
+): FastifyReply {
+  const { writer, abort } = startExport(reply, format, filename, nextCursor);
+  (async () => {
+    for (const resultat of resultats) {
+      await writer.write(resultat);
+    }
+    await writer.end();
+  })().catch(abort);
+  return reply;
 }
 
 interface SearchByRadiusBody {
@@ -35,15 +213,42 @@ interface SearchByRadiusBody {
   latitude: number;
   radius_meters: number;
   limit?: number;
+  format?: string;
+}
+
+interface SearchReverseQuery {
+  lat: string;
+  lon: string;
+  limit?: string;
+}
+
+interface GeoStatsQuery {
+  group_by?: string;
+  departement?: string;
+}
+
+const GEO_STATS_GROUP_BY: GeoCoverageGroupBy[] = ['departement', 'commune'];
+
+// Couverture du géocodage des communes touchées par la zone (null si indisponible)
+// Coût comparable à la recherche elle-même: calculée une fois par recherche (première page, résumé du streaming)
+async function zoneGeocodingStats(wkt: string): Promise<{
+  geocoding_coverage: string | null;
+  geocoding_precision: Record<string, number> | null;
+}> {
+  const coverage = await getAreaGeocodingStats(wkt);
+  return {
+    geocoding_coverage: coverage && coverage.total_lots > 0 ? `${coverage.pourcentage_geocode.toFixed(2)}%` : null,
+    geocoding_precision: coverage ? coverage.par_precision : null,
+  };
 }
 
 export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
   // Route: Recherche par adresse - UTILISE MAINTENANT proprietaires_geo via searchByAddressPostgis
   fastify.get<{ Querystring: SearchByAddressQuery }>(
     '/search/address',
-    { ...authHook },
+    { ...requireScope('search:read') },
     async (request: FastifyRequest<{ Querystring: SearchByAddressQuery }>, reply: FastifyReply) => {
-      const { adresse, departement, code_postal, limit } = request.query;
+      const { adresse, departement, code_postal, limit, cursor, format } = request.query;
 
       if (!adresse || adresse.trim().length < 3) {
         return reply.code(400).send({
@@ -54,9 +259,29 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      if (isInvalidCursor(cursor)) {
+        return reply.code(400).send(INVALID_CURSOR_ERROR);
+      }
+
+      const outputFormat = resolveOutputFormat(request, format, GEO_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(GEO_OUTPUT_FORMATS));
+      }
+
       try {
         // FIX: Utilise searchByAddressPostgis qui cherche dans proprietaires_geo (22M+ géocodés)
-        const { resultats, total_proprietaires, total_lots, debug } = await searchByAddressPostgis(adresse, departement, limit, code_postal);
+        const { resultats, total_proprietaires, total_lots, next_cursor, debug } = await searchByAddressPostgis(adresse, departement, limit, code_postal, cursor);
+        setResultCounts(request, total_proprietaires, total_lots);
+
+        if (outputFormat === 'geojson') {
+          return reply.type(GEOJSON_MEDIA_TYPE).send(
+            toFeatureCollection(resultats, { total_proprietaires, total_lots, next_cursor })
+          );
+        }
+
+        if (isExportFormat(outputFormat)) {
+          return sendExport(reply, outputFormat, 'proprietaires-adresse', resultats, next_cursor);
+        }
 
         return reply.send({
           success: true,
@@ -64,6 +289,7 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
             adresse,
             departement: departement || null,
             code_postal: code_postal || null,
+            cursor: cursor || null,
           },
           resultats: resultats.map(r => ({
             proprietaire: r.proprietaire,
@@ -74,6 +300,7 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
           })),
           total_proprietaires,
           total_lots,
+          next_cursor,
           debug,
         });
       } catch (error) {
@@ -91,9 +318,9 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
   // Route: Recherche par SIREN
   fastify.get<{ Querystring: SearchBySirenQuery }>(
     '/search/siren',
-    { ...authHook },
+    { ...requireScope('search:read') },
     async (request: FastifyRequest<{ Querystring: SearchBySirenQuery }>, reply: FastifyReply) => {
-      const { siren, departement } = request.query;
+      const { siren, departement, millesime, format } = request.query;
 
       if (!siren || siren.length !== 9) {
         return reply.code(400).send({
@@ -104,14 +331,33 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const outputFormat = resolveOutputFormat(request, format, TABLE_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(TABLE_OUTPUT_FORMATS));
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
       try {
-        const result = await searchBySiren(siren, departement);
+        const result = await searchBySiren(siren, departement, effectiveMillesime);
+        setResultCounts(request, result.proprietaire ? 1 : 0, result.nombre_lots);
+
+        if (isExportFormat(outputFormat)) {
+          const resultats = result.proprietaire
+            ? [{ proprietaire: result.proprietaire, entreprise: result.entreprise, proprietes: result.proprietes }]
+            : [];
+          return sendExport(reply, outputFormat, `proprietaires-siren-${siren}`, resultats);
+        }
 
         return reply.send({
           success: true,
           query: {
             siren,
             departement: departement || null,
+            millesime: effectiveMillesime ?? null,
           },
           proprietaire: result.proprietaire,
           entreprise: result.entreprise,
@@ -119,6 +365,8 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
           nombre_adresses: result.nombre_adresses,
           nombre_lots: result.nombre_lots,
           departements_concernes: result.departements_concernes,
+          timing: result.timing,
+          via_siren_index: result.via_siren_index,
         });
       } catch (error) {
         console.error('Erreur recherche par SIREN:', error);
@@ -132,12 +380,234 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  // Route: Nombre de lots d'un SIREN par département (index siren_index, sans lire les lots)
+  fastify.get<{ Querystring: SirenSummaryQuery }>(
+    '/search/siren/summary',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: SirenSummaryQuery }>, reply: FastifyReply) => {
+      const { siren, millesime } = request.query;
+
+      if (!siren || !/^\d{9}$/.test(siren)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'SIREN invalide',
+          code: 'INVALID_SIREN',
+          details: 'Le SIREN doit contenir exactement 9 chiffres',
+        });
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
+      try {
+        const summary = await getSirenLotsByDepartment(siren, effectiveMillesime);
+
+        if (!summary) {
+          return reply.code(503).send({
+            success: false,
+            error: 'Index SIREN non construit',
+            code: 'SIREN_INDEX_UNAVAILABLE',
+            details: 'L\'index siren_index n\'a pas encore été construit (POST /admin/siren-index/rebuild), utilisez /search/siren',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          query: { siren, millesime: effectiveMillesime ?? null },
+          nombre_lots: summary.nombre_lots,
+          departements: summary.departements,
+          indexed_at: summary.indexed_at,
+          tables_non_indexees: summary.tables_non_indexees,
+        });
+      } catch (error) {
+        console.error('Erreur résumé SIREN:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
+  // Route: Portefeuille d'un groupe (sociétés reliées au SIREN par la chaîne de contrôle)
+  fastify.get<{ Querystring: SearchByGroupQuery }>(
+    '/search/group',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: SearchByGroupQuery }>, reply: FastifyReply) => {
+      const { siren, departement, max_depth, millesime, format } = request.query;
+
+      if (!siren || !/^\d{9}$/.test(siren)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'SIREN invalide',
+          code: 'INVALID_SIREN',
+          details: 'Le SIREN doit contenir exactement 9 chiffres',
+        });
+      }
+
+      const maxDepth = max_depth !== undefined ? Number(max_depth) : DEFAULT_GROUP_DEPTH;
+      if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_DEPTH) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Profondeur invalide',
+          code: 'INVALID_DEPTH',
+          details: `Le paramètre "max_depth" doit être un entier entre 1 et ${MAX_DEPTH}`,
+        });
+      }
+
+      const outputFormat = resolveOutputFormat(request, format, TABLE_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(TABLE_OUTPUT_FORMATS));
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
+      let result: Awaited<ReturnType<typeof searchByGroup>>;
+      try {
+        result = await searchByGroup(siren, departement, maxDepth, effectiveMillesime);
+      } catch (error) {
+        console.error('Erreur recherche par groupe:', error);
+        if (!axios.isAxiosError(error)) {
+          return reply.code(500).send({
+            success: false,
+            error: 'Erreur interne du serveur',
+            code: 'INTERNAL_ERROR',
+            details: error instanceof Error ? error.message : 'Erreur inconnue',
+          });
+        }
+        return reply.code(502).send({
+          success: false,
+          error: 'API Recherche Entreprises indisponible',
+          code: 'ENRICHMENT_UNAVAILABLE',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+
+      if (!result) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Entreprise introuvable',
+          code: 'ENTREPRISE_NOT_FOUND',
+          details: `Aucune entreprise avec le SIREN ${siren} dans l'API Recherche Entreprises`,
+        });
+      }
+
+      const detenteurs = result.entites.filter(e => e.proprietaire);
+      setResultCounts(request, detenteurs.length, result.nombre_lots);
+
+      if (isExportFormat(outputFormat)) {
+        const resultats = detenteurs.map(e => ({
+          proprietaire: e.proprietaire!,
+          proprietes: result.proprietes.filter(p => p.detenteur.siren === e.siren),
+        }));
+        return sendExport(reply, outputFormat, `proprietaires-groupe-${siren}`, resultats);
+      }
+
+      return reply.send({
+        success: true,
+        query: {
+          siren,
+          departement: departement || null,
+          max_depth: maxDepth,
+          millesime: effectiveMillesime ?? null,
+        },
+        entites: result.entites,
+        proprietes: result.proprietes,
+        nombre_entites: result.entites.length,
+        nombre_detenteurs: detenteurs.length,
+        nombre_adresses: result.nombre_adresses,
+        nombre_lots: result.nombre_lots,
+        departements_concernes: result.departements_concernes,
+        truncated: result.truncated,
+      });
+    }
+  );
+
+  // Route: Recherche par dirigeant ou bénéficiaire effectif (index des fiches enrichies)
+  fastify.get<{ Querystring: SearchByDirigeantQuery }>(
+    '/search/dirigeant',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: SearchByDirigeantQuery }>, reply: FastifyReply) => {
+      const { nom, prenoms, annee_naissance, departement, millesime, format } = request.query;
+
+      if (!nom || nom.trim().length < 2) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Paramètre nom requis',
+          code: 'MISSING_NOM',
+          details: 'Le paramètre "nom" doit contenir au moins 2 caractères',
+        });
+      }
+
+      if (annee_naissance !== undefined && !/^\d{4}$/.test(annee_naissance)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Année de naissance invalide',
+          code: 'INVALID_ANNEE_NAISSANCE',
+          details: 'Le paramètre "annee_naissance" doit contenir 4 chiffres',
+        });
+      }
+
+      const outputFormat = resolveOutputFormat(request, format, TABLE_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(TABLE_OUTPUT_FORMATS));
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
+      try {
+        const result = await searchByDirigeant(nom, prenoms, annee_naissance, departement, effectiveMillesime);
+        const detenteurs = result.resultats.filter(r => r.proprietaire);
+        setResultCounts(request, detenteurs.length, result.total_lots);
+
+        if (isExportFormat(outputFormat)) {
+          const resultats = detenteurs.map(r => ({ proprietaire: r.proprietaire!, proprietes: r.proprietes }));
+          return sendExport(reply, outputFormat, 'proprietaires-dirigeant', resultats);
+        }
+
+        return reply.send({
+          success: true,
+          query: {
+            nom,
+            prenoms: prenoms || null,
+            annee_naissance: annee_naissance || null,
+            departement: departement || null,
+            millesime: effectiveMillesime ?? null,
+          },
+          resultats: result.resultats,
+          total_entreprises: result.total_entreprises,
+          total_proprietaires: detenteurs.length,
+          total_lots: result.total_lots,
+          truncated: result.truncated,
+        });
+      } catch (error) {
+        console.error('Erreur recherche par dirigeant:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
   // Route: Recherche par dénomination (nom du propriétaire)
   fastify.get<{ Querystring: SearchByDenominationQuery }>(
     '/search/owner',
-    { ...authHook },
+    { ...requireScope('search:read') },
     async (request: FastifyRequest<{ Querystring: SearchByDenominationQuery }>, reply: FastifyReply) => {
-      const { denomination, departement, limit } = request.query;
+      const { denomination, departement, limit, cursor, millesime, format } = request.query;
 
       if (!denomination || denomination.trim().length < 2) {
         return reply.code(400).send({
@@ -148,14 +618,35 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      if (isInvalidCursor(cursor)) {
+        return reply.code(400).send(INVALID_CURSOR_ERROR);
+      }
+
+      const outputFormat = resolveOutputFormat(request, format, TABLE_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(TABLE_OUTPUT_FORMATS));
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
       try {
-        const { resultats, total_proprietaires, total_lots } = await searchByDenomination(denomination, departement, limit);
+        const { resultats, total_proprietaires, total_lots, next_cursor, timing } = await searchByDenomination(denomination, departement, limit, cursor, effectiveMillesime);
+        setResultCounts(request, total_proprietaires, total_lots);
+
+        if (isExportFormat(outputFormat)) {
+          return sendExport(reply, outputFormat, 'proprietaires-denomination', resultats, next_cursor);
+        }
 
         return reply.send({
           success: true,
           query: {
             denomination,
             departement: departement || null,
+            millesime: effectiveMillesime ?? null,
+            cursor: cursor || null,
           },
           resultats: resultats.map(r => ({
             proprietaire: r.proprietaire,
@@ -167,6 +658,8 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
           })),
           total_proprietaires,
           total_lots,
+          next_cursor,
+          timing,
         });
       } catch (error) {
         console.error('Erreur recherche par dénomination:', error);
@@ -180,54 +673,144 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  // Route: Recherche par référence cadastrale (section + numéro de plan)
+  fastify.get<{ Querystring: SearchByParcelQuery }>(
+    '/search/parcel',
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: SearchByParcelQuery }>, reply: FastifyReply) => {
+      const { reference, departement, code_commune, prefixe, section, numero_plan, millesime } = request.query;
+
+      // Raccourci reference=75-056-000-AB-0123, sinon paramètres séparés
+      const parcelle = reference
+        ? parseReferenceComplete(reference)
+        : departement && code_commune && section && numero_plan
+        ? { departement, code_commune, prefixe: prefixe || undefined, section, numero_plan }
+        : null;
+
+      if (!parcelle) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Référence cadastrale invalide',
+          code: 'INVALID_REFERENCE',
+          details: 'Fournissez "reference" (ex: 75-056-000-AB-0123) ou departement, code_commune, section et numero_plan',
+        });
+      }
+
+      const effectiveMillesime = await resolveMillesimeParam(millesime);
+      if (effectiveMillesime === null) {
+        return reply.code(400).send(await invalidMillesimeError(millesime!));
+      }
+
+      try {
+        const result = await searchByReference(parcelle, effectiveMillesime);
+        setResultCounts(request, result.total_titulaires, result.total_lots);
+
+        return reply.send({
+          success: true,
+          query: {
+            reference: reference || null,
+            ...parcelle,
+            prefixe: parcelle.prefixe ?? null,
+            millesime: effectiveMillesime ?? null,
+          },
+          references_cadastrales: result.references_cadastrales,
+          titulaires: result.titulaires,
+          total_titulaires: result.total_titulaires,
+          total_lots: result.total_lots,
+        });
+      } catch (error) {
+        console.error('Erreur recherche par référence cadastrale:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
   // Route: Recherche par zone géographique (polygone) - PostGIS native
   // Utilise NDJSON streaming PROGRESSIF pour éviter les timeouts sur les grandes zones
-  fastify.post<{ Body: SearchByPolygonBody }>(
+  fastify.post<{ Body: SearchByPolygonBody; Querystring: OutputFormatQuery }>(
     '/search/geo',
-    { ...authHook },
-    async (request: FastifyRequest<{ Body: SearchByPolygonBody }>, reply: FastifyReply) => {
+    { ...requireScope('search:geo') },
+    async (request: FastifyRequest<{ Body: SearchByPolygonBody; Querystring: OutputFormatQuery }>, reply: FastifyReply) => {
       // Set timeout on raw socket for long-running requests
       request.raw.setTimeout(600000); // 10 minutes max
       
-      const { polygon, limit, stream } = request.body;
+      const { polygon, geometry, repair, limit, stream, cursor } = request.body;
 
-      // Validation du polygone
-      if (!polygon || !Array.isArray(polygon) || polygon.length < 3) {
-        return reply.code(400).send({
-          success: false,
-          error: 'Polygone invalide',
-          code: 'INVALID_POLYGON',
-          details: 'Le polygone doit contenir au moins 3 points [[lng, lat], ...]',
-        });
+      const searchGeometry = parseSearchGeometry(polygon, geometry);
+      if ('code' in searchGeometry) {
+        return reply.code(400).send({ success: false, ...searchGeometry });
       }
 
-      // Vérifier que chaque point a 2 coordonnées
-      for (const point of polygon) {
-        if (!Array.isArray(point) || point.length !== 2 ||
-            typeof point[0] !== 'number' || typeof point[1] !== 'number') {
+      if (isInvalidCursor(cursor)) {
+        return reply.code(400).send(INVALID_CURSOR_ERROR);
+      }
+
+      const outputFormat = resolveOutputFormat(request, request.query.format ?? request.body.format, GEO_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(GEO_OUTPUT_FORMATS));
+      }
+
+      // Validité topologique (auto-intersections, trous hors de l'anneau extérieur...)
+      let geometryWkt: string;
+      let repaired = false;
+      try {
+        const prepared = await prepareSearchGeometry(searchGeometry, repair === true);
+        if (!prepared.valid) {
           return reply.code(400).send({
             success: false,
-            error: 'Format de coordonnées invalide',
-            code: 'INVALID_COORDINATES',
-            details: 'Chaque point doit être au format [longitude, latitude] (nombres)',
+            error: 'Géométrie invalide',
+            code: 'INVALID_GEOMETRY',
+            details: `${prepared.reason} (utilisez "repair": true pour la corriger automatiquement)`,
           });
         }
-      }
-
-      // Limiter la taille du polygone
-      if (polygon.length > 100) {
-        return reply.code(400).send({
+        geometryWkt = prepared.wkt;
+        repaired = prepared.repaired;
+      } catch (error) {
+        console.error('Erreur validation géométrie:', error);
+        return reply.code(500).send({
           success: false,
-          error: 'Polygone trop complexe',
-          code: 'POLYGON_TOO_COMPLEX',
-          details: 'Le polygone ne doit pas dépasser 100 points',
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
         });
       }
 
+      const geometryPoints = countGeometryPoints(searchGeometry);
+
       const effectiveLimit = limit || 10000;
 
       // Mode streaming PROGRESSIF NDJSON - envoie chaque résultat dès qu'il est enrichi
       if (stream) {
+        if (!hasScope(request, 'search:stream')) {
+          return sendInsufficientScope(reply, 'search:stream');
+        }
+
+        if (outputFormat === 'geojson') {
+          return reply.code(400).send(invalidFormatError(
+            GEO_OUTPUT_FORMATS,
+            'Le format "geojson" n\'est pas disponible en mode streaming'
+          ));
+        }
+
+        // Export CSV/XLSX de toute la zone: chaque propriétaire est écrit dès qu'il est enrichi
+        if (isExportFormat(outputFormat)) {
+          const { writer, abort } = startExport(reply, outputFormat, 'proprietaires-zone');
+
+          searchByPolygonStreaming(geometryWkt, effectiveLimit, (result: ProprietaireResult) => writer.write(result))
+            .then(stats => {
+              setResultCounts(request, stats.total_proprietaires, stats.total_lots);
+              return writer.end();
+            })
+            .catch(abort);
+
+          return reply;
+        }
+
         // Hijack the reply to get full control over the response
         reply.hijack();
         
@@ -300,7 +883,7 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
         try {
           // Utiliser la nouvelle fonction streaming qui envoie chaque résultat via callback
           const stats = await searchByPolygonStreaming(
-            polygon, 
+            geometryWkt,
             effectiveLimit,
             // Callback appelé pour CHAQUE propriétaire après enrichissement
             (result: ProprietaireResult, index: number, total: number) => {
@@ -326,6 +909,8 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
             }
           );
 
+          setResultCounts(request, stats.total_proprietaires, stats.total_lots);
+
           // Only send summary if client is still connected
           if (!clientClosed) {
             // Envoyer le résumé final
@@ -333,7 +918,9 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
               type: 'summary',
               success: true,
               query: {
-                polygon_points: polygon.length,
+                geometry_type: searchGeometry.type,
+                polygon_points: geometryPoints,
+                geometry_repaired: repaired,
                 limit: limit || 'illimité',
               },
               stats: {
@@ -342,7 +929,7 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
                 total_lots: stats.total_lots,
                 enriched_count: stats.enriched_count,
                 geocoding_method: 'postgis_native',
-                geocoding_coverage: '97.99%',
+                ...(await zoneGeocodingStats(geometryWkt)),
               },
               limites_appliquees: {
                 max_resultats: effectiveLimit,
@@ -383,21 +970,40 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
 
       // Mode standard (non-streaming)
       try {
-        const result = await searchByPolygon(polygon, effectiveLimit);
+        const result = await searchByPolygon(geometryWkt, effectiveLimit, cursor);
+        setResultCounts(request, result.total_proprietaires, result.total_lots);
+
+        if (outputFormat === 'geojson') {
+          return reply.type(GEOJSON_MEDIA_TYPE).send(toFeatureCollection(result.resultats, {
+            total_proprietaires: result.total_proprietaires,
+            total_dans_polygone: result.total_dans_polygone,
+            total_lots: result.total_lots,
+            next_cursor: result.next_cursor,
+          }));
+        }
+
+        if (isExportFormat(outputFormat)) {
+          return sendExport(reply, outputFormat, 'proprietaires-zone', result.resultats, result.next_cursor);
+        }
 
         return reply.send({
           success: true,
           query: {
-            polygon_points: polygon.length,
+            geometry_type: searchGeometry.type,
+            polygon_points: geometryPoints,
+            geometry_repaired: repaired,
             limit: limit || 'illimité',
+            cursor: cursor || null,
           },
           count: result.total_proprietaires,
           proprietaires: result.resultats,
           total_proprietaires: result.total_proprietaires,
+          total_dans_polygone: result.total_dans_polygone,
           total_lots: result.total_lots,
+          next_cursor: result.next_cursor,
           stats: {
             geocoding_method: 'postgis_native',
-            geocoding_coverage: '97.99%',
+            ...(cursor ? { geocoding_coverage: null, geocoding_precision: null } : await zoneGeocodingStats(geometryWkt)),
           },
           limites_appliquees: result.limites_appliquees,
           debug: result.debug,
@@ -415,10 +1021,10 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
   );
 
   // Route: Recherche par rayon (cercle autour d'un point)
-  fastify.post<{ Body: SearchByRadiusBody }>(
+  fastify.post<{ Body: SearchByRadiusBody; Querystring: OutputFormatQuery }>(
     '/search/geo/radius',
-    { ...authHook },
-    async (request: FastifyRequest<{ Body: SearchByRadiusBody }>, reply: FastifyReply) => {
+    { ...requireScope('search:geo') },
+    async (request: FastifyRequest<{ Body: SearchByRadiusBody; Querystring: OutputFormatQuery }>, reply: FastifyReply) => {
       const { longitude, latitude, radius_meters, limit } = request.body;
 
       // Validation
@@ -440,8 +1046,25 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const outputFormat = resolveOutputFormat(request, request.query.format ?? request.body.format, GEO_OUTPUT_FORMATS);
+      if (!outputFormat) {
+        return reply.code(400).send(invalidFormatError(GEO_OUTPUT_FORMATS));
+      }
+
       try {
         const result = await searchByRadius(longitude, latitude, radius_meters, limit || 1000);
+        setResultCounts(request, result.total_proprietaires, result.total_lots);
+
+        if (outputFormat === 'geojson') {
+          return reply.type(GEOJSON_MEDIA_TYPE).send(toFeatureCollection(result.resultats, {
+            total_proprietaires: result.total_proprietaires,
+            total_lots: result.total_lots,
+          }));
+        }
+
+        if (isExportFormat(outputFormat)) {
+          return sendExport(reply, outputFormat, 'proprietaires-rayon', result.resultats);
+        }
 
         return reply.send({
           success: true,
@@ -469,12 +1092,92 @@ export async function searchRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  // Route: Géocodage inverse (propriétaires les plus proches d'un point, sans rayon)
+  fastify.get<{ Querystring: SearchReverseQuery }>(
+    '/search/reverse',
+    { ...requireScope('search:geo') },
+    async (request: FastifyRequest<{ Querystring: SearchReverseQuery }>, reply: FastifyReply) => {
+      const latitude = parseFloat(request.query.lat);
+      const longitude = parseFloat(request.query.lon);
+      const limit = request.query.limit !== undefined ? parseInt(request.query.limit) : 10;
+
+      if (isNaN(latitude) || isNaN(longitude) ||
+          latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Coordonnées invalides',
+          code: 'INVALID_COORDINATES',
+          details: 'lat (-90 à 90) et lon (-180 à 180) doivent être des nombres',
+        });
+      }
+
+      if (isNaN(limit) || limit < 1 || limit > 100) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Limite invalide',
+          code: 'INVALID_LIMIT',
+          details: 'Le paramètre "limit" doit être un entier entre 1 et 100',
+        });
+      }
+
+      try {
+        const result = await searchNearest(longitude, latitude, limit);
+        setResultCounts(request, result.total, result.total);
+
+        return reply.send({
+          success: true,
+          query: {
+            latitude,
+            longitude,
+            limit,
+          },
+          count: result.total,
+          resultats: result.resultats,
+          limites_appliquees: result.limites_appliquees,
+        });
+      } catch (error) {
+        console.error('Erreur géocodage inverse:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+
   // Route: Statistiques de géocodage
-  fastify.get(
+  // ?group_by=departement|commune: couverture détaillée (departement= pour filtrer)
+  fastify.get<{ Querystring: GeoStatsQuery }>(
     '/search/geo/stats',
-    { ...authHook },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    { ...requireScope('search:read') },
+    async (request: FastifyRequest<{ Querystring: GeoStatsQuery }>, reply: FastifyReply) => {
+      const { group_by, departement } = request.query;
+
+      if (group_by !== undefined && !GEO_STATS_GROUP_BY.includes(group_by as GeoCoverageGroupBy)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Paramètre invalide',
+          code: 'INVALID_PARAMETER',
+          details: `"group_by" doit valoir: ${GEO_STATS_GROUP_BY.join(', ')}`,
+        });
+      }
+
       try {
+        if (group_by) {
+          const couverture = await getGeoCoverage(group_by as GeoCoverageGroupBy, departement);
+          return reply.send({
+            success: true,
+            query: {
+              group_by,
+              departement: departement || null,
+            },
+            count: couverture.length,
+            couverture,
+          });
+        }
+
         const stats = await getGeoStats();
 
         return reply.send({
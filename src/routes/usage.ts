@@ -0,0 +1,70 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getUsageReport } from '../services/usage.js';
+import { authHook } from '../middleware/auth.js';
+
+// Types pour les requêtes
+interface UsageQuery {
+  days?: number;
+}
+
+// Nombre de jours par défaut / maximum pour les agrégats quotidiens
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 366;
+
+// Valide le paramètre days (retourne null si invalide)
+export function parseUsageDays(days: unknown): number | null {
+  if (days === undefined || days === '') return DEFAULT_USAGE_DAYS;
+  const parsed = typeof days === 'number' ? days : parseInt(String(days));
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_USAGE_DAYS) return null;
+  return parsed;
+}
+
+export async function usageRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Usage de la clé appelante (agrégats quotidiens, mensuels et par route)
+  fastify.get<{ Querystring: UsageQuery }>(
+    '/usage',
+    { ...authHook },
+    async (request: FastifyRequest<{ Querystring: UsageQuery }>, reply: FastifyReply) => {
+      const days = parseUsageDays(request.query.days);
+
+      if (days === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Paramètre days invalide',
+          code: 'INVALID_DAYS',
+          details: `Le paramètre "days" doit être un entier entre 1 et ${MAX_USAGE_DAYS}`,
+        });
+      }
+
+      const apiKey = request.apiKey!;
+
+      try {
+        const report = await getUsageReport(apiKey.id, days);
+
+        return reply.send({
+          success: true,
+          api_key: {
+            id: apiKey.id,
+            name: apiKey.name,
+            key_prefix: apiKey.key_prefix,
+          },
+          quota: {
+            monthly_quota: apiKey.monthly_quota ?? null,
+            current_month_usage: apiKey.current_month_usage ?? null,
+            rate_limit: apiKey.rate_limit ?? null,
+          },
+          days,
+          ...report,
+        });
+      } catch (error) {
+        console.error('Erreur rapport d\'usage:', error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Erreur interne du serveur',
+          code: 'INTERNAL_ERROR',
+          details: error instanceof Error ? error.message : 'Erreur inconnue',
+        });
+      }
+    }
+  );
+}
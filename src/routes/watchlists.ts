@@ -0,0 +1,395 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  createWatchlist,
+  listWatchlists,
+  getWatchlist,
+  deactivateWatchlist,
+  listWatchlistItems,
+  countActiveItems,
+  addWatchlistItem,
+  deactivateWatchlistItem,
+  listWatchlistEvents,
+  WatchlistAreaTooLargeError,
+} from '../services/watchlists.js';
+import { parseReferenceComplete } from '../services/search.js';
+import { prepareSearchGeometry } from '../services/geo-search-postgis.js';
+import { authHook, hasScope, sendInsufficientScope } from '../middleware/auth.js';
+import { parseSearchGeometry } from '../utils/geojson.js';
+import { config } from '../config/index.js';
+import { ApiScope, WatchlistEventType, WatchlistItemType } from '../types/index.js';
+
+// Types pour les requêtes
+interface CreateWatchlistBody {
+  name: string;
+}
+
+interface WatchlistParams {
+  id: string;
+}
+
+interface WatchlistItemParams extends WatchlistParams {
+  itemId: string;
+}
+
+interface AddItemBody {
+  type: WatchlistItemType;
+  label?: string;
+  // siren
+  siren?: string;
+  departement?: string;
+  // parcel: reference=75-056-000-AB-0123, ou champs séparés
+  reference?: string;
+  code_commune?: string;
+  prefixe?: string;
+  section?: string;
+  numero_plan?: string;
+  // polygon
+  polygon?: unknown;
+  geometry?: unknown;
+  repair?: boolean;
+}
+
+interface EventsQuery {
+  since_id?: string;
+  limit?: number;
+  type?: string;
+  item_id?: string;
+}
+
+const DEFAULT_EVENTS_LIMIT = 100;
+const MAX_EVENTS_LIMIT = 1000;
+
+// Scopes requis par type d'élément (une zone est relevée dans proprietaires_geo, comme /search/geo)
+const ITEM_SCOPES: Record<WatchlistItemType, ApiScope> = {
+  siren: 'search:read',
+  parcel: 'search:read',
+  polygon: 'search:geo',
+};
+
+const WATCHLIST_EVENT_TYPES: WatchlistEventType[] = [
+  'nouveau_proprietaire',
+  'proprietaire_sorti',
+  'lot_ajoute',
+  'lot_retire',
+  'changement_droit',
+  'changement_denomination',
+  'entreprise_fermee',
+];
+
+const WATCHLIST_NOT_FOUND_ERROR = {
+  success: false,
+  error: 'Liste introuvable',
+  code: 'WATCHLIST_NOT_FOUND',
+  details: 'Aucune liste de surveillance avec cet identifiant pour cette clé API',
+};
+
+function internalError(reply: FastifyReply, error: unknown): FastifyReply {
+  return reply.code(500).send({
+    success: false,
+    error: 'Erreur interne du serveur',
+    code: 'INTERNAL_ERROR',
+    details: error instanceof Error ? error.message : 'Erreur inconnue',
+  });
+}
+
+export async function watchlistRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Créer une liste de surveillance
+  fastify.post<{ Body: CreateWatchlistBody }>(
+    '/watchlists',
+    { ...authHook },
+    async (request: FastifyRequest<{ Body: CreateWatchlistBody }>, reply: FastifyReply) => {
+      const name = typeof request.body?.name === 'string' ? request.body.name.trim() : '';
+
+      if (!name) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Nom manquant',
+          code: 'MISSING_PARAMETER',
+          details: 'Le champ "name" est requis',
+        });
+      }
+
+      const apiKey = request.apiKey!;
+
+      try {
+        const watchlist = await createWatchlist(apiKey.id, name);
+        console.log(`[watchlists] Liste ${watchlist.id} créée par la clé ${apiKey.key_prefix}`);
+        return reply.code(201).send({ success: true, watchlist });
+      } catch (error) {
+        console.error('Erreur création liste de surveillance:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Lister les listes de la clé
+  fastify.get(
+    '/watchlists',
+    { ...authHook },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const watchlists = await listWatchlists(request.apiKey!.id);
+        return reply.send({ success: true, watchlists });
+      } catch (error) {
+        console.error('Erreur liste des listes de surveillance:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Détail d'une liste et de ses éléments
+  fastify.get<{ Params: WatchlistParams }>(
+    '/watchlists/:id',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WatchlistParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+
+      try {
+        const watchlist = isNaN(id) ? null : await getWatchlist(id, request.apiKey!.id);
+        if (!watchlist) {
+          return reply.code(404).send(WATCHLIST_NOT_FOUND_ERROR);
+        }
+
+        const items = await listWatchlistItems(watchlist.id);
+        return reply.send({ success: true, watchlist, items });
+      } catch (error) {
+        console.error('Erreur détail liste de surveillance:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Désactiver une liste (plus vérifiée, les événements restent consultables)
+  fastify.post<{ Params: WatchlistParams }>(
+    '/watchlists/:id/deactivate',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WatchlistParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+
+      try {
+        const watchlist = isNaN(id) ? null : await deactivateWatchlist(id, request.apiKey!.id);
+        if (!watchlist) {
+          return reply.code(404).send(WATCHLIST_NOT_FOUND_ERROR);
+        }
+
+        console.log(`[watchlists] Liste ${watchlist.id} désactivée`);
+        return reply.send({ success: true, watchlist });
+      } catch (error) {
+        console.error('Erreur désactivation liste de surveillance:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Ajouter un SIREN, une parcelle ou une zone (l'état de référence est relevé immédiatement)
+  fastify.post<{ Params: WatchlistParams; Body: AddItemBody }>(
+    '/watchlists/:id/items',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WatchlistParams; Body: AddItemBody }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const body = request.body || ({} as AddItemBody);
+      const label = typeof body.label === 'string' && body.label.trim() ? body.label.trim() : null;
+
+      if (!Object.keys(ITEM_SCOPES).includes(body.type)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Type d\'élément invalide',
+          code: 'INVALID_WATCHLIST_ITEM_TYPE',
+          details: 'Le champ "type" doit valoir "siren", "parcel" ou "polygon"',
+        });
+      }
+
+      if (!hasScope(request, ITEM_SCOPES[body.type])) {
+        return sendInsufficientScope(reply, ITEM_SCOPES[body.type]);
+      }
+
+      // Paramètres conservés avec l'élément, relus à chaque vérification
+      let params: Record<string, any>;
+      const searchGeometry = body.type === 'polygon' ? parseSearchGeometry(body.polygon, body.geometry) : null;
+
+      if (body.type === 'siren') {
+        if (typeof body.siren !== 'string' || !/^\d{9}$/.test(body.siren)) {
+          return reply.code(400).send({
+            success: false,
+            error: 'SIREN invalide',
+            code: 'INVALID_SIREN',
+            details: 'Le SIREN doit contenir exactement 9 chiffres',
+          });
+        }
+        params = { siren: body.siren, departement: body.departement || undefined };
+      } else if (body.type === 'parcel') {
+        const { reference, departement, code_commune, prefixe, section, numero_plan } = body;
+        const parcelle = reference
+          ? parseReferenceComplete(reference)
+          : departement && code_commune && section && numero_plan
+          ? { departement, code_commune, prefixe: prefixe || undefined, section, numero_plan }
+          : null;
+
+        if (!parcelle) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Référence cadastrale invalide',
+            code: 'INVALID_REFERENCE',
+            details: 'Fournissez "reference" (ex: 75-056-000-AB-0123) ou departement, code_commune, section et numero_plan',
+          });
+        }
+        params = { reference: parcelle };
+      } else {
+        if (searchGeometry && 'code' in searchGeometry) {
+          return reply.code(400).send({ success: false, ...searchGeometry });
+        }
+        params = { geometry: searchGeometry };
+      }
+
+      try {
+        const watchlist = isNaN(id) ? null : await getWatchlist(id, request.apiKey!.id);
+        if (!watchlist) {
+          return reply.code(404).send(WATCHLIST_NOT_FOUND_ERROR);
+        }
+
+        if (!watchlist.is_active) {
+          return reply.code(409).send({
+            success: false,
+            error: 'Liste désactivée',
+            code: 'WATCHLIST_INACTIVE',
+            details: 'Une liste désactivée n\'accepte plus de nouveaux éléments',
+          });
+        }
+
+        if (await countActiveItems(watchlist.id) >= config.watchlists.maxItems) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Liste pleine',
+            code: 'WATCHLIST_FULL',
+            details: `Maximum ${config.watchlists.maxItems} éléments actifs par liste`,
+          });
+        }
+
+        let geometryWkt: string | undefined;
+        if (body.type === 'polygon' && searchGeometry && !('code' in searchGeometry)) {
+          const prepared = await prepareSearchGeometry(searchGeometry, body.repair === true);
+          if (!prepared.valid) {
+            return reply.code(400).send({
+              success: false,
+              error: 'Géométrie invalide',
+              code: 'INVALID_GEOMETRY',
+              details: `${prepared.reason} (utilisez "repair": true pour la corriger automatiquement)`,
+            });
+          }
+          geometryWkt = prepared.wkt;
+        }
+
+        const item = await addWatchlistItem(watchlist.id, body.type, params, label, geometryWkt);
+        console.log(`[watchlists] Élément ${item.id} (${item.type}) ajouté à la liste ${watchlist.id}`);
+
+        return reply.code(201).send({
+          success: true,
+          item,
+          events_url: `/watchlists/${watchlist.id}/events`,
+        });
+      } catch (error) {
+        if (error instanceof WatchlistAreaTooLargeError) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Zone trop étendue',
+            code: 'WATCHLIST_AREA_TOO_LARGE',
+            details: `${error.message}: réduisez la zone (maximum ${config.watchlists.maxPolygonLots} lots)`,
+          });
+        }
+        console.error('Erreur ajout élément surveillé:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Désactiver un élément (plus vérifié)
+  fastify.post<{ Params: WatchlistItemParams }>(
+    '/watchlists/:id/items/:itemId/deactivate',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WatchlistItemParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const itemId = parseInt(request.params.itemId);
+
+      try {
+        const watchlist = isNaN(id) ? null : await getWatchlist(id, request.apiKey!.id);
+        if (!watchlist) {
+          return reply.code(404).send(WATCHLIST_NOT_FOUND_ERROR);
+        }
+
+        const item = isNaN(itemId) ? null : await deactivateWatchlistItem(watchlist.id, itemId);
+        if (!item) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Élément introuvable',
+            code: 'WATCHLIST_ITEM_NOT_FOUND',
+            details: 'Aucun élément avec cet identifiant dans cette liste',
+          });
+        }
+
+        console.log(`[watchlists] Élément ${item.id} désactivé`);
+        return reply.send({ success: true, item });
+      } catch (error) {
+        console.error('Erreur désactivation élément surveillé:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Événements de changement d'une liste, du plus ancien au plus récent (pagination par since_id)
+  fastify.get<{ Params: WatchlistParams; Querystring: EventsQuery }>(
+    '/watchlists/:id/events',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WatchlistParams; Querystring: EventsQuery }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const { type } = request.query;
+      const sinceId = request.query.since_id !== undefined ? parseInt(request.query.since_id) : 0;
+      const itemId = request.query.item_id !== undefined ? parseInt(request.query.item_id) : undefined;
+      const limit = Math.min(
+        Math.max(1, Number(request.query.limit) || DEFAULT_EVENTS_LIMIT),
+        MAX_EVENTS_LIMIT
+      );
+
+      if (isNaN(sinceId) || sinceId < 0 || (itemId !== undefined && isNaN(itemId))) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Paramètre invalide',
+          code: 'INVALID_PARAMETER',
+          details: '"since_id" et "item_id" doivent être des identifiants numériques',
+        });
+      }
+
+      if (type !== undefined && !WATCHLIST_EVENT_TYPES.includes(type as WatchlistEventType)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Type d\'événement invalide',
+          code: 'INVALID_PARAMETER',
+          details: `Le paramètre "type" doit valoir ${WATCHLIST_EVENT_TYPES.map(t => `"${t}"`).join(', ')}`,
+        });
+      }
+
+      try {
+        const watchlist = isNaN(id) ? null : await getWatchlist(id, request.apiKey!.id);
+        if (!watchlist) {
+          return reply.code(404).send(WATCHLIST_NOT_FOUND_ERROR);
+        }
+
+        const events = await listWatchlistEvents(watchlist.id, sinceId, limit, {
+          type: type as WatchlistEventType | undefined,
+          itemId,
+        });
+
+        return reply.send({
+          success: true,
+          watchlist,
+          events,
+          // Passer next_since_id au prochain appel pour ne lire que les nouveaux événements
+          next_since_id: events.length > 0 ? events[events.length - 1].id : sinceId,
+          has_more: events.length === limit,
+        });
+      } catch (error) {
+        console.error('Erreur événements liste de surveillance:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+}
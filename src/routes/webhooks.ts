@@ -0,0 +1,208 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  createWebhook,
+  listWebhooks,
+  getWebhook,
+  deactivateWebhook,
+  listDeliveries,
+  createTestDelivery,
+  isValidEventList,
+  WEBHOOK_EVENTS,
+  BAN_WEBHOOK_EVENTS,
+} from '../services/webhooks.js';
+import { authHook, hasScope, sendInsufficientScope } from '../middleware/auth.js';
+import { WebhookEvent } from '../types/index.js';
+
+// Types pour les requêtes
+interface CreateWebhookBody {
+  url: string;
+  events: WebhookEvent[];
+}
+
+interface WebhookParams {
+  id: string;
+}
+
+interface DeliveriesQuery {
+  limit?: number;
+}
+
+const DEFAULT_DELIVERIES_LIMIT = 50;
+const MAX_DELIVERIES_LIMIT = 200;
+
+const WEBHOOK_NOT_FOUND_ERROR = {
+  success: false,
+  error: 'Webhook introuvable',
+  code: 'WEBHOOK_NOT_FOUND',
+  details: 'Aucun webhook avec cet identifiant pour cette clé API',
+};
+
+// Vérifie que l'URL de destination est une URL http(s) absolue
+function isValidWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function internalError(reply: FastifyReply, error: unknown): FastifyReply {
+  return reply.code(500).send({
+    success: false,
+    error: 'Erreur interne du serveur',
+    code: 'INTERNAL_ERROR',
+    details: error instanceof Error ? error.message : 'Erreur inconnue',
+  });
+}
+
+export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
+  // Route: Enregistrer un webhook (le secret de signature n'est retourné qu'ici)
+  fastify.post<{ Body: CreateWebhookBody }>(
+    '/webhooks',
+    { ...authHook },
+    async (request: FastifyRequest<{ Body: CreateWebhookBody }>, reply: FastifyReply) => {
+      const { url, events } = request.body || ({} as CreateWebhookBody);
+
+      if (!isValidWebhookUrl(url)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'URL invalide',
+          code: 'INVALID_WEBHOOK_URL',
+          details: 'Le champ "url" doit être une URL http:// ou https:// absolue',
+        });
+      }
+
+      if (!isValidEventList(events)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Événements invalides',
+          code: 'INVALID_WEBHOOK_EVENTS',
+          details: `Le champ "events" doit être une liste non vide parmi: ${WEBHOOK_EVENTS.join(', ')}`,
+        });
+      }
+
+      // Les événements BAN concernent toute l'instance: réservés aux administrateurs BAN
+      if (events.some(e => BAN_WEBHOOK_EVENTS.includes(e)) && !hasScope(request, 'admin:ban')) {
+        return sendInsufficientScope(reply, 'admin:ban');
+      }
+
+      const apiKey = request.apiKey!;
+
+      try {
+        const { secret, webhook } = await createWebhook(apiKey.id, url, events);
+        console.log(`[webhooks] Webhook ${webhook.id} créé par la clé ${apiKey.key_prefix} (${events.join(', ')})`);
+
+        return reply.code(201).send({
+          success: true,
+          webhook,
+          secret,
+          warning: 'Conservez ce secret: il ne sera plus affiché. Il sert à vérifier l\'en-tête X-Cadastre-Signature',
+        });
+      } catch (error) {
+        console.error('Erreur création webhook:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Lister les webhooks de la clé
+  fastify.get(
+    '/webhooks',
+    { ...authHook },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const webhooks = await listWebhooks(request.apiKey!.id);
+        return reply.send({ success: true, webhooks });
+      } catch (error) {
+        console.error('Erreur liste webhooks:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Désactiver un webhook (les livraisons en attente sont abandonnées)
+  fastify.post<{ Params: WebhookParams }>(
+    '/webhooks/:id/deactivate',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+
+      try {
+        const webhook = isNaN(id) ? null : await deactivateWebhook(id, request.apiKey!.id);
+        if (!webhook) {
+          return reply.code(404).send(WEBHOOK_NOT_FOUND_ERROR);
+        }
+
+        console.log(`[webhooks] Webhook ${webhook.id} désactivé`);
+        return reply.send({ success: true, webhook });
+      } catch (error) {
+        console.error('Erreur désactivation webhook:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Journal des livraisons d'un webhook (statut, tentatives, codes HTTP)
+  fastify.get<{ Params: WebhookParams; Querystring: DeliveriesQuery }>(
+    '/webhooks/:id/deliveries',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WebhookParams; Querystring: DeliveriesQuery }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+      const limit = Math.min(
+        Math.max(1, Number(request.query.limit) || DEFAULT_DELIVERIES_LIMIT),
+        MAX_DELIVERIES_LIMIT
+      );
+
+      try {
+        const webhook = isNaN(id) ? null : await getWebhook(id, request.apiKey!.id);
+        if (!webhook) {
+          return reply.code(404).send(WEBHOOK_NOT_FOUND_ERROR);
+        }
+
+        const deliveries = await listDeliveries(webhook.id, limit);
+        return reply.send({ success: true, webhook, deliveries });
+      } catch (error) {
+        console.error('Erreur livraisons webhook:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+
+  // Route: Envoyer un événement de test (webhook.test) au webhook
+  fastify.post<{ Params: WebhookParams }>(
+    '/webhooks/:id/test',
+    { ...authHook },
+    async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+      const id = parseInt(request.params.id);
+
+      try {
+        const webhook = isNaN(id) ? null : await getWebhook(id, request.apiKey!.id);
+        if (!webhook) {
+          return reply.code(404).send(WEBHOOK_NOT_FOUND_ERROR);
+        }
+
+        if (!webhook.is_active) {
+          return reply.code(409).send({
+            success: false,
+            error: 'Webhook désactivé',
+            code: 'WEBHOOK_INACTIVE',
+            details: 'Un webhook désactivé ne reçoit plus de livraisons',
+          });
+        }
+
+        const delivery = await createTestDelivery(webhook);
+        return reply.code(202).send({
+          success: true,
+          delivery,
+          deliveries_url: `/webhooks/${webhook.id}/deliveries`,
+        });
+      } catch (error) {
+        console.error('Erreur test webhook:', error);
+        return internalError(reply, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Service de gestion des clés API
+ * Les clés sont stockées hachées (SHA-256): la clé en clair n'est connue du client
+ * qu'au moment de sa création, seul un préfixe est conservé pour l'identifier.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { pool } from './database.js';
+import { ApiKey, ApiScope } from '../types/index.js';
+import { config } from '../config/index.js';
+
+// Préfixe des clés générées (permet de les reconnaître dans les logs/configs)
+const KEY_PREFIX = 'cad_';
+// Nombre de caractères conservés en clair pour identifier une clé
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Scopes attribuables aux clés
+export const API_SCOPES: ApiScope[] = ['search:read', 'search:geo', 'search:stream', 'admin:ban', 'admin:sirene', 'admin:data', 'admin:keys'];
+
+// Colonnes retournées pour une clé (l'usage mensuel est remis à zéro au changement de mois)
+const API_KEY_COLUMNS = `
+  id,
+  key_prefix,
+  name,
+  created_at,
+  is_active,
+  rate_limit,
+  monthly_quota,
+  CASE
+    WHEN usage_month = date_trunc('month', NOW())::date THEN current_month_usage
+    ELSE 0
+  END AS current_month_usage,
+  scopes,
+  last_used_at,
+  rotated_at,
+  previous_key_expires_at,
+  deactivated_at
+`;
+
+/**
+ * Crée la table api_keys si elle n'existe pas
+ */
+export async function setupApiKeysTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id SERIAL PRIMARY KEY,
+      key_hash TEXT NOT NULL UNIQUE,
+      key_prefix TEXT NOT NULL,
+      name TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      rate_limit INTEGER,
+      monthly_quota INTEGER,
+      current_month_usage BIGINT NOT NULL DEFAULT 0,
+      usage_month DATE NOT NULL DEFAULT date_trunc('month', NOW())::date,
+      created_at TIMESTAMP DEFAULT NOW(),
+      last_used_at TIMESTAMP
+    )
+  `);
+
+  // Rotation: l'ancienne clé reste valide jusqu'à previous_key_expires_at
+  await pool.query('ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS previous_key_hash TEXT');
+  await pool.query('ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS previous_key_expires_at TIMESTAMP');
+  await pool.query('ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP');
+  await pool.query('ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP');
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_api_keys_previous_hash ON api_keys(previous_key_hash)');
+
+  // Scopes: les clés existantes gardent l'accès en lecture seule
+  await pool.query(`ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['search:read']`);
+}
+
+/**
+ * Vérifie qu'une liste de scopes est valide
+ */
+export function isValidScopeList(scopes: unknown): scopes is ApiScope[] {
+  return Array.isArray(scopes) && scopes.every(s => API_SCOPES.includes(s as ApiScope));
+}
+
+/**
+ * Scopes de API_KEY_DEFAULT_SCOPES absents de API_SCOPES (le serveur refuse de démarrer s'il y en a)
+ */
+export function getUnknownDefaultScopes(): string[] {
+  return config.auth.defaultScopes.filter(s => !API_SCOPES.includes(s as ApiScope));
+}
+
+// Scopes par défaut des nouvelles clés
+function getDefaultScopes(): ApiScope[] {
+  return config.auth.defaultScopes.filter((s): s is ApiScope => API_SCOPES.includes(s as ApiScope));
+}
+
+/**
+ * Hache une clé API (seul le hash est stocké en base)
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Génère une nouvelle clé API aléatoire
+ */
+export function generateApiKey(): string {
+  return KEY_PREFIX + randomBytes(24).toString('hex');
+}
+
+// Mappe une ligne de la table api_keys vers le type ApiKey
+function mapApiKeyRow(row: any): ApiKey {
+  return {
+    id: row.id,
+    key_prefix: row.key_prefix,
+    name: row.name,
+    created_at: row.created_at,
+    is_active: row.is_active,
+    rate_limit: row.rate_limit ?? undefined,
+    monthly_quota: row.monthly_quota ?? undefined,
+    current_month_usage: parseInt(row.current_month_usage) || 0,
+    scopes: row.scopes || [],
+    last_used_at: row.last_used_at || null,
+    rotated_at: row.rotated_at || null,
+    previous_key_expires_at: row.previous_key_expires_at || null,
+    deactivated_at: row.deactivated_at || null,
+  };
+}
+
+/**
+ * Crée une clé API et retourne la clé en clair (à transmettre une seule fois au client)
+ */
+export async function createApiKey(input: {
+  name: string;
+  rate_limit?: number;
+  monthly_quota?: number;
+  scopes?: ApiScope[];
+}): Promise<{ key: string; apiKey: ApiKey }> {
+  const key = generateApiKey();
+
+  const result = await pool.query(
+    `INSERT INTO api_keys (key_hash, key_prefix, name, rate_limit, monthly_quota, scopes)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${API_KEY_COLUMNS}`,
+    [
+      hashApiKey(key),
+      key.substring(0, DISPLAY_PREFIX_LENGTH),
+      input.name,
+      input.rate_limit ?? config.auth.defaultRateLimit,
+      input.monthly_quota ?? null,
+      input.scopes ?? getDefaultScopes(),
+    ]
+  );
+
+  return { key, apiKey: mapApiKeyRow(result.rows[0]) };
+}
+
+/**
+ * Recherche une clé API à partir de sa valeur en clair
+ * Pendant la période de grâce d'une rotation, l'ancienne clé est aussi acceptée
+ */
+export async function findApiKey(key: string): Promise<ApiKey | null> {
+  const result = await pool.query(
+    `SELECT ${API_KEY_COLUMNS} FROM api_keys
+     WHERE key_hash = $1
+        OR (previous_key_hash = $1 AND previous_key_expires_at > NOW())
+     LIMIT 1`,
+    [hashApiKey(key)]
+  );
+
+  return result.rows.length > 0 ? mapApiKeyRow(result.rows[0]) : null;
+}
+
+/**
+ * Liste toutes les clés API avec leur usage du mois en cours
+ */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const result = await pool.query(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id`);
+  return result.rows.map(mapApiKeyRow);
+}
+
+/**
+ * Remplace la clé par une nouvelle valeur
+ * L'ancienne clé reste valide pendant gracePeriodHours (0 = invalidée immédiatement)
+ */
+export async function rotateApiKey(
+  id: number,
+  gracePeriodHours: number
+): Promise<{ key: string; apiKey: ApiKey } | null> {
+  const key = generateApiKey();
+
+  const result = await pool.query(
+    `UPDATE api_keys SET
+       previous_key_hash = key_hash,
+       previous_key_expires_at = NOW() + make_interval(secs => $4),
+       key_hash = $2,
+       key_prefix = $3,
+       rotated_at = NOW()
+     WHERE id = $1 AND is_active
+     RETURNING ${API_KEY_COLUMNS}`,
+    [id, hashApiKey(key), key.substring(0, DISPLAY_PREFIX_LENGTH), gracePeriodHours * 3600]
+  );
+
+  return result.rows.length > 0 ? { key, apiKey: mapApiKeyRow(result.rows[0]) } : null;
+}
+
+/**
+ * Remplace les scopes d'une clé
+ */
+export async function updateApiKeyScopes(id: number, scopes: ApiScope[]): Promise<ApiKey | null> {
+  const result = await pool.query(
+    `UPDATE api_keys SET scopes = $2 WHERE id = $1 RETURNING ${API_KEY_COLUMNS}`,
+    [id, scopes]
+  );
+
+  return result.rows.length > 0 ? mapApiKeyRow(result.rows[0]) : null;
+}
+
+/**
+ * Désactive une clé (ainsi que l'éventuelle ancienne clé en période de grâce)
+ */
+export async function deactivateApiKey(id: number): Promise<ApiKey | null> {
+  const result = await pool.query(
+    `UPDATE api_keys SET
+       is_active = FALSE,
+       previous_key_expires_at = NULL,
+       deactivated_at = COALESCE(deactivated_at, NOW())
+     WHERE id = $1
+     RETURNING ${API_KEY_COLUMNS}`,
+    [id]
+  );
+
+  return result.rows.length > 0 ? mapApiKeyRow(result.rows[0]) : null;
+}
+
+/**
+ * Ajoute des résultats à l'usage mensuel d'une clé (réinitialisé au changement de mois)
+ */
+export async function addMonthlyUsage(id: number, resultCount: number): Promise<void> {
+  await pool.query(
+    `UPDATE api_keys SET
+       current_month_usage = CASE
+         WHEN usage_month = date_trunc('month', NOW())::date THEN current_month_usage + $2
+         ELSE $2
+       END,
+       usage_month = date_trunc('month', NOW())::date,
+       last_used_at = NOW()
+     WHERE id = $1`,
+    [id, resultCount]
+  );
+}
@@ -299,6 +299,15 @@ export async function createIndexes(): Promise<{ success: boolean; message: stri
   }
 }
 
+/**
+ * Recrée les index à la demande et notifie la fin (événements reindex-complete / reindex-error)
+ */
+export async function reindexBan(): Promise<{ success: boolean; message: string }> {
+  const result = await createIndexes();
+  importEmitter.emit(result.success ? 'reindex-complete' : 'reindex-error', result);
+  return result;
+}
+
 /**
  * Retourne l'état actuel de l'import
  */
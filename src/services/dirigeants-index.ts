@@ -0,0 +1,271 @@
+/**
+ * Index des dirigeants et bénéficiaires effectifs (personnes physiques)
+ * Alimenté par les fiches retournées par l'enrichissement: chaque fiche lue auprès de l'API
+ * Recherche Entreprises remplace les personnes indexées pour son SIREN. L'index ne couvre donc
+ * que les entreprises déjà enrichies (recherches, jobs, cache entreprises_cache).
+ */
+
+import { pool } from './database.js';
+import { EntrepriseEnrichie, BeneficiaireEffectif } from '../types/index.js';
+
+export type MandatRole = 'dirigeant' | 'beneficiaire_effectif';
+
+// Mandat d'une personne dans une entreprise
+export interface Mandat {
+  role: MandatRole;
+  nom: string;
+  prenoms: string;
+  annee_naissance: string | null;
+  qualite: string;
+  // Sociétés intermédiaires (bénéficiaires effectifs uniquement)
+  chaine_controle: BeneficiaireEffectif['chaine_controle'];
+}
+
+export interface EntrepriseMandats {
+  siren: string;
+  denomination: string;
+  mandats: Mandat[];
+}
+
+// Fiches relues par lot lors de la reprise du cache
+const BACKFILL_BATCH_SIZE = 500;
+
+// Majuscules sans accents ni ponctuation, pour comparer les noms
+export function normalizePersonName(str: string): string {
+  if (!str) return '';
+  return str
+    .toUpperCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Crée les tables entreprises_dirigeants et dirigeants_index_backfill si elles n'existent pas
+ */
+export async function setupDirigeantsIndexTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS entreprises_dirigeants (
+      id BIGSERIAL PRIMARY KEY,
+      siren CHAR(9) NOT NULL,
+      denomination TEXT,
+      role VARCHAR(30) NOT NULL,
+      nom TEXT NOT NULL,
+      prenoms TEXT,
+      nom_normalise TEXT NOT NULL,
+      prenoms_normalise TEXT,
+      annee_naissance VARCHAR(4),
+      qualite TEXT,
+      chaine_controle JSONB NOT NULL DEFAULT '[]',
+      indexed_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_entreprises_dirigeants_nom ON entreprises_dirigeants(nom_normalise, annee_naissance)');
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_entreprises_dirigeants_siren ON entreprises_dirigeants(siren)');
+  // Avancement de la reprise du cache (une seule ligne): dernier SIREN traité, date de fin
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS dirigeants_index_backfill (
+      id SMALLINT PRIMARY KEY CHECK (id = 1),
+      last_siren TEXT NOT NULL DEFAULT '',
+      completed_at TIMESTAMP
+    )
+  `);
+  await pool.query('INSERT INTO dirigeants_index_backfill (id) VALUES (1) ON CONFLICT (id) DO NOTHING');
+}
+
+// Personnes physiques d'une fiche: dirigeants directs et bénéficiaires effectifs
+function extractMandats(entreprise: EntrepriseEnrichie): Mandat[] {
+  const mandats: Mandat[] = [];
+
+  for (const d of entreprise.dirigeants || []) {
+    if (d.type !== 'personne_physique' || !d.nom) continue;
+    mandats.push({
+      role: 'dirigeant',
+      nom: d.nom,
+      prenoms: d.prenoms || '',
+      annee_naissance: d.annee_naissance || null,
+      qualite: d.qualite || '',
+      chaine_controle: [],
+    });
+  }
+
+  for (const b of entreprise.beneficiaires_effectifs || []) {
+    // Bénéficiaire sans société intermédiaire = dirigeant direct, déjà indexé
+    if (!b.nom || b.chaine_controle.length === 0) continue;
+    mandats.push({
+      role: 'beneficiaire_effectif',
+      nom: b.nom,
+      prenoms: b.prenoms || '',
+      annee_naissance: b.annee_naissance || null,
+      qualite: b.qualite || '',
+      chaine_controle: b.chaine_controle,
+    });
+  }
+
+  return mandats;
+}
+
+// Lignes d'index d'une fiche (SIREN et dénomination répétés sur chaque personne)
+function toIndexRows(entreprise: EntrepriseEnrichie) {
+  return extractMandats(entreprise).map(m => ({
+    ...m,
+    siren: entreprise.siren,
+    denomination: entreprise.nom_complet || '',
+    nom_normalise: normalizePersonName(m.nom),
+    prenoms_normalise: normalizePersonName(m.prenoms),
+  }));
+}
+
+/**
+ * Remplace les personnes indexées pour les SIREN donnés (une seule requête, atomique)
+ */
+async function replaceIndexRows(sirens: string[], rows: ReturnType<typeof toIndexRows>): Promise<void> {
+  await pool.query(
+    `WITH supprimes AS (
+       DELETE FROM entreprises_dirigeants WHERE siren = ANY($1::text[])
+     )
+     INSERT INTO entreprises_dirigeants
+       (siren, denomination, role, nom, prenoms, nom_normalise, prenoms_normalise, annee_naissance, qualite, chaine_controle)
+     SELECT m.siren, m.denomination, m.role, m.nom, m.prenoms, m.nom_normalise, m.prenoms_normalise, m.annee_naissance, m.qualite, m.chaine_controle
+     FROM jsonb_to_recordset($2::jsonb) AS m(
+       siren TEXT, denomination TEXT, role TEXT, nom TEXT, prenoms TEXT, nom_normalise TEXT, prenoms_normalise TEXT,
+       annee_naissance TEXT, qualite TEXT, chaine_controle JSONB
+     )`,
+    [sirens, JSON.stringify(rows)]
+  );
+}
+
+/**
+ * Remplace les personnes indexées pour le SIREN de la fiche
+ */
+export async function indexEntrepriseDirigeants(entreprise: EntrepriseEnrichie): Promise<void> {
+  await replaceIndexRows([entreprise.siren], toIndexRows(entreprise));
+}
+
+/**
+ * Vrai si la reprise du cache entreprises_cache est terminée
+ */
+export async function isDirigeantsBackfillDone(): Promise<boolean> {
+  const result = await pool.query('SELECT completed_at FROM dirigeants_index_backfill WHERE id = 1');
+  return result.rows[0]?.completed_at != null;
+}
+
+/**
+ * Indexe les fiches du cache entreprises_cache (première mise en service), une requête par lot de fiches
+ * Une fiche illisible est ignorée; si l'insertion d'un lot échoue, ses fiches sont reprises une par une.
+ * Le dernier SIREN traité est enregistré à chaque lot: une reprise interrompue (redémarrage) continue
+ * à partir de celui-ci, jusqu'à sa fin enregistrée.
+ * @returns Nombre de fiches indexées
+ */
+export async function backfillDirigeantsIndex(): Promise<number> {
+  let indexed = 0;
+  const checkpoint = await pool.query('SELECT last_siren FROM dirigeants_index_backfill WHERE id = 1');
+  let lastSiren: string = checkpoint.rows[0]?.last_siren ?? '';
+
+  for (;;) {
+    const result = await pool.query(
+      `SELECT siren, data FROM entreprises_cache
+       WHERE data IS NOT NULL AND siren > $1
+       ORDER BY siren
+       LIMIT $2`,
+      [lastSiren, BACKFILL_BATCH_SIZE]
+    );
+
+    const entreprises: EntrepriseEnrichie[] = [];
+    const rows: ReturnType<typeof toIndexRows> = [];
+    for (const row of result.rows) {
+      try {
+        rows.push(...toIndexRows({ ...row.data, siren: row.siren }));
+        entreprises.push({ ...row.data, siren: row.siren });
+      } catch (error) {
+        console.error(`[dirigeants-index] Fiche ${row.siren} ignorée:`, error);
+      }
+    }
+
+    try {
+      await replaceIndexRows(entreprises.map(e => e.siren), rows);
+      indexed += entreprises.length;
+    } catch (error) {
+      console.error('[dirigeants-index] Erreur lot de reprise, fiches indexées une par une:', error);
+      for (const entreprise of entreprises) {
+        try {
+          await indexEntrepriseDirigeants(entreprise);
+          indexed++;
+        } catch (rowError) {
+          console.error(`[dirigeants-index] Fiche ${entreprise.siren} ignorée:`, rowError);
+        }
+      }
+    }
+
+    if (result.rows.length < BACKFILL_BATCH_SIZE) break;
+    lastSiren = result.rows[result.rows.length - 1].siren;
+    await pool.query('UPDATE dirigeants_index_backfill SET last_siren = $1 WHERE id = 1', [lastSiren]);
+  }
+
+  await pool.query('UPDATE dirigeants_index_backfill SET completed_at = NOW() WHERE id = 1');
+  return indexed;
+}
+
+/**
+ * Recherche les entreprises dont une personne est dirigeante ou bénéficiaire effective
+ * Nom exact (sans accents ni casse), prénoms en début de chaîne ("JEAN" trouve "JEAN PIERRE")
+ * @param limit - Nombre max d'entreprises retournées
+ */
+export async function searchDirigeants(
+  nom: string,
+  prenoms: string | undefined,
+  anneeNaissance: string | undefined,
+  limit: number
+): Promise<{ entreprises: EntrepriseMandats[]; truncated: boolean }> {
+  const conditions = ['nom_normalise = $1'];
+  const params: any[] = [normalizePersonName(nom)];
+
+  const prenomsNormalises = normalizePersonName(prenoms || '');
+  if (prenomsNormalises) {
+    params.push(prenomsNormalises + '%');
+    conditions.push(`prenoms_normalise LIKE $${params.length}`);
+  }
+
+  if (anneeNaissance) {
+    params.push(anneeNaissance);
+    conditions.push(`annee_naissance = $${params.length}`);
+  }
+
+  // Une entreprise de plus que la limite pour savoir si la liste est tronquée
+  params.push(limit + 1);
+  const result = await pool.query(
+    `SELECT siren, denomination, role, nom, prenoms, annee_naissance, qualite, chaine_controle
+     FROM entreprises_dirigeants
+     WHERE siren IN (
+       SELECT DISTINCT siren FROM entreprises_dirigeants
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY siren
+       LIMIT $${params.length}
+     )
+     AND ${conditions.join(' AND ')}
+     ORDER BY siren, role, id`,
+    params
+  );
+
+  const bySiren = new Map<string, EntrepriseMandats>();
+  for (const row of result.rows) {
+    let entreprise = bySiren.get(row.siren);
+    if (!entreprise) {
+      entreprise = { siren: row.siren, denomination: row.denomination || '', mandats: [] };
+      bySiren.set(row.siren, entreprise);
+    }
+    entreprise.mandats.push({
+      role: row.role,
+      nom: row.nom,
+      prenoms: row.prenoms || '',
+      annee_naissance: row.annee_naissance,
+      qualite: row.qualite || '',
+      chaine_controle: row.chaine_controle,
+    });
+  }
+
+  const entreprises = Array.from(bySiren.values());
+  return { entreprises: entreprises.slice(0, limit), truncated: entreprises.length > limit };
+}
@@ -0,0 +1,125 @@
+/**
+ * Cache persistant de l'enrichissement entreprises (API Recherche Entreprises)
+ * Les mêmes SIREN (grands bailleurs, organismes publics) reviennent dans la plupart des recherches:
+ * chaque fiche est conservée en base avec une durée de validité, y compris les SIREN introuvables
+ * (cache négatif, durée plus courte) pour ne pas réinterroger l'API à chaque recherche.
+ */
+
+import { pool } from './database.js';
+import { config } from '../config/index.js';
+import { EntrepriseEnrichie } from '../types/index.js';
+
+// Entrée du cache: entreprise null = SIREN introuvable dans l'API (cache négatif)
+export interface CachedEntreprise {
+  entreprise: EntrepriseEnrichie | null;
+  fetched_at: Date;
+}
+
+export interface EnrichmentCacheStats {
+  total: number;
+  trouves: number;
+  introuvables: number;
+  expires: number;
+  plus_ancien: Date | null;
+  plus_recent: Date | null;
+}
+
+/**
+ * Crée la table entreprises_cache si elle n'existe pas
+ */
+export async function setupEnrichmentCacheTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS entreprises_cache (
+      siren CHAR(9) PRIMARY KEY,
+      data JSONB,
+      fetched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_entreprises_cache_expires ON entreprises_cache(expires_at)');
+}
+
+/**
+ * Lit une entrée valide du cache (undefined si absente ou expirée)
+ */
+export async function getCachedEntreprise(siren: string): Promise<CachedEntreprise | undefined> {
+  const result = await pool.query(
+    `SELECT data, fetched_at FROM entreprises_cache
+     WHERE siren = $1 AND expires_at > NOW()`,
+    [siren]
+  );
+
+  if (result.rows.length === 0) return undefined;
+
+  return { entreprise: result.rows[0].data, fetched_at: result.rows[0].fetched_at };
+}
+
+/**
+ * Enregistre le résultat d'un appel à l'API (null = SIREN introuvable)
+ * Les erreurs de l'API (timeout, 5xx) ne doivent pas être enregistrées
+ */
+export async function storeCachedEntreprise(
+  siren: string,
+  entreprise: EntrepriseEnrichie | null
+): Promise<Date> {
+  const ttlHours = entreprise ? config.enrichmentCache.ttlHours : config.enrichmentCache.negativeTtlHours;
+
+  const result = await pool.query(
+    `INSERT INTO entreprises_cache (siren, data, fetched_at, expires_at)
+     VALUES ($1, $2, NOW(), NOW() + make_interval(hours => $3))
+     ON CONFLICT (siren) DO UPDATE SET
+       data = EXCLUDED.data,
+       fetched_at = EXCLUDED.fetched_at,
+       expires_at = EXCLUDED.expires_at
+     RETURNING fetched_at`,
+    [siren, entreprise ? JSON.stringify(entreprise) : null, ttlHours]
+  );
+
+  return result.rows[0].fetched_at;
+}
+
+/**
+ * Supprime les entrées expirées
+ * @returns Nombre d'entrées supprimées
+ */
+export async function purgeExpiredEntreprises(): Promise<number> {
+  const result = await pool.query('DELETE FROM entreprises_cache WHERE expires_at <= NOW()');
+  return result.rowCount || 0;
+}
+
+/**
+ * Statistiques du cache (volume, cache négatif, fraîcheur)
+ */
+export async function getEnrichmentCacheStats(): Promise<EnrichmentCacheStats> {
+  const result = await pool.query(`
+    SELECT
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE data IS NOT NULL) AS trouves,
+      COUNT(*) FILTER (WHERE data IS NULL) AS introuvables,
+      COUNT(*) FILTER (WHERE expires_at <= NOW()) AS expires,
+      MIN(fetched_at) AS plus_ancien,
+      MAX(fetched_at) AS plus_recent
+    FROM entreprises_cache
+  `);
+
+  const row = result.rows[0];
+  return {
+    total: parseInt(row.total) || 0,
+    trouves: parseInt(row.trouves) || 0,
+    introuvables: parseInt(row.introuvables) || 0,
+    expires: parseInt(row.expires) || 0,
+    plus_ancien: row.plus_ancien,
+    plus_recent: row.plus_recent,
+  };
+}
+
+/**
+ * Invalide une fiche (prochain enrichissement relu depuis l'API), ou tout le cache sans SIREN
+ * @returns Nombre d'entrées supprimées
+ */
+export async function invalidateCachedEntreprises(siren?: string): Promise<number> {
+  const result = siren
+    ? await pool.query('DELETE FROM entreprises_cache WHERE siren = $1', [siren])
+    : await pool.query('DELETE FROM entreprises_cache');
+  return result.rowCount || 0;
+}
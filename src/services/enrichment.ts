@@ -0,0 +1,203 @@
+/**
+ * Enrichissement entreprises: registre de sources et chaîne de repli
+ * Les sources (EnrichmentProvider) sont interrogées dans l'ordre de ENRICHMENT_PROVIDERS:
+ * un SIREN introuvable, une erreur ou un timeout passe à la source suivante.
+ * Chaque source a son timeout et son état de santé: après plusieurs échecs consécutifs,
+ * elle est ignorée pendant un délai de refroidissement.
+ */
+
+import { config } from '../config/index.js';
+import { apiEnrichmentProvider } from './entreprises-api.js';
+import { sireneEnrichmentProvider } from './sirene.js';
+import { EntrepriseEnrichie } from '../types/index.js';
+
+/**
+ * Source d'enrichissement
+ * lookup retourne null si le SIREN est inconnu de la source, et lève une erreur si la source est indisponible
+ */
+export interface EnrichmentProvider {
+  name: string;
+  lookup(siren: string): Promise<EntrepriseEnrichie | null>;
+}
+
+export interface EnrichmentProviderHealth {
+  name: string;
+  active: boolean; // présente dans ENRICHMENT_PROVIDERS
+  healthy: boolean;
+  timeout_ms: number;
+  calls: number;
+  found: number;
+  not_found: number;
+  errors: number;
+  timeouts: number;
+  consecutive_failures: number;
+  avg_duration_ms: number;
+  last_error: string | null;
+  last_error_at: Date | null;
+  last_success_at: Date | null;
+  disabled_until: Date | null;
+}
+
+// Échecs consécutifs avant de mettre une source de côté
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 60000;
+
+class ProviderTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Source ${name}: pas de réponse après ${timeoutMs}ms`);
+  }
+}
+
+const providers = new Map<string, EnrichmentProvider>();
+const health = new Map<string, EnrichmentProviderHealth & { total_duration_ms: number }>();
+
+/**
+ * Enregistre une source (remplace une source de même nom)
+ */
+export function registerEnrichmentProvider(provider: EnrichmentProvider): void {
+  providers.set(provider.name, provider);
+  health.delete(provider.name);
+}
+
+/**
+ * Noms des sources enregistrées
+ */
+export function listEnrichmentProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Sources de ENRICHMENT_PROVIDERS absentes du registre (ignorées par la chaîne)
+ */
+export function getUnknownEnrichmentProviders(): string[] {
+  return config.enrichment.providers.filter(name => !providers.has(name));
+}
+
+// Sources de la chaîne configurée, dans l'ordre (les noms inconnus sont ignorés)
+function getProviderChain(): EnrichmentProvider[] {
+  return config.enrichment.providers
+    .map(name => providers.get(name))
+    .filter((p): p is EnrichmentProvider => p !== undefined);
+}
+
+function getTimeoutMs(name: string): number {
+  return config.enrichment.timeouts[name] ?? config.enrichment.timeoutMs;
+}
+
+function getHealth(name: string) {
+  let entry = health.get(name);
+  if (!entry) {
+    entry = {
+      name,
+      active: true,
+      healthy: true,
+      timeout_ms: getTimeoutMs(name),
+      calls: 0,
+      found: 0,
+      not_found: 0,
+      errors: 0,
+      timeouts: 0,
+      consecutive_failures: 0,
+      avg_duration_ms: 0,
+      total_duration_ms: 0,
+      last_error: null,
+      last_error_at: null,
+      last_success_at: null,
+      disabled_until: null,
+    };
+    health.set(name, entry);
+  }
+  return entry;
+}
+
+// Interroge une source avec son timeout (la requête sous-jacente n'est pas annulée)
+async function lookupWithTimeout(provider: EnrichmentProvider, siren: string): Promise<EntrepriseEnrichie | null> {
+  const timeoutMs = getTimeoutMs(provider.name);
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await Promise.race([
+      provider.lookup(siren),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ProviderTimeoutError(provider.name, timeoutMs)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Enrichit un SIREN en parcourant la chaîne de sources
+ * La fiche retournée indique la source qui a répondu (provider)
+ */
+export async function enrichSiren(siren: string): Promise<EntrepriseEnrichie | null> {
+  if (!siren || siren.length !== 9) return null;
+
+  for (const provider of getProviderChain()) {
+    const state = getHealth(provider.name);
+    if (state.disabled_until && state.disabled_until.getTime() > Date.now()) continue;
+
+    const start = Date.now();
+    state.calls++;
+
+    try {
+      const entreprise = await lookupWithTimeout(provider, siren);
+
+      state.total_duration_ms += Date.now() - start;
+      state.consecutive_failures = 0;
+      state.disabled_until = null;
+      state.last_success_at = new Date();
+
+      if (entreprise) {
+        state.found++;
+        return { ...entreprise, provider: provider.name };
+      }
+      state.not_found++;
+    } catch (error) {
+      state.total_duration_ms += Date.now() - start;
+      state.consecutive_failures++;
+      state.last_error = error instanceof Error ? error.message : String(error);
+      state.last_error_at = new Date();
+      if (error instanceof ProviderTimeoutError) {
+        state.timeouts++;
+      } else {
+        state.errors++;
+      }
+
+      console.error(`[enrichment] Source ${provider.name} en erreur pour SIREN ${siren}: ${state.last_error}`);
+
+      if (state.consecutive_failures >= FAILURE_THRESHOLD) {
+        state.disabled_until = new Date(Date.now() + COOLDOWN_MS);
+        console.warn(`[enrichment] Source ${provider.name} ignorée ${COOLDOWN_MS / 1000}s après ${state.consecutive_failures} échecs consécutifs`);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * État de santé des sources enregistrées
+ */
+export function getEnrichmentProvidersHealth(): EnrichmentProviderHealth[] {
+  const now = Date.now();
+
+  return listEnrichmentProviders().map(name => {
+    const { total_duration_ms, ...state } = getHealth(name);
+    const disabled = state.disabled_until !== null && state.disabled_until.getTime() > now;
+
+    return {
+      ...state,
+      active: config.enrichment.providers.includes(name),
+      healthy: !disabled,
+      timeout_ms: getTimeoutMs(name),
+      avg_duration_ms: state.calls > 0 ? Math.round(total_duration_ms / state.calls) : 0,
+      disabled_until: disabled ? state.disabled_until : null,
+    };
+  });
+}
+
+// Sources intégrées
+registerEnrichmentProvider(sireneEnrichmentProvider);
+registerEnrichmentProvider(apiEnrichmentProvider);
@@ -1,9 +1,16 @@
 import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/index.js';
 import { EntrepriseEnrichie, Dirigeant, SiegeEntreprise, BeneficiaireEffectif } from '../types/index.js';
+import { countEnrichmentCall } from '../utils/usage-context.js';
+import { decodeTrancheEffectif } from '../utils/abbreviations.js';
+import { getCachedEntreprise, storeCachedEntreprise } from './enrichment-cache.js';
+import { indexEntrepriseDirigeants } from './dirigeants-index.js';
+import { EnrichmentProvider } from './enrichment.js';
 
 // Configuration pour la résolution des bénéficiaires effectifs
-const MAX_DEPTH = 5; // Profondeur max de résolution des chaînes de PM
+export const MAX_DEPTH = 5; // Profondeur max de résolution des chaînes de PM
+const DIRIGEES_PER_PAGE = 25; // Résultats par page pour trouver les sociétés dirigées par une PM (max de l'API)
+const DIRIGEES_MAX_PAGES = 10; // Pages examinées au plus (recherche plein texte: les homonymes s'ajoutent aux résultats)
 
 // Rate limiter simple pour respecter les 7 req/sec
 class RateLimiter {
@@ -53,26 +60,83 @@ class EntreprisesApiClient {
 
   // Recherche une entreprise par SIREN (avec résolution des bénéficiaires effectifs)
   async searchBySiren(siren: string): Promise<EntrepriseEnrichie | null> {
+    try {
+      return await this.fetchBySiren(siren);
+    } catch (error) {
+      console.error(`Erreur API Entreprises pour SIREN ${siren}:`, error);
+      return null;
+    }
+  }
+
+  // Comme searchBySiren, mais propage les erreurs de l'API: null signifie SIREN introuvable
+  async fetchBySiren(siren: string): Promise<EntrepriseEnrichie | null> {
+    const raw = await this.fetchRawBySiren(siren);
+    return raw ? await this.mapToEntrepriseEnrichie(raw) : null;
+  }
+
+  // Résultat brut de l'API pour un SIREN (null si introuvable, erreurs de l'API propagées)
+  async fetchRawBySiren(siren: string): Promise<any | null> {
     if (!siren || siren.length !== 9) return null;
 
     await this.rateLimiter.waitForSlot();
 
-    try {
+    const response = await this.client.get('/search', {
+      params: {
+        q: siren,
+        per_page: 1,
+      },
+    });
+
+    const results = response.data?.results;
+    if (!results || results.length === 0) return null;
+
+    return results[0];
+  }
+
+  // Résultats bruts des sociétés dont une personne morale (SIREN) est dirigeante
+  // L'API n'a pas de filtre par SIREN de dirigeant: recherche plein texte sur la dénomination
+  // (qui porte aussi sur les dirigeants), puis filtre sur le SIREN, page par page jusqu'à maxResults
+  // sociétés trouvées. complete: false si des pages restaient à examiner. Erreurs de l'API propagées.
+  async fetchRawDirigeesPar(
+    siren: string,
+    denomination: string,
+    maxResults: number
+  ): Promise<{ dirigees: any[]; complete: boolean }> {
+    if (!siren || siren.length !== 9 || !denomination || denomination.trim().length < 2) {
+      return { dirigees: [], complete: true };
+    }
+
+    const dirigees: any[] = [];
+
+    for (let page = 1; page <= DIRIGEES_MAX_PAGES; page++) {
+      await this.rateLimiter.waitForSlot();
+      countEnrichmentCall();
+
       const response = await this.client.get('/search', {
         params: {
-          q: siren,
-          per_page: 1,
+          q: denomination.trim(),
+          page,
+          per_page: DIRIGEES_PER_PAGE,
         },
       });
 
-      const results = response.data?.results;
-      if (!results || results.length === 0) return null;
+      const results: any[] = response.data?.results || [];
+      dirigees.push(...results.filter(r =>
+        r.siren !== siren &&
+        (r.dirigeants || []).some((d: any) => d.type_dirigeant === 'personne morale' && d.siren === siren)
+      ));
 
-      return await this.mapToEntrepriseEnrichie(results[0]);
-    } catch (error) {
-      console.error(`Erreur API Entreprises pour SIREN ${siren}:`, error);
-      return null;
+      const totalPages: number | undefined = response.data?.total_pages;
+      const lastPage = results.length < DIRIGEES_PER_PAGE || (totalPages !== undefined && page >= totalPages);
+      if (lastPage) {
+        return { dirigees, complete: true };
+      }
+      if (dirigees.length >= maxResults) {
+        return { dirigees, complete: false };
+      }
     }
+
+    return { dirigees, complete: false };
   }
 
   // Recherche une entreprise par dénomination
@@ -224,7 +288,7 @@ class EntreprisesApiClient {
       date_creation: data.date_creation || '',
       etat_administratif: data.etat_administratif || '',
       categorie_entreprise: data.categorie_entreprise || '',
-      tranche_effectif: this.decodeTrancheEffectif(data.tranche_effectif_salarie),
+      tranche_effectif: decodeTrancheEffectif(data.tranche_effectif_salarie),
       siege: this.mapSiege(siege),
       dirigeants,
       beneficiaires_effectifs,
@@ -279,39 +343,67 @@ class EntreprisesApiClient {
       longitude: siege.longitude?.toString() || undefined,
     };
   }
+}
 
-  // Décode la tranche d'effectif
-  private decodeTrancheEffectif(code: string): string {
-    const tranches: Record<string, string> = {
-      '00': '0 salarié',
-      '01': '1 ou 2 salariés',
-      '02': '3 à 5 salariés',
-      '03': '6 à 9 salariés',
-      '11': '10 à 19 salariés',
-      '12': '20 à 49 salariés',
-      '21': '50 à 99 salariés',
-      '22': '100 à 199 salariés',
-      '31': '200 à 249 salariés',
-      '32': '250 à 499 salariés',
-      '41': '500 à 999 salariés',
-      '42': '1000 à 1999 salariés',
-      '51': '2000 à 4999 salariés',
-      '52': '5000 à 9999 salariés',
-      '53': '10000 salariés et plus',
-    };
+// Instance singleton
+export const entreprisesApi = new EntreprisesApiClient();
+
+// Appels à l'API en cours par SIREN (recherches concurrentes sur les mêmes propriétaires)
+const pendingFetches = new Map<string, Promise<EntrepriseEnrichie | null>>();
+
+// Interroge l'API et enregistre le résultat en cache (les erreurs de l'API sont propagées, jamais mises en cache)
+// Les dirigeants de la fiche alimentent l'index entreprises_dirigeants (en arrière-plan)
+async function fetchAndCache(siren: string): Promise<EntrepriseEnrichie | null> {
+  const entreprise = await entreprisesApi.fetchBySiren(siren);
 
-    return tranches[code] || 'Non renseigné';
+  if (entreprise) {
+    indexEntrepriseDirigeants(entreprise).catch(error => {
+      console.error(`[dirigeants-index] Indexation impossible pour SIREN ${siren}:`, error);
+    });
   }
+
+  if (!config.enrichmentCache.enabled) return entreprise;
+
+  let fetchedAt = new Date();
+  try {
+    fetchedAt = await storeCachedEntreprise(siren, entreprise);
+  } catch (error) {
+    console.error(`[enrichment-cache] Écriture impossible pour SIREN ${siren}:`, error);
+  }
+
+  return entreprise && { ...entreprise, cache_hit: false, fetched_at: fetchedAt };
 }
 
-// Instance singleton
-export const entreprisesApi = new EntreprisesApiClient();
+// Source "api": API Recherche Entreprises, derrière le cache entreprises_cache
+async function lookupApi(siren: string): Promise<EntrepriseEnrichie | null> {
+  if (config.enrichmentCache.enabled) {
+    try {
+      const cached = await getCachedEntreprise(siren);
+      if (cached) {
+        return cached.entreprise && { ...cached.entreprise, cache_hit: true, fetched_at: cached.fetched_at };
+      }
+    } catch (error) {
+      // Cache indisponible: l'enrichissement continue directement sur l'API
+      console.error(`[enrichment-cache] Lecture impossible pour SIREN ${siren}:`, error);
+    }
+  }
 
-// Fonction utilitaire pour enrichir un SIREN
-export async function enrichSiren(siren: string): Promise<EntrepriseEnrichie | null> {
-  return entreprisesApi.searchBySiren(siren);
+  let pending = pendingFetches.get(siren);
+  if (!pending) {
+    // Seuls les appels effectifs à l'API sont comptabilisés dans l'usage de la requête
+    countEnrichmentCall();
+    pending = fetchAndCache(siren).finally(() => pendingFetches.delete(siren));
+    pendingFetches.set(siren, pending);
+  }
+
+  return pending;
 }
 
+export const apiEnrichmentProvider: EnrichmentProvider = {
+  name: 'api',
+  lookup: lookupApi,
+};
+
 // Fonction utilitaire pour rechercher par nom
 export async function searchEntreprises(denomination: string, limit?: number): Promise<EntrepriseEnrichie[]> {
   return entreprisesApi.searchByDenomination(denomination, limit);
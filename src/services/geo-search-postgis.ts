@@ -1,19 +1,21 @@
 /**
  * Service de recherche géographique avec PostGIS
- * Utilise directement la table proprietaires_geo géocodée (97.99% de couverture)
+ * Utilise directement la table proprietaires_geo géocodée (reconstruite par POST /admin/proprietaires-geo/rebuild)
  * 
  * FIX v2.4.0 - Streaming enrichit TOUS les propriétaires avec SIREN valide (plus de limite)
  */
 
 import { pool } from './database.js';
-import { enrichSiren } from './entreprises-api.js';
+import { enrichSiren } from './enrichment.js';
 import {
   Proprietaire,
+  Propriete,
   ProprieteGroupee,
   EntrepriseEnrichie,
   Adresse,
   ReferenceCadastrale,
   LocalisationLocal,
+  SearchGeometry,
 } from '../types/index.js';
 import {
   decodeNatureVoie,
@@ -21,12 +23,20 @@ import {
   formatAdresseComplete,
   normalizeNomVoie,
 } from '../utils/abbreviations.js';
+import { encodeCursor, decodeCursor } from '../utils/cursor.js';
+import { geometryToWKT } from '../utils/geojson.js';
+import { normalizeDepartmentCode } from '../utils/table-resolver.js';
+import { describeGeocodage, GEOCODAGE_PRECISIONS } from './proprietaires-geo.js';
 
 // Limites pour la recherche géographique
 const MAX_RESULTS = 10000;
 const MAX_ENRICHMENT_BATCH = 100; // Limite pour le mode NON-streaming (batch)
+const MAX_NEAREST_RESULTS = 100; // Géocodage inverse: entrées les plus proches
 // Note: Le mode STREAMING n'a PAS de limite d'enrichissement
 
+// Clé propriétaire unique (SIREN, sinon dénomination), triée en ordre binaire pour la pagination
+const OWNER_KEY_SQL = `COALESCE(NULLIF(siren, ''), denomination)`;
+
 // Interface pour les résultats bruts de proprietaires_geo
 interface ProprietaireGeoRaw {
   id: number;
@@ -44,22 +54,45 @@ interface ProprietaireGeoRaw {
   denomination: string;
   forme_juridique: string;
   ban_type: string;
+  match_score: number | null;
   lon?: number;
   lat?: number;
 }
 
 /**
- * Convertit un polygone GeoJSON en WKT pour PostGIS
+ * Vérifie la géométrie de recherche avec PostGIS (ST_IsValid)
+ * Si repair est demandé, une géométrie invalide est corrigée avec ST_MakeValid
+ * (seules les parties surfaciques sont conservées)
  */
-function polygonToWKT(polygon: number[][]): string {
-  const coords = [...polygon];
-  if (coords[0][0] !== coords[coords.length - 1][0] || 
-      coords[0][1] !== coords[coords.length - 1][1]) {
-    coords.push(coords[0]);
+export async function prepareSearchGeometry(
+  geometry: SearchGeometry,
+  repair: boolean = false
+): Promise<{ wkt: string; valid: boolean; reason: string | null; repaired: boolean }> {
+  const wkt = geometryToWKT(geometry);
+
+  const result = await pool.query(
+    `SELECT
+       ST_IsValid(g) AS valid,
+       ST_IsValidReason(g) AS reason,
+       CASE WHEN $2 AND NOT ST_IsValid(g)
+         THEN ST_AsText(ST_CollectionExtract(ST_MakeValid(g), 3))
+       END AS repaired_wkt
+     FROM (SELECT ST_GeomFromText($1, 4326) AS g) AS input`,
+    [wkt, repair]
+  );
+
+  const row = result.rows[0];
+  if (row.valid) {
+    return { wkt, valid: true, reason: null, repaired: false };
   }
-  
-  const wktCoords = coords.map(([lon, lat]) => `${lon} ${lat}`).join(', ');
-  return `POLYGON((${wktCoords}))`;
+
+  // Réparation impossible si aucune surface ne subsiste
+  if (row.repaired_wkt && !/EMPTY/i.test(row.repaired_wkt)) {
+    console.log(`[geo-search-postgis] Géométrie réparée (${row.reason})`);
+    return { wkt: row.repaired_wkt, valid: true, reason: row.reason, repaired: true };
+  }
+
+  return { wkt, valid: false, reason: row.reason, repaired: false };
 }
 
 /**
@@ -89,6 +122,7 @@ function transformToPropiete(raw: ProprietaireGeoRaw): {
     ),
     latitude: raw.lat,
     longitude: raw.lon,
+    geocodage: describeGeocodage(raw.ban_type, raw.match_score),
   };
 
   const reference_cadastrale: ReferenceCadastrale = {
@@ -236,14 +270,17 @@ function codePostalToFilter(codePostal: string): { departement: string; communeN
  * 
  * @param adresse - L'adresse à rechercher (ex: "5 rue de bruxelles")
  * @param departement - Code département optionnel (ex: "75")
- * @param limit - Nombre max de résultats
+ * @param limit - Nombre max de propriétaires par page
  * @param codePostal - Code postal optionnel (ex: "75009")
+ * @param cursor - Curseur de la page (next_cursor de la page précédente)
  */
 export async function searchByAddressPostgis(
   adresse: string,
   departement?: string,
   limit?: number,
-  codePostal?: string
+  codePostal?: string,
+  cursor?: string,
+  throwOnError: boolean = false // jobs: une erreur de base fait échouer le job au lieu d'un résultat vide
 ): Promise<{
   resultats: Array<{
     proprietaire: Proprietaire;
@@ -254,6 +291,7 @@ export async function searchByAddressPostgis(
   }>;
   total_proprietaires: number;
   total_lots: number;
+  next_cursor: string | null;
   debug?: {
     numero_recherche: string | null;
     nom_voie_recherche: string;
@@ -262,7 +300,8 @@ export async function searchByAddressPostgis(
   };
 }> {
   const maxResults = limit || 100;
-  const emptyResult = { resultats: [], total_proprietaires: 0, total_lots: 0 };
+  const afterKey = cursor ? decodeCursor(cursor) : null;
+  const emptyResult = { resultats: [], total_proprietaires: 0, total_lots: 0, next_cursor: null };
 
   try {
     // Extraire le numéro et le nom de voie
@@ -287,7 +326,7 @@ export async function searchByAddressPostgis(
 
     // Construire la requête SQL
     const conditions: string[] = [];
-    const params: (string | number)[] = [];
+    const params: (string | number | null)[] = [];
     let paramIndex = 1;
 
     // Recherche fuzzy sur le nom de voie
@@ -320,10 +359,19 @@ export async function searchByAddressPostgis(
       paramIndex++;
     }
 
-    // Ajouter le LIMIT
-    params.push(maxResults * 10); // On récupère plus pour grouper ensuite
+    // Page de propriétaires: reprise après le curseur, maxResults + 1 pour savoir s'il reste une page
+    params.push(afterKey, maxResults + 1);
 
     const query = `
+      WITH proprietaires_page AS (
+        SELECT ${OWNER_KEY_SQL} as proprio_key
+        FROM proprietaires_geo
+        WHERE ${conditions.join(' AND ')}
+          AND ($${paramIndex}::text IS NULL OR ${OWNER_KEY_SQL} COLLATE "C" > $${paramIndex})
+        GROUP BY ${OWNER_KEY_SQL}
+        ORDER BY ${OWNER_KEY_SQL} COLLATE "C"
+        LIMIT $${paramIndex + 1}
+      )
       SELECT 
         id,
         departement,
@@ -340,11 +388,13 @@ export async function searchByAddressPostgis(
         denomination,
         forme_juridique,
         ban_type,
+        match_score,
         ST_X(geom) as lon,
         ST_Y(geom) as lat
       FROM proprietaires_geo
       WHERE ${conditions.join(' AND ')}
-      LIMIT $${paramIndex}
+        AND ${OWNER_KEY_SQL} IN (SELECT proprio_key FROM proprietaires_page)
+      ORDER BY ${OWNER_KEY_SQL} COLLATE "C", id
     `;
 
     console.log(`[searchByAddressPostgis] Query avec ${conditions.length} conditions`);
@@ -388,8 +438,12 @@ export async function searchByAddressPostgis(
       if (raw.siren) entry.sirens.add(raw.siren);
     }
 
-    // Limiter au nombre de propriétaires demandé
+    // Limiter au nombre de propriétaires demandé (le propriétaire en plus indique une page suivante)
     const proprietairesLimites = Array.from(proprietairesMap.entries()).slice(0, maxResults);
+    const nextCursor = proprietairesMap.size > maxResults
+      ? encodeCursor(proprietairesLimites[proprietairesLimites.length - 1][0])
+      : null;
+    const lotsPage = proprietairesLimites.reduce((sum, [_, value]) => sum + value.proprietes.length, 0);
 
     // Enrichir avec API Entreprises et construire les résultats
     const resultats: Array<{
@@ -435,7 +489,8 @@ export async function searchByAddressPostgis(
     return {
       resultats,
       total_proprietaires: resultats.length,
-      total_lots: result.rows.length,
+      total_lots: lotsPage,
+      next_cursor: nextCursor,
       debug: {
         numero_recherche: numero,
         nom_voie_recherche: nomVoie,
@@ -445,6 +500,7 @@ export async function searchByAddressPostgis(
     };
   } catch (error) {
     console.error('[searchByAddressPostgis] Erreur:', error);
+    if (throwOnError) throw error;
     return emptyResult;
   }
 }
@@ -464,7 +520,7 @@ export interface ProprietaireResult {
 /**
  * Type pour le callback de streaming
  */
-export type StreamCallback = (result: ProprietaireResult, index: number, total: number) => void;
+export type StreamCallback = (result: ProprietaireResult, index: number, total: number) => void | Promise<void>;
 
 /**
  * Recherche par polygone avec STREAMING PROGRESSIF
@@ -472,12 +528,12 @@ export type StreamCallback = (result: ProprietaireResult, index: number, total:
  * 
  * v2.4.0: PLUS DE LIMITE D'ENRICHISSEMENT - tous les propriétaires avec SIREN valide sont enrichis
  * 
- * @param polygon - Array de coordonnées [[lon, lat], ...] format GeoJSON
+ * @param geometryWkt - Géométrie WKT (Polygon/MultiPolygon) vérifiée par prepareSearchGeometry
  * @param limit - Nombre max de PROPRIETAIRES uniques (défaut: 5000)
  * @param onResult - Callback appelé pour chaque propriétaire enrichi
  */
 export async function searchByPolygonStreaming(
-  polygon: number[][],
+  geometryWkt: string,
   limit: number = 5000,
   onResult: StreamCallback
 ): Promise<{
@@ -500,18 +556,18 @@ export async function searchByPolygonStreaming(
   let wkt = '';
   
   try {
-    console.log(`[geo-search-postgis] STREAMING v2.4.0 - Recherche dans polygone (${polygon.length} points), limit=${limit}, enrichissement=ILLIMITE`);
+    console.log(`[geo-search-postgis] STREAMING v2.4.0 - Recherche dans la géométrie, limit=${limit}, enrichissement=ILLIMITE`);
 
-    // Validation du polygone
-    if (!polygon || !Array.isArray(polygon) || polygon.length < 3) {
-      console.warn('[geo-search-postgis] Polygone invalide');
+    // Validation de la géométrie
+    if (!geometryWkt) {
+      console.warn('[geo-search-postgis] Géométrie invalide');
       return emptyResult;
     }
 
     const effectiveLimit = Math.min(limit, MAX_RESULTS);
-    wkt = polygonToWKT(polygon);
+    wkt = geometryWkt;
     
-    console.log(`[geo-search-postgis] WKT généré: ${wkt.substring(0, 100)}...`);
+    console.log(`[geo-search-postgis] WKT: ${wkt.substring(0, 100)}...`);
 
     // ETAPE 1: Compter le VRAI nombre de propriétaires uniques dans le polygone
     const countQuery = `
@@ -561,6 +617,7 @@ export async function searchByPolygonStreaming(
         p.denomination,
         p.forme_juridique,
         p.ban_type,
+        p.match_score,
         ST_X(p.geom) as lon,
         ST_Y(p.geom) as lat
       FROM proprietaires_geo p
@@ -636,7 +693,8 @@ export async function searchByPolygonStreaming(
         coordonnees: value.coords || undefined,
       };
 
-      onResult(proprietaireResult, index, totalProprietaires);
+      // Attendu: un export en pièce jointe suspend l'enrichissement si le client lit lentement
+      await onResult(proprietaireResult, index, totalProprietaires);
       index++;
     }
 
@@ -663,12 +721,16 @@ export async function searchByPolygonStreaming(
  * FIX v5: Le limit s'applique maintenant aux PROPRIETAIRES UNIQUES, pas aux lignes SQL
  * Note: Ce mode BATCH garde une limite d'enrichissement pour éviter les timeouts
  * 
- * @param polygon - Array de coordonnées [[lon, lat], ...] format GeoJSON
- * @param limit - Nombre max de PROPRIETAIRES uniques (défaut: 5000)
+ * @param geometryWkt - Géométrie WKT (Polygon/MultiPolygon) vérifiée par prepareSearchGeometry
+ * @param limit - Nombre max de PROPRIETAIRES uniques par page (défaut: 5000)
+ * @param cursor - Curseur de la page (next_cursor de la page précédente)
+ * @param throwOnError - Relance les erreurs de base au lieu de retourner un résultat vide
  */
 export async function searchByPolygon(
-  polygon: number[][],
-  limit: number = 5000
+  geometryWkt: string,
+  limit: number = 5000,
+  cursor?: string,
+  throwOnError: boolean = false
 ): Promise<{
   resultats: Array<{
     proprietaire: Proprietaire;
@@ -681,6 +743,7 @@ export async function searchByPolygon(
   total_proprietaires: number;
   total_dans_polygone: number; // NOUVEAU: nombre réel de propriétaires dans le polygone
   total_lots: number;
+  next_cursor: string | null;
   adresses_ban_trouvees: number;
   adresses_matchees: number;
   limites_appliquees: {
@@ -700,6 +763,7 @@ export async function searchByPolygon(
     total_proprietaires: 0,
     total_dans_polygone: 0,
     total_lots: 0,
+    next_cursor: null,
     adresses_ban_trouvees: 0,
     adresses_matchees: 0,
     limites_appliquees: {
@@ -712,18 +776,19 @@ export async function searchByPolygon(
   let wkt = '';
   
   try {
-    console.log(`[geo-search-postgis] BATCH v2.4.0 - Recherche dans polygone (${polygon.length} points), limit=${limit} propriétaires`);
+    console.log(`[geo-search-postgis] BATCH v2.4.0 - Recherche dans la géométrie, limit=${limit} propriétaires`);
 
-    // Validation du polygone
-    if (!polygon || !Array.isArray(polygon) || polygon.length < 3) {
-      console.warn('[geo-search-postgis] Polygone invalide');
-      return { ...emptyResult, debug: { wkt: '', error: 'Polygone invalide (moins de 3 points)' } };
+    // Validation de la géométrie
+    if (!geometryWkt) {
+      console.warn('[geo-search-postgis] Géométrie invalide');
+      return { ...emptyResult, debug: { wkt: '', error: 'Géométrie invalide (WKT vide)' } };
     }
 
     const effectiveLimit = Math.min(limit, MAX_RESULTS);
-    wkt = polygonToWKT(polygon);
+    const afterKey = cursor ? decodeCursor(cursor) : null;
+    wkt = geometryWkt;
     
-    console.log(`[geo-search-postgis] WKT généré: ${wkt}`);
+    console.log(`[geo-search-postgis] WKT: ${wkt.substring(0, 100)}...`);
 
     // ETAPE 1: Compter le VRAI nombre de propriétaires uniques dans le polygone
     const countStart = Date.now();
@@ -757,14 +822,18 @@ export async function searchByPolygon(
     }
 
     // ETAPE 2: Récupérer les données en limitant par PROPRIETAIRE UNIQUE
+    // Page triée par clé propriétaire, reprise après le curseur (+1 pour détecter une page suivante)
     const queryStart = Date.now();
     
     const query = `
       WITH proprietaires_uniques AS (
-        SELECT DISTINCT COALESCE(NULLIF(siren, ''), denomination) as proprio_key
+        SELECT ${OWNER_KEY_SQL} as proprio_key
         FROM proprietaires_geo
         WHERE geom IS NOT NULL
           AND ST_Within(geom, ST_GeomFromText($1, 4326))
+          AND ($3::text IS NULL OR ${OWNER_KEY_SQL} COLLATE "C" > $3)
+        GROUP BY ${OWNER_KEY_SQL}
+        ORDER BY ${OWNER_KEY_SQL} COLLATE "C"
         LIMIT $2
       )
       SELECT 
@@ -783,15 +852,17 @@ export async function searchByPolygon(
         p.denomination,
         p.forme_juridique,
         p.ban_type,
+        p.match_score,
         ST_X(p.geom) as lon,
         ST_Y(p.geom) as lat
       FROM proprietaires_geo p
       WHERE p.geom IS NOT NULL
         AND ST_Within(p.geom, ST_GeomFromText($1, 4326))
         AND COALESCE(NULLIF(p.siren, ''), p.denomination) IN (SELECT proprio_key FROM proprietaires_uniques)
+      ORDER BY COALESCE(NULLIF(p.siren, ''), p.denomination) COLLATE "C", p.id
     `;
 
-    const result = await pool.query(query, [wkt, effectiveLimit]);
+    const result = await pool.query(query, [wkt, effectiveLimit + 1, afterKey]);
     const queryTime = Date.now() - queryStart;
     
     console.log(`[geo-search-postgis] ${result.rows.length} lignes pour ${effectiveLimit} propriétaires max en ${queryTime}ms`);
@@ -833,8 +904,15 @@ export async function searchByPolygon(
     }> = [];
 
     let enrichmentCount = 0;
+    let lotsPage = 0;
+
+    // Le propriétaire en plus (effectiveLimit + 1) indique seulement qu'il reste une page
+    const proprietairesPage = Array.from(proprietairesMap.entries()).slice(0, effectiveLimit);
+    const nextCursor = proprietairesMap.size > effectiveLimit
+      ? encodeCursor(proprietairesPage[proprietairesPage.length - 1][0])
+      : null;
     
-    for (const [_, value] of proprietairesMap) {
+    for (const [_, value] of proprietairesPage) {
       let entreprise: EntrepriseEnrichie | undefined;
       const sirens = Array.from(value.sirens);
 
@@ -852,6 +930,7 @@ export async function searchByPolygon(
       }
 
       const proprietesGroupees = groupProprietesParAdresse(value.proprietes);
+      lotsPage += value.proprietes.length;
 
       resultats.push({
         proprietaire: value.proprietaire,
@@ -869,7 +948,8 @@ export async function searchByPolygon(
       resultats,
       total_proprietaires: resultats.length,
       total_dans_polygone: totalDansPolygone, // Le VRAI total dans le polygone
-      total_lots: result.rows.length,
+      total_lots: lotsPage,
+      next_cursor: nextCursor,
       adresses_ban_trouvees: result.rows.length,
       adresses_matchees: result.rows.length,
       limites_appliquees: {
@@ -886,6 +966,7 @@ export async function searchByPolygon(
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
     console.error('[geo-search-postgis] Erreur critique:', error);
+    if (throwOnError) throw error;
     return { 
       ...emptyResult, 
       debug: { 
@@ -904,6 +985,7 @@ export async function getGeoStats(): Promise<{
   proprietaires_geocodes: number;
   pourcentage_geocode: number;
   par_type: Record<string, number>;
+  par_precision: Record<string, number>;
   postgis_installed: boolean;
   mode: string;
 }> {
@@ -928,12 +1010,14 @@ export async function getGeoStats(): Promise<{
     for (const row of byType.rows) {
       parType[row.ban_type || 'unknown'] = parseInt(row.cnt);
     }
+    const parPrecision = countByPrecision(byType.rows);
 
     return {
       total_proprietaires: parseInt(stats.rows[0].total),
       proprietaires_geocodes: parseInt(stats.rows[0].geocoded),
       pourcentage_geocode: parseFloat(stats.rows[0].pct),
       par_type: parType,
+      par_precision: parPrecision,
       postgis_installed: true,
       mode: 'postgis_direct_v2.4.0',
     };
@@ -944,12 +1028,145 @@ export async function getGeoStats(): Promise<{
       proprietaires_geocodes: 0,
       pourcentage_geocode: 0,
       par_type: {},
+      par_precision: {},
       postgis_installed: false,
       mode: 'error',
     };
   }
 }
 
+// Cumule des comptages par ban_type ({ ban_type, cnt }) en comptages par précision
+function countByPrecision(rows: Array<{ ban_type: string | null; cnt: string | number }>): Record<string, number> {
+  const parPrecision: Record<string, number> = {};
+  for (const row of rows) {
+    const precision = (row.ban_type && GEOCODAGE_PRECISIONS[row.ban_type]) || 'inconnue';
+    parPrecision[precision] = (parPrecision[precision] || 0) + Number(row.cnt);
+  }
+  return parPrecision;
+}
+
+export type GeoCoverageGroupBy = 'departement' | 'commune';
+
+export interface GeoCoverageEntry {
+  departement: string;
+  code_commune?: string;
+  nom_commune?: string | null;
+  total_lots: number;
+  lots_geocodes: number;
+  lots_non_geocodes: number;
+  pourcentage_geocode: number;
+  par_precision: Record<string, number>;
+}
+
+/**
+ * Couverture du géocodage par département ou par commune
+ * Les lots non géocodés (geom NULL) sont ceux sans adresse rapprochée de la BAN.
+ */
+export async function getGeoCoverage(
+  groupBy: GeoCoverageGroupBy,
+  departement?: string
+): Promise<GeoCoverageEntry[]> {
+  const keys = groupBy === 'commune' ? 'departement, code_commune' : 'departement';
+
+  const result = await pool.query(`
+    SELECT ${keys},${groupBy === 'commune' ? ' MAX(nom_commune) as nom_commune,' : ''}
+      ban_type, COUNT(*) as total, COUNT(geom) as cnt
+    FROM proprietaires_geo
+    WHERE ($1::text IS NULL OR departement = $1::text)
+    GROUP BY ${keys}, ban_type
+    ORDER BY ${keys}
+  `, [departement ? normalizeDepartmentCode(departement) : null]);
+
+  const entries = new Map<string, GeoCoverageEntry & { rows: Array<{ ban_type: string | null; cnt: string }> }>();
+  for (const row of result.rows) {
+    const key = groupBy === 'commune' ? `${row.departement}-${row.code_commune}` : row.departement;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        departement: row.departement,
+        ...(groupBy === 'commune' ? { code_commune: row.code_commune, nom_commune: row.nom_commune || null } : {}),
+        total_lots: 0,
+        lots_geocodes: 0,
+        lots_non_geocodes: 0,
+        pourcentage_geocode: 0,
+        par_precision: {},
+        rows: [],
+      };
+      entries.set(key, entry);
+    }
+    if (!entry.nom_commune && row.nom_commune && groupBy === 'commune') {
+      entry.nom_commune = row.nom_commune;
+    }
+    entry.total_lots += parseInt(row.total);
+    entry.lots_geocodes += parseInt(row.cnt);
+    if (parseInt(row.cnt) > 0) {
+      entry.rows.push({ ban_type: row.ban_type, cnt: row.cnt });
+    }
+  }
+
+  return Array.from(entries.values()).map(({ rows, ...entry }) => ({
+    ...entry,
+    lots_non_geocodes: entry.total_lots - entry.lots_geocodes,
+    pourcentage_geocode: entry.total_lots > 0
+      ? Math.round(10000 * entry.lots_geocodes / entry.total_lots) / 100
+      : 0,
+    par_precision: countByPrecision(rows),
+  }));
+}
+
+/**
+ * Couverture du géocodage pour une zone de recherche
+ * Le taux porte sur les communes touchées par la zone (les lots non géocodés n'ont pas de position),
+ * la répartition par précision sur les lots situés dans la zone.
+ * Retourne null si les statistiques ne peuvent pas être calculées.
+ */
+export async function getAreaGeocodingStats(wkt: string): Promise<{
+  communes: number;
+  total_lots: number;
+  lots_geocodes: number;
+  pourcentage_geocode: number;
+  par_precision: Record<string, number>;
+} | null> {
+  try {
+    const coverage = await pool.query(`
+      WITH communes AS (
+        SELECT DISTINCT departement, code_commune
+        FROM proprietaires_geo
+        WHERE geom IS NOT NULL
+          AND ST_Within(geom, ST_GeomFromText($1, 4326))
+      )
+      SELECT
+        (SELECT COUNT(*) FROM communes) as communes,
+        COUNT(*) as total,
+        COUNT(p.geom) as geocoded
+      FROM proprietaires_geo p
+      JOIN communes c ON c.departement = p.departement AND c.code_commune = p.code_commune
+    `, [wkt]);
+
+    const byType = await pool.query(`
+      SELECT ban_type, COUNT(*) as cnt
+      FROM proprietaires_geo
+      WHERE geom IS NOT NULL
+        AND ST_Within(geom, ST_GeomFromText($1, 4326))
+      GROUP BY ban_type
+    `, [wkt]);
+
+    const total = parseInt(coverage.rows[0].total) || 0;
+    const geocoded = parseInt(coverage.rows[0].geocoded) || 0;
+
+    return {
+      communes: parseInt(coverage.rows[0].communes) || 0,
+      total_lots: total,
+      lots_geocodes: geocoded,
+      pourcentage_geocode: total > 0 ? Math.round(10000 * geocoded / total) / 100 : 0,
+      par_precision: countByPrecision(byType.rows),
+    };
+  } catch (error) {
+    console.error('[geo-search-postgis] Erreur getAreaGeocodingStats:', error);
+    return null;
+  }
+}
+
 /**
  * Recherche par rayon autour d'un point
  */
@@ -957,7 +1174,8 @@ export async function searchByRadius(
   lon: number,
   lat: number,
   radiusMeters: number = 500,
-  limit: number = 1000
+  limit: number = 1000,
+  throwOnError: boolean = false // jobs: une erreur de base fait échouer le job au lieu d'un résultat vide
 ): Promise<{
   resultats: Array<{
     proprietaire: Proprietaire;
@@ -1010,6 +1228,7 @@ export async function searchByRadius(
         p.denomination,
         p.forme_juridique,
         p.ban_type,
+        p.match_score,
         ST_X(p.geom) as lon,
         ST_Y(p.geom) as lat,
         ST_Distance(p.geom::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) as distance
@@ -1091,6 +1310,104 @@ export async function searchByRadius(
     };
   } catch (error) {
     console.error('[geo-search-postgis] Erreur searchByRadius:', error);
+    if (throwOnError) throw error;
     return emptyResult;
   }
 }
+
+/**
+ * Géocodage inverse: propriétaires les plus proches d'un point
+ * Utilise l'opérateur KNN <-> (index GIST sur geom) pour trier par distance sans rayon,
+ * puis calcule la distance exacte en mètres sur les candidats retenus.
+ *
+ * @param lon - Longitude du point
+ * @param lat - Latitude du point
+ * @param limit - Nombre d'entrées de proprietaires_geo les plus proches (défaut: 10)
+ */
+export async function searchNearest(
+  lon: number,
+  lat: number,
+  limit: number = 10
+): Promise<{
+  resultats: Array<{
+    proprietaire: Proprietaire;
+    propriete: Propriete;
+    entreprise?: EntrepriseEnrichie;
+    distance_metres: number;
+  }>;
+  total: number;
+  limites_appliquees: {
+    max_resultats: number;
+    max_enrichissement: number;
+  };
+}> {
+  const effectiveLimit = Math.min(limit, MAX_NEAREST_RESULTS);
+
+  const query = `
+    WITH plus_proches AS (
+      SELECT
+        id,
+        departement,
+        code_commune,
+        nom_commune,
+        prefixe_section,
+        section,
+        numero_plan,
+        numero_voirie,
+        nature_voie,
+        nom_voie,
+        adresse_complete,
+        siren,
+        denomination,
+        forme_juridique,
+        ban_type,
+        match_score,
+        geom
+      FROM proprietaires_geo
+      WHERE geom IS NOT NULL
+      ORDER BY geom <-> ST_SetSRID(ST_MakePoint($1, $2), 4326)
+      LIMIT $3
+    )
+    SELECT
+      plus_proches.*,
+      ST_X(geom) as lon,
+      ST_Y(geom) as lat,
+      ST_Distance(geom::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) as distance
+    FROM plus_proches
+    ORDER BY distance, id
+  `;
+
+  const result = await pool.query(query, [lon, lat, effectiveLimit]);
+
+  // Enrichir chaque SIREN une seule fois (plusieurs lots proches ont souvent le même propriétaire)
+  const entreprises = new Map<string, EntrepriseEnrichie | undefined>();
+  const resultats = [];
+
+  for (const raw of result.rows) {
+    const propriete = transformToPropiete(raw);
+
+    if (raw.siren && raw.siren.length === 9 && !entreprises.has(raw.siren) && entreprises.size < MAX_ENRICHMENT_BATCH) {
+      try {
+        entreprises.set(raw.siren, await enrichSiren(raw.siren) || undefined);
+      } catch (e) {
+        entreprises.set(raw.siren, undefined);
+      }
+    }
+
+    resultats.push({
+      proprietaire: propriete.proprietaire,
+      propriete,
+      entreprise: raw.siren ? entreprises.get(raw.siren) : undefined,
+      distance_metres: Math.round(raw.distance * 10) / 10,
+    });
+  }
+
+  return {
+    resultats,
+    total: resultats.length,
+    limites_appliquees: {
+      max_resultats: effectiveLimit,
+      max_enrichissement: MAX_ENRICHMENT_BATCH,
+    },
+  };
+}
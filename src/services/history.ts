@@ -0,0 +1,259 @@
+/**
+ * Historique des détentions entre millésimes MAJIC
+ * Chaque millésime chargé est relu (tables pm_AA_b_*) puis comparé au précédent, parcelle par parcelle
+ * (reference_complete) et titulaire par titulaire (SIREN, sinon dénomination) : acquisitions,
+ * cessions, changements de type de droit et changements de dénomination d'un même SIREN.
+ * Seuls les départements chargés dans tous les millésimes comparés sont relus, et une table
+ * illisible fait échouer la comparaison (ses lots apparaîtraient sinon cédés ou acquis).
+ */
+
+import { transformToPropiete, queryReferenceRows, resolveSirenTables } from './search.js';
+import {
+  listAvailableMillesimes,
+  getDefaultMillesime,
+  listCommonDepartments,
+  normalizeDepartmentCode,
+  extractDepartmentFromTable,
+} from '../utils/table-resolver.js';
+import { queryTables, assertNoTableErrors } from '../utils/table-query.js';
+import {
+  LocalRaw,
+  Adresse,
+  Proprietaire,
+  ReferenceCadastrale,
+  ReferenceCadastraleQuery,
+  HistoryEvent,
+  HistoryEventType,
+  HistoryPeriod,
+  HistoryVintage,
+} from '../types/index.js';
+
+// Parcelle détenue par un titulaire dans un millésime
+interface Holding {
+  proprietaire: Proprietaire;
+  reference_cadastrale: ReferenceCadastrale;
+  adresse: Adresse;
+  droits: Map<string, string>; // code -> libellé
+  nombre_lots: number;
+}
+
+// Détentions d'un millésime, par titulaire puis par parcelle
+interface VintageSnapshot {
+  millesime: number;
+  titulaires: Map<string, { proprietaire: Proprietaire; nombre_lots: number; holdings: Map<string, Holding> }>;
+  nombre_lots: number;
+}
+
+export interface HistoryResult {
+  millesimes: HistoryVintage[];
+  periodes: HistoryPeriod[];
+  nombre_titulaires: number; // Titulaires concernés par au moins un changement
+  departements_exclus: string[]; // Départements absents d'une partie des millésimes, non comparés
+}
+
+// Clé titulaire: SIREN, sinon dénomination (comme /search/parcel)
+function titulaireKey(proprietaire: Proprietaire): string {
+  return proprietaire.siren || proprietaire.denomination || 'inconnu';
+}
+
+function buildSnapshot(millesime: number, rows: LocalRaw[]): VintageSnapshot {
+  const snapshot: VintageSnapshot = { millesime, titulaires: new Map(), nombre_lots: rows.length };
+
+  for (const propriete of rows.map(transformToPropiete)) {
+    const key = titulaireKey(propriete.proprietaire);
+    let titulaire = snapshot.titulaires.get(key);
+    if (!titulaire) {
+      titulaire = { proprietaire: propriete.proprietaire, nombre_lots: 0, holdings: new Map() };
+      snapshot.titulaires.set(key, titulaire);
+    }
+    titulaire.nombre_lots++;
+
+    const reference = propriete.reference_cadastrale.reference_complete;
+    let holding = titulaire.holdings.get(reference);
+    if (!holding) {
+      holding = {
+        proprietaire: propriete.proprietaire,
+        reference_cadastrale: propriete.reference_cadastrale,
+        adresse: propriete.adresse,
+        droits: new Map(),
+        nombre_lots: 0,
+      };
+      titulaire.holdings.set(reference, holding);
+    }
+    holding.droits.set(propriete.proprietaire.type_droit_code, propriete.proprietaire.type_droit);
+    holding.nombre_lots++;
+  }
+
+  return snapshot;
+}
+
+function droitsList(holding: Holding | undefined): Array<{ type_droit: string; type_droit_code: string }> {
+  if (!holding) return [];
+  return Array.from(holding.droits, ([type_droit_code, type_droit]) => ({ type_droit, type_droit_code }))
+    .sort((a, b) => a.type_droit_code.localeCompare(b.type_droit_code));
+}
+
+function sameDroits(avant: Holding, apres: Holding): boolean {
+  if (avant.droits.size !== apres.droits.size) return false;
+  return Array.from(avant.droits.keys()).every(code => apres.droits.has(code));
+}
+
+function holdingEvent(type: HistoryEventType, avant: Holding | undefined, apres: Holding | undefined): HistoryEvent {
+  const courant = (apres || avant)!;
+  return {
+    type,
+    siren: courant.proprietaire.siren,
+    denomination: courant.proprietaire.denomination,
+    reference_cadastrale: courant.reference_cadastrale,
+    adresse: courant.adresse,
+    droits_avant: droitsList(avant),
+    droits_apres: droitsList(apres),
+    nombre_lots_avant: avant?.nombre_lots || 0,
+    nombre_lots_apres: apres?.nombre_lots || 0,
+  };
+}
+
+// Changements entre deux millésimes consécutifs
+function diffSnapshots(avant: VintageSnapshot, apres: VintageSnapshot): HistoryPeriod {
+  const evenements: HistoryEvent[] = [];
+  const keys = new Set([...avant.titulaires.keys(), ...apres.titulaires.keys()]);
+
+  for (const key of keys) {
+    const titulaireAvant = avant.titulaires.get(key);
+    const titulaireApres = apres.titulaires.get(key);
+
+    // Même SIREN, dénomination modifiée (un titulaire sans SIREN renommé apparaît en cession + acquisition)
+    if (titulaireAvant && titulaireApres && titulaireApres.proprietaire.siren
+      && titulaireAvant.proprietaire.denomination !== titulaireApres.proprietaire.denomination) {
+      evenements.push({
+        type: 'changement_denomination',
+        siren: titulaireApres.proprietaire.siren,
+        denomination: titulaireApres.proprietaire.denomination,
+        reference_cadastrale: null,
+        adresse: null,
+        droits_avant: [],
+        droits_apres: [],
+        nombre_lots_avant: titulaireAvant.nombre_lots,
+        nombre_lots_apres: titulaireApres.nombre_lots,
+        denomination_avant: titulaireAvant.proprietaire.denomination,
+        denomination_apres: titulaireApres.proprietaire.denomination,
+      });
+    }
+
+    const holdingsAvant = titulaireAvant?.holdings || new Map<string, Holding>();
+    const holdingsApres = titulaireApres?.holdings || new Map<string, Holding>();
+
+    for (const [reference, holding] of holdingsApres) {
+      const previous = holdingsAvant.get(reference);
+      if (!previous) {
+        evenements.push(holdingEvent('acquisition', undefined, holding));
+      } else if (!sameDroits(previous, holding)) {
+        evenements.push(holdingEvent('changement_droit', previous, holding));
+      }
+    }
+
+    for (const [reference, holding] of holdingsAvant) {
+      if (!holdingsApres.has(reference)) {
+        evenements.push(holdingEvent('cession', holding, undefined));
+      }
+    }
+  }
+
+  // Changements de dénomination d'abord, puis par parcelle
+  evenements.sort((a, b) =>
+    (a.reference_cadastrale?.reference_complete || '').localeCompare(b.reference_cadastrale?.reference_complete || '')
+    || a.denomination.localeCompare(b.denomination)
+  );
+
+  const resume: Record<HistoryEventType, number> = {
+    acquisition: 0,
+    cession: 0,
+    changement_droit: 0,
+    changement_denomination: 0,
+  };
+  for (const evenement of evenements) {
+    resume[evenement.type]++;
+  }
+
+  return { de: avant.millesime, a: apres.millesime, evenements, resume };
+}
+
+// Relit chaque millésime (dans l'ordre) et compare chaque millésime au précédent
+async function buildHistory(
+  millesimes: number[],
+  departementsExclus: string[],
+  fetchRows: (millesime: number) => Promise<LocalRaw[]>
+): Promise<HistoryResult> {
+  const snapshots: VintageSnapshot[] = [];
+  for (const millesime of millesimes) {
+    snapshots.push(buildSnapshot(millesime, await fetchRows(millesime)));
+  }
+
+  const periodes: HistoryPeriod[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    periodes.push(diffSnapshots(snapshots[i - 1], snapshots[i]));
+  }
+
+  const titulaires = new Set<string>();
+  for (const periode of periodes) {
+    for (const evenement of periode.evenements) {
+      titulaires.add(evenement.siren || evenement.denomination);
+    }
+  }
+
+  return {
+    millesimes: snapshots.map(snapshot => ({
+      millesime: snapshot.millesime,
+      nombre_titulaires: snapshot.titulaires.size,
+      nombre_references: new Set(
+        Array.from(snapshot.titulaires.values()).flatMap(t => Array.from(t.holdings.keys()))
+      ).size,
+      nombre_lots: snapshot.nombre_lots,
+    })),
+    periodes,
+    nombre_titulaires: titulaires.size,
+    departements_exclus: departementsExclus,
+  };
+}
+
+/**
+ * Millésimes chargés entre depuis (défaut: le plus ancien) et jusquA (défaut: millésime par défaut des recherches)
+ */
+export async function resolveHistoryMillesimes(depuis?: number, jusquA?: number): Promise<number[]> {
+  const millesimes = await listAvailableMillesimes();
+  const fin = jusquA ?? await getDefaultMillesime();
+  if (fin === null) return [];
+  const debut = depuis ?? millesimes[0];
+  return millesimes.filter(m => m >= debut && m <= fin);
+}
+
+/**
+ * Historique des titulaires d'une parcelle entre millésimes
+ */
+export async function getParcelHistory(reference: ReferenceCadastraleQuery, millesimes: number[]): Promise<HistoryResult> {
+  const { communs } = await listCommonDepartments(millesimes);
+  const departement = normalizeDepartmentCode(reference.departement);
+
+  if (!communs.includes(departement)) {
+    return buildHistory(millesimes, [departement], async () => []);
+  }
+  return buildHistory(millesimes, [], millesime => queryReferenceRows(reference, millesime, true));
+}
+
+/**
+ * Historique des parcelles détenues par un SIREN entre millésimes
+ */
+export async function getSirenHistory(siren: string, departement: string | undefined, millesimes: number[]): Promise<HistoryResult> {
+  const { communs, exclus } = await listCommonDepartments(millesimes);
+  const departementsExclus = departement
+    ? exclus.filter(d => d === normalizeDepartmentCode(departement))
+    : exclus;
+
+  return buildHistory(millesimes, departementsExclus, async millesime => {
+    const { tables } = await resolveSirenTables(siren, departement, millesime);
+    const comparables = tables.filter(t => communs.includes(normalizeDepartmentCode(extractDepartmentFromTable(t))));
+    const { rows, timings } = await queryTables<LocalRaw>(comparables, table => `SELECT * FROM "${table}" WHERE "n°_siren" = $1`, [siren]);
+    assertNoTableErrors(timings);
+    return rows;
+  });
+}
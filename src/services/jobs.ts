@@ -0,0 +1,461 @@
+/**
+ * Service de jobs d'export asynchrones
+ * Un job exécute une recherche en arrière-plan et stocke ses résultats dans export_job_results.
+ * L'état vit en base: un job interrompu (redémarrage, crash) est repris par le worker
+ * au démarrage suivant, grâce au bail (lease_id) et au heartbeat du worker qui l'exécute.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { pool } from './database.js';
+import { searchBySiren, searchByDenomination } from './search.js';
+import { searchByAddressPostgis, searchByPolygonStreaming, searchByRadius } from './geo-search-postgis.js';
+import { config } from '../config/index.js';
+import { ExportJob, JobSearchDefinition, ResultatProprietaire } from '../types/index.js';
+
+// Tentatives max d'un job interrompu avant de le déclarer en échec
+const MAX_JOB_ATTEMPTS = 3;
+// Un job "running" sans heartbeat depuis ce délai est considéré comme abandonné
+const STALE_JOB_SECONDS = 300;
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Propriétaires écrits par INSERT
+const RESULT_BATCH_SIZE = 100;
+
+// Fin des jobs: 'completed' / 'failed' avec le job terminé (écouté par les webhooks)
+export const jobEmitter = new EventEmitter();
+
+const JOB_COLUMNS = `
+  id, api_key_id, type, params, status, progress, total,
+  total_proprietaires, total_lots, error, attempts,
+  created_at, started_at, finished_at, expires_at
+`;
+
+/**
+ * Crée les tables export_jobs et export_job_results si elles n'existent pas
+ */
+export async function setupJobsTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS export_jobs (
+      id TEXT PRIMARY KEY,
+      api_key_id INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      params JSONB NOT NULL,
+      geometry_wkt TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      progress INTEGER NOT NULL DEFAULT 0,
+      total INTEGER,
+      total_proprietaires INTEGER NOT NULL DEFAULT 0,
+      total_lots INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      lease_id TEXT,
+      heartbeat_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMP,
+      finished_at TIMESTAMP,
+      expires_at TIMESTAMP
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs(status, created_at)');
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_export_jobs_key ON export_jobs(api_key_id, created_at)');
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS export_job_results (
+      job_id TEXT NOT NULL REFERENCES export_jobs(id) ON DELETE CASCADE,
+      seq INTEGER NOT NULL,
+      data JSONB NOT NULL,
+      PRIMARY KEY (job_id, seq)
+    )
+  `);
+}
+
+// Mappe une ligne de la table export_jobs vers le type ExportJob
+function mapJobRow(row: any): ExportJob {
+  return {
+    id: row.id,
+    api_key_id: row.api_key_id,
+    type: row.type,
+    params: row.params,
+    status: row.status,
+    progress: row.progress,
+    total: row.total,
+    total_proprietaires: row.total_proprietaires,
+    total_lots: row.total_lots,
+    error: row.error,
+    attempts: row.attempts,
+    created_at: row.created_at,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+    expires_at: row.expires_at,
+  } as ExportJob;
+}
+
+/**
+ * Enregistre un job en attente
+ * @param geometryWkt - Géométrie vérifiée par prepareSearchGeometry (jobs geo)
+ */
+export async function createJob(
+  apiKeyId: number,
+  definition: JobSearchDefinition,
+  geometryWkt?: string
+): Promise<ExportJob> {
+  const result = await pool.query(
+    `INSERT INTO export_jobs (id, api_key_id, type, params, geometry_wkt)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${JOB_COLUMNS}`,
+    [randomUUID(), apiKeyId, definition.type, JSON.stringify(definition.params), geometryWkt ?? null]
+  );
+
+  return mapJobRow(result.rows[0]);
+}
+
+/**
+ * Récupère un job (null s'il n'existe pas ou a expiré)
+ */
+export async function getJob(id: string): Promise<ExportJob | null> {
+  const result = await pool.query(
+    `SELECT ${JOB_COLUMNS} FROM export_jobs
+     WHERE id = $1 AND (expires_at IS NULL OR expires_at > NOW())`,
+    [id]
+  );
+
+  return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+}
+
+/**
+ * Nombre de jobs en attente ou en cours d'une clé
+ */
+export async function countActiveJobs(apiKeyId: number): Promise<number> {
+  const result = await pool.query(
+    `SELECT COUNT(*) AS count FROM export_jobs
+     WHERE api_key_id = $1 AND status IN ('pending', 'running')`,
+    [apiKeyId]
+  );
+
+  return parseInt(result.rows[0].count) || 0;
+}
+
+/**
+ * Lit les résultats d'un job par lots, dans l'ordre (seq > afterSeq)
+ */
+export async function getJobResults(
+  id: string,
+  afterSeq: number,
+  limit: number
+): Promise<Array<{ seq: number; data: ResultatProprietaire }>> {
+  const result = await pool.query(
+    `SELECT seq, data FROM export_job_results
+     WHERE job_id = $1 AND seq > $2
+     ORDER BY seq
+     LIMIT $3`,
+    [id, afterSeq, limit]
+  );
+
+  return result.rows;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+// Le bail du job a été repris (job déclaré abandonné puis relancé ailleurs)
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} repris par un autre worker`);
+  }
+}
+
+interface ClaimedJob {
+  job: ExportJob;
+  lease: string;
+  geometryWkt: string | null;
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerBusy = false;
+let currentJob: ClaimedJob | null = null;
+
+// Remet en attente (ou en échec) les jobs dont le worker ne donne plus signe de vie
+async function requeueStaleJobs(): Promise<void> {
+  const result = await pool.query(
+    `UPDATE export_jobs SET
+       status = CASE WHEN attempts >= $1 THEN 'failed' ELSE 'pending' END,
+       error = CASE WHEN attempts >= $1 THEN 'Job interrompu trop de fois' ELSE error END,
+       finished_at = CASE WHEN attempts >= $1 THEN NOW() ELSE NULL END,
+       expires_at = CASE WHEN attempts >= $1 THEN NOW() + make_interval(days => $3) ELSE NULL END,
+       lease_id = NULL
+     WHERE status = 'running' AND heartbeat_at < NOW() - make_interval(secs => $2)
+     RETURNING ${JOB_COLUMNS}`,
+    [MAX_JOB_ATTEMPTS, STALE_JOB_SECONDS, config.jobs.retentionDays]
+  );
+
+  for (const row of result.rows) {
+    console.warn(`[jobs] Job ${row.id} abandonné par son worker -> ${row.status}`);
+    // Échec définitif (worker tombé à chaque tentative): notifié comme un échec d'exécution
+    if (row.status === 'failed') {
+      jobEmitter.emit('failed', mapJobRow(row));
+    }
+  }
+}
+
+// Réserve le plus ancien job en attente (SKIP LOCKED: plusieurs instances peuvent tourner)
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const lease = randomUUID();
+  const result = await pool.query(
+    `UPDATE export_jobs SET
+       status = 'running',
+       lease_id = $1,
+       heartbeat_at = NOW(),
+       started_at = NOW(),
+       attempts = attempts + 1,
+       progress = 0,
+       total = NULL,
+       total_proprietaires = 0,
+       total_lots = 0
+     WHERE id = (
+       SELECT id FROM export_jobs
+       WHERE status = 'pending'
+       ORDER BY created_at
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING ${JOB_COLUMNS}, geometry_wkt`,
+    [lease]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  // Reprise: les résultats partiels d'une tentative précédente sont repris de zéro
+  await pool.query('DELETE FROM export_job_results WHERE job_id = $1', [row.id]);
+
+  return { job: mapJobRow(row), lease, geometryWkt: row.geometry_wkt };
+}
+
+// Supprime les jobs terminés expirés (les résultats suivent par ON DELETE CASCADE)
+async function purgeExpiredJobs(): Promise<void> {
+  const result = await pool.query('DELETE FROM export_jobs WHERE expires_at < NOW()');
+  if (result.rowCount) {
+    console.log(`[jobs] ${result.rowCount} job(s) expiré(s) supprimé(s)`);
+  }
+}
+
+// Termine un job (completed ou failed), uniquement si le bail est toujours détenu
+async function finishJob(claimed: ClaimedJob, error: string | null): Promise<void> {
+  const result = await pool.query(
+    `UPDATE export_jobs SET
+       status = $3,
+       error = $4,
+       lease_id = NULL,
+       finished_at = NOW(),
+       expires_at = NOW() + make_interval(days => $5)
+     WHERE id = $1 AND lease_id = $2
+     RETURNING ${JOB_COLUMNS}`,
+    [claimed.job.id, claimed.lease, error ? 'failed' : 'completed', error, config.jobs.retentionDays]
+  );
+
+  if (result.rows.length > 0) {
+    jobEmitter.emit(error ? 'failed' : 'completed', mapJobRow(result.rows[0]));
+  }
+}
+
+// Exécute la recherche du job, en transmettant les résultats par lots à emit
+// (les recherches relancent les erreurs de base: le job passe en échec au lieu de se terminer vide)
+async function executeSearch(
+  claimed: ClaimedJob,
+  emit: (resultats: ResultatProprietaire[], total?: number) => Promise<void>
+): Promise<void> {
+  const job = claimed.job;
+
+  switch (job.type) {
+    case 'address': {
+      // Toutes les pages, jusqu'à épuisement du curseur
+      let cursor: string | undefined;
+      do {
+        const page = await searchByAddressPostgis(
+          job.params.adresse, job.params.departement, config.search.maxLimit, job.params.code_postal, cursor, true
+        );
+        await emit(page.resultats);
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+      return;
+    }
+
+    case 'owner': {
+      let cursor: string | undefined;
+      do {
+        const page = await searchByDenomination(
+          job.params.denomination, job.params.departement, config.search.maxLimit, cursor, job.params.millesime
+        );
+        await emit(page.resultats);
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+      return;
+    }
+
+    case 'siren': {
+      const result = await searchBySiren(job.params.siren, job.params.departement, job.params.millesime);
+      const resultats = result.proprietaire
+        ? [{ proprietaire: result.proprietaire, entreprise: result.entreprise, proprietes: result.proprietes }]
+        : [];
+      await emit(resultats, resultats.length);
+      return;
+    }
+
+    case 'radius': {
+      const { longitude, latitude, radius_meters, limit } = job.params;
+      const result = await searchByRadius(longitude, latitude, radius_meters, limit || 1000, true);
+      await emit(result.resultats, result.resultats.length);
+      return;
+    }
+
+    case 'geo': {
+      if (!claimed.geometryWkt) {
+        throw new Error('Géométrie du job manquante');
+      }
+
+      // Mode streaming: toute la zone, enrichissement illimité; écriture par lots
+      let buffer: ResultatProprietaire[] = [];
+      let expectedTotal: number | undefined;
+      let writes = Promise.resolve();
+      const flush = () => {
+        const batch = buffer;
+        buffer = [];
+        writes = writes.then(() => emit(batch, expectedTotal));
+        return writes;
+      };
+
+      const stats = await searchByPolygonStreaming(
+        claimed.geometryWkt,
+        job.params.limit || 10000,
+        (result, _index, total) => {
+          expectedTotal = total;
+          buffer.push(result);
+          if (buffer.length >= RESULT_BATCH_SIZE) {
+            void flush().catch(() => undefined); // l'erreur est relue par le await final
+          }
+        }
+      );
+
+      expectedTotal = stats.total_proprietaires;
+      await flush();
+      return;
+    }
+  }
+}
+
+// Exécute un job réservé, avec heartbeat tant qu'il tourne
+async function runJob(claimed: ClaimedJob): Promise<void> {
+  const { job, lease } = claimed;
+  console.log(`[jobs] Démarrage job ${job.id} (${job.type}, tentative ${job.attempts})`);
+
+  currentJob = claimed;
+  const heartbeat = setInterval(() => {
+    pool.query('UPDATE export_jobs SET heartbeat_at = NOW() WHERE id = $1 AND lease_id = $2', [job.id, lease])
+      .catch(error => console.error(`[jobs] Erreur heartbeat job ${job.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let seq = 0;
+
+  // Écrit un lot de résultats et met à jour la progression (échoue si le bail est perdu)
+  const emit = async (resultats: ResultatProprietaire[], total?: number): Promise<void> => {
+    const lots = resultats.reduce(
+      (sum, r) => sum + r.proprietes.reduce((s, p) => s + p.nombre_lots, 0),
+      0
+    );
+
+    const rows = resultats.map(data => ({ seq: ++seq, data }));
+    if (rows.length > 0) {
+      await pool.query(
+        `INSERT INTO export_job_results (job_id, seq, data)
+         SELECT $1, (r->>'seq')::int, r->'data'
+         FROM jsonb_array_elements($2::jsonb) AS r
+         WHERE EXISTS (SELECT 1 FROM export_jobs WHERE id = $1 AND lease_id = $3)`,
+        [job.id, JSON.stringify(rows), lease]
+      );
+    }
+
+    const update = await pool.query(
+      `UPDATE export_jobs SET
+         progress = progress + $3,
+         total = COALESCE($4, total),
+         total_proprietaires = total_proprietaires + $3,
+         total_lots = total_lots + $5,
+         heartbeat_at = NOW()
+       WHERE id = $1 AND lease_id = $2`,
+      [job.id, lease, resultats.length, total ?? null, lots]
+    );
+
+    if (update.rowCount === 0) {
+      throw new LeaseLostError(job.id);
+    }
+  };
+
+  try {
+    await executeSearch(claimed, emit);
+    await finishJob(claimed, null);
+    console.log(`[jobs] Job ${job.id} terminé (${seq} propriétaires)`);
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      console.warn(`[jobs] ${error.message}`);
+    } else {
+      console.error(`[jobs] Erreur job ${job.id}:`, error);
+      await finishJob(claimed, error instanceof Error ? error.message : 'Erreur inconnue')
+        .catch(e => console.error(`[jobs] Erreur fin de job ${job.id}:`, e));
+    }
+  } finally {
+    clearInterval(heartbeat);
+    currentJob = null;
+  }
+}
+
+// Un passage du worker: reprise des jobs abandonnés, exécution des jobs en attente, purge
+async function pollJobs(): Promise<void> {
+  if (workerBusy) return;
+  workerBusy = true;
+
+  try {
+    await requeueStaleJobs();
+
+    let claimed: ClaimedJob | null;
+    while (workerTimer && (claimed = await claimNextJob())) {
+      await runJob(claimed);
+    }
+
+    await purgeExpiredJobs();
+  } catch (error) {
+    console.error('[jobs] Erreur worker:', error);
+  } finally {
+    workerBusy = false;
+  }
+}
+
+/**
+ * Démarre le worker (un job à la fois par instance)
+ */
+export function startJobWorker(): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(() => void pollJobs(), config.jobs.pollIntervalMs);
+  void pollJobs();
+  console.log(`[jobs] Worker démarré (intervalle ${config.jobs.pollIntervalMs} ms)`);
+}
+
+/**
+ * Arrête le worker; le job en cours est remis en attente pour être repris au redémarrage
+ */
+export async function stopJobWorker(): Promise<void> {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+
+  if (currentJob) {
+    await pool.query(
+      `UPDATE export_jobs SET status = 'pending', lease_id = NULL, attempts = GREATEST(attempts - 1, 0)
+       WHERE id = $1 AND lease_id = $2`,
+      [currentJob.job.id, currentJob.lease]
+    );
+    console.log(`[jobs] Job ${currentJob.job.id} remis en attente (arrêt du serveur)`);
+  }
+}
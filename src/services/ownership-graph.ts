@@ -0,0 +1,227 @@
+/**
+ * Graphe de contrôle et groupe d'une entreprise
+ * Remonte les dirigeants personnes morales (API Recherche Entreprises) comme
+ * resolveBeneficiairesEffectifs, mais conserve la structure: noeuds (sociétés, personnes
+ * physiques) et arêtes (qualité), avec les participations circulaires et les branches
+ * coupées par la profondeur maximale. Le groupe suit aussi la chaîne vers l'aval
+ * (sociétés dirigées), pour retrouver les sociétés soeurs (SCI d'une même holding).
+ */
+
+import { entreprisesApi } from './entreprises-api.js';
+import { countEnrichmentCall } from '../utils/usage-context.js';
+import { ControlGraph, ControlGraphEdge, ControlGraphNode, GroupEntity, GroupLink } from '../types/index.js';
+
+// Nombre max de sociétés d'un groupe (chaque société coûte un ou deux appels à l'API)
+export const MAX_GROUP_ENTITIES = 50;
+
+// Identifiant stable d'une personne physique (l'API ne fournit pas d'identifiant)
+function personId(d: any): string {
+  return 'pp:' + [d.nom, d.prenoms, d.annee_de_naissance].map(v => String(v ?? '').trim().toUpperCase()).join('|');
+}
+
+function personLabel(d: any): string {
+  return [d.prenoms, d.nom].filter(Boolean).join(' ') || 'Personne physique';
+}
+
+/**
+ * Construit le graphe de contrôle d'un SIREN (null si l'entreprise est introuvable)
+ * Les erreurs de l'API sur l'entreprise racine sont propagées; sur une société intermédiaire,
+ * le noeud est marqué unresolved et le parcours continue.
+ * @param maxDepth - Les personnes morales à cette distance de la racine ne sont pas remontées
+ */
+export async function buildControlGraph(siren: string, maxDepth: number): Promise<ControlGraph | null> {
+  countEnrichmentCall();
+  const rootRaw = await entreprisesApi.fetchRawBySiren(siren);
+  if (!rootRaw) return null;
+
+  const rootId = `pm:${siren}`;
+  const nodes = new Map<string, ControlGraphNode>();
+  const edges: ControlGraphEdge[] = [];
+  // Sociétés de la chaîne en cours de parcours: une arête vers l'une d'elles ferme un cycle
+  const onPath = new Set<string>();
+
+  nodes.set(rootId, {
+    id: rootId,
+    type: 'personne_morale',
+    label: rootRaw.nom_complet || siren,
+    siren,
+    depth: 0,
+  });
+
+  // Parcours en profondeur: une société déjà rencontrée n'est remontée qu'une fois
+  async function expand(companyId: string, raw: any, depth: number): Promise<void> {
+    onPath.add(companyId);
+
+    for (const d of raw.dirigeants || []) {
+      const qualite = d.qualite || '';
+
+      if (d.type_dirigeant === 'personne physique') {
+        const id = personId(d);
+        if (!nodes.has(id)) {
+          nodes.set(id, {
+            id,
+            type: 'personne_physique',
+            label: personLabel(d),
+            nom: d.nom || '',
+            prenoms: d.prenoms || '',
+            annee_naissance: d.annee_de_naissance?.toString() || undefined,
+            depth: depth + 1,
+          });
+        }
+        edges.push({ from: id, to: companyId, qualite });
+        continue;
+      }
+
+      if (d.type_dirigeant !== 'personne morale') continue;
+
+      // Personne morale sans SIREN (société étrangère...): pas de remontée possible
+      const id = d.siren ? `pm:${d.siren}` : `pm:?${String(d.denomination || '').trim().toUpperCase()}`;
+      const edge: ControlGraphEdge = { from: id, to: companyId, qualite };
+      if (onPath.has(id)) edge.cycle = true;
+      edges.push(edge);
+
+      if (nodes.has(id)) continue;
+
+      const node: ControlGraphNode = {
+        id,
+        type: 'personne_morale',
+        label: d.denomination || d.siren || 'Personne morale',
+        siren: d.siren || undefined,
+        depth: depth + 1,
+      };
+      nodes.set(id, node);
+
+      if (!d.siren) {
+        node.unresolved = true;
+        continue;
+      }
+
+      if (depth + 1 >= maxDepth) {
+        node.truncated = true;
+        continue;
+      }
+
+      let childRaw: any | null;
+      try {
+        countEnrichmentCall();
+        childRaw = await entreprisesApi.fetchRawBySiren(d.siren);
+      } catch (error) {
+        console.error(`Erreur graphe de contrôle pour SIREN ${d.siren}:`, error);
+        childRaw = null;
+      }
+
+      if (!childRaw) {
+        node.unresolved = true;
+        continue;
+      }
+
+      node.label = childRaw.nom_complet || node.label;
+      await expand(id, childRaw, depth + 1);
+    }
+
+    onPath.delete(companyId);
+  }
+
+  await expand(rootId, rootRaw, 0);
+
+  const nodeList = Array.from(nodes.values());
+  return {
+    root: rootId,
+    max_depth: maxDepth,
+    nodes: nodeList,
+    edges,
+    cycles: edges.filter(e => e.cycle).length,
+    truncated: nodeList.filter(n => n.truncated).length,
+  };
+}
+
+// Dénomination utilisée pour rechercher les sociétés dirigées (sans le sigle de nom_complet)
+function searchName(raw: any): string {
+  return raw.nom_raison_sociale || raw.nom_complet || '';
+}
+
+/**
+ * Collecte les sociétés du groupe d'un SIREN (null si l'entreprise est introuvable)
+ * Parcours en largeur dans les deux sens de la chaîne de contrôle: sociétés dirigeantes (amont)
+ * et sociétés dirigées (aval), jusqu'à maxDepth liens de la racine et MAX_GROUP_ENTITIES sociétés.
+ * truncated: limite de sociétés atteinte, ou sociétés dirigées d'une société non toutes examinées.
+ * Les erreurs de l'API sur l'entreprise racine sont propagées.
+ */
+export async function collectGroupEntities(
+  siren: string,
+  maxDepth: number
+): Promise<{ entites: GroupEntity[]; truncated: boolean } | null> {
+  countEnrichmentCall();
+  const rootRaw = await entreprisesApi.fetchRawBySiren(siren);
+  if (!rootRaw) return null;
+
+  const root: GroupEntity = { siren, denomination: rootRaw.nom_complet || siren, profondeur: 0, chemin: [] };
+  const entites = new Map<string, GroupEntity>([[siren, root]]);
+  // raw: résultat de l'API déjà connu (racine, sociétés dirigées), sinon à récupérer
+  const queue: Array<{ entite: GroupEntity; raw: any | null }> = [{ entite: root, raw: rootRaw }];
+  let truncated = false;
+  let incomplete = false;
+
+  while (queue.length > 0 && !truncated) {
+    const { entite, raw: knownRaw } = queue.shift()!;
+    if (entite.profondeur >= maxDepth) continue;
+
+    let raw = knownRaw;
+    if (!raw) {
+      try {
+        countEnrichmentCall();
+        raw = await entreprisesApi.fetchRawBySiren(entite.siren);
+      } catch (error) {
+        console.error(`Erreur groupe pour SIREN ${entite.siren}:`, error);
+      }
+      if (!raw) {
+        entite.unresolved = true;
+        continue;
+      }
+      // Le dernier lien du chemin est partagé avec les sociétés découvertes depuis celle-ci
+      entite.denomination = raw.nom_complet || entite.denomination;
+      entite.chemin[entite.chemin.length - 1].denomination = entite.denomination;
+    }
+
+    const liens: Array<GroupLink & { raw: any | null }> = [];
+
+    for (const d of raw.dirigeants || []) {
+      if (d.type_dirigeant === 'personne morale' && d.siren) {
+        liens.push({ siren: d.siren, denomination: d.denomination || d.siren, qualite: d.qualite || '', sens: 'amont', raw: null });
+      }
+    }
+
+    try {
+      const { dirigees, complete } = await entreprisesApi.fetchRawDirigeesPar(entite.siren, searchName(raw), MAX_GROUP_ENTITIES);
+      // Sociétés dirigées au-delà des pages examinées: le groupe peut être incomplet
+      if (!complete) incomplete = true;
+      for (const dirigee of dirigees) {
+        const mandat = (dirigee.dirigeants || []).find((d: any) => d.siren === entite.siren);
+        liens.push({ siren: dirigee.siren, denomination: dirigee.nom_complet || dirigee.siren, qualite: mandat?.qualite || '', sens: 'aval', raw: dirigee });
+      }
+    } catch (error) {
+      console.error(`Erreur sociétés dirigées par SIREN ${entite.siren}:`, error);
+      entite.unresolved = true;
+    }
+
+    for (const { raw: lienRaw, ...lien } of liens) {
+      if (entites.has(lien.siren)) continue;
+
+      if (entites.size >= MAX_GROUP_ENTITIES) {
+        truncated = true;
+        break;
+      }
+
+      const child: GroupEntity = {
+        siren: lien.siren,
+        denomination: lien.denomination,
+        profondeur: entite.profondeur + 1,
+        chemin: [...entite.chemin, lien],
+      };
+      entites.set(child.siren, child);
+      queue.push({ entite: child, raw: lienRaw });
+    }
+  }
+
+  return { entites: Array.from(entites.values()), truncated: truncated || incomplete };
+}
@@ -0,0 +1,564 @@
+/**
+ * Reconstruction de la table proprietaires_geo (lots MAJIC géocodés)
+ * Chaque table départementale du millésime est rapprochée de ban_adresses par commune (code INSEE),
+ * voie normalisée (normalize_voie) et numéro (format_numero). Chaque lot reçoit la meilleure
+ * position disponible, son niveau (ban_type) et un score de qualité (match_score):
+ * - housenumber: numéro trouvé dans la BAN (indice de répétition identique ou non)
+ * - interpolation: numéro absent, interpolé entre les numéros voisins de même parité
+ * - street: centre de la voie
+ * - municipality: centre de la commune
+ * Les lots sont écrits dans une table de travail, table par table; chaque table terminée est
+ * enregistrée dans proprietaires_geo_build_tables dans la même instruction, ce qui permet de reprendre
+ * une reconstruction interrompue (redémarrage, erreur) sans refaire les tables déjà traitées.
+ * La table de travail remplace proprietaires_geo une fois toutes les tables traitées.
+ */
+
+import { EventEmitter } from 'events';
+import { pool } from './database.js';
+import { checkPostGIS, checkBanTable } from './ban-setup.js';
+import { resolveAllTables, clearTableCache, extractDepartmentFromTable, getDefaultMillesime } from '../utils/table-resolver.js';
+import { Geocodage, GeocodagePrecision } from '../types/index.js';
+
+// Niveau de rapprochement d'un lot avec la BAN (colonne ban_type)
+export type GeoMatchType = 'housenumber' | 'interpolation' | 'street' | 'municipality';
+
+// Score de qualité par niveau (numéro trouvé avec un autre indice de répétition: HOUSENUMBER_OTHER_REP_SCORE)
+export const MATCH_SCORES: Record<GeoMatchType, number> = {
+  housenumber: 1,
+  interpolation: 0.7,
+  street: 0.4,
+  municipality: 0.1,
+};
+const HOUSENUMBER_OTHER_REP_SCORE = 0.9;
+
+// Précision exposée dans les résultats, par valeur de ban_type (locality: lieu-dit des tables antérieures)
+export const GEOCODAGE_PRECISIONS: Record<string, GeocodagePrecision> = {
+  housenumber: 'numero',
+  interpolation: 'interpolation',
+  street: 'voie',
+  locality: 'voie',
+  municipality: 'commune',
+};
+
+/**
+ * Précision et score de la position d'un lot de proprietaires_geo
+ * Les lignes sans match_score (table antérieure à la reconstruction) reçoivent le score de leur niveau.
+ */
+export function describeGeocodage(banType: string | null | undefined, matchScore: number | null | undefined): Geocodage {
+  const precision = banType ? GEOCODAGE_PRECISIONS[banType] ?? null : null;
+  const defaultScore = banType && banType in MATCH_SCORES ? MATCH_SCORES[banType as GeoMatchType] : null;
+  return {
+    precision,
+    ban_type: banType || null,
+    score: matchScore ?? defaultScore,
+  };
+}
+
+// État de la reconstruction en cours
+export interface GeoRebuildState {
+  status: 'idle' | 'preparing' | 'building' | 'indexing' | 'swapping' | 'completed' | 'error';
+  buildId: number | null;
+  millesime: number | null;
+  progress: number;
+  tablesTotal: number;
+  tablesDone: number;
+  tablesResumed: number;
+  currentTable: string | null;
+  rows: number;
+  geocodedRows: number;
+  errorCount: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+// Reconstruction terminée (ou interrompue) telle qu'enregistrée en base
+export interface GeoBuild {
+  id: number;
+  millesime: number | null;
+  status: string;
+  tables_count: number;
+  tables_done: number;
+  rows_count: number;
+  geocoded_count: number;
+  coverage: number | null; // Part des lots géocodés (0-1)
+  par_type: Record<string, number>;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+let rebuildState: GeoRebuildState = {
+  status: 'idle',
+  buildId: null,
+  millesime: null,
+  progress: 0,
+  tablesTotal: 0,
+  tablesDone: 0,
+  tablesResumed: 0,
+  currentTable: null,
+  rows: 0,
+  geocodedRows: 0,
+  errorCount: 0,
+  startedAt: null,
+  completedAt: null,
+  error: null,
+};
+// Vrai pendant la préparation d'une reconstruction (avant que rebuildState quitte idle)
+let rebuildStarting = false;
+
+// Fin de reconstruction ('complete'), progression ('progress')
+export const geoRebuildEmitter = new EventEmitter();
+
+// Code INSEE de la commune d'un lot MAJIC (département sur 2 caractères + commune sur 3, DOM: 971 + 2)
+const CODE_INSEE_SQL = `CASE WHEN LENGTH(t."département") = 3
+  THEN t."département" || RIGHT(t.code_commune, 2)
+  ELSE LPAD(t."département", 2, '0') || LPAD(t.code_commune, 3, '0') END`;
+
+/**
+ * Crée les tables proprietaires_geo_builds et proprietaires_geo_build_tables si elles n'existent pas
+ */
+export async function setupProprietairesGeoTables(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS proprietaires_geo_builds (
+      id SERIAL PRIMARY KEY,
+      millesime INTEGER,
+      status VARCHAR(20) NOT NULL,
+      tables TEXT[] NOT NULL,
+      rows_count BIGINT,
+      geocoded_count BIGINT,
+      par_type JSONB,
+      duration_seconds INTEGER,
+      started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP
+    )
+  `);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS proprietaires_geo_build_tables (
+      build_id INTEGER NOT NULL REFERENCES proprietaires_geo_builds(id) ON DELETE CASCADE,
+      table_name TEXT NOT NULL,
+      departement VARCHAR(3),
+      rows_count BIGINT NOT NULL,
+      geocoded_count BIGINT NOT NULL,
+      par_type JSONB NOT NULL,
+      completed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (build_id, table_name)
+    )
+  `);
+  // Table chargée avant la reconstruction: colonne du score ajoutée (vide)
+  await pool.query('ALTER TABLE IF EXISTS proprietaires_geo ADD COLUMN IF NOT EXISTS match_score REAL');
+}
+
+/**
+ * Obtient l'état de la reconstruction
+ */
+export function getGeoRebuildState(): GeoRebuildState {
+  return { ...rebuildState };
+}
+
+function mapBuildRow(row: any): GeoBuild {
+  const rows = parseInt(row.rows_count) || 0;
+  const geocoded = parseInt(row.geocoded_count) || 0;
+  return {
+    id: row.id,
+    millesime: row.millesime,
+    status: row.status,
+    tables_count: row.tables.length,
+    tables_done: parseInt(row.tables_done) || 0,
+    rows_count: rows,
+    geocoded_count: geocoded,
+    coverage: rows > 0 ? Math.round((geocoded / rows) * 10000) / 10000 : null,
+    par_type: row.par_type || {},
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+  };
+}
+
+// Reconstructions (la plus récente d'abord), avec le cumul des tables terminées
+async function findBuild(where: string): Promise<GeoBuild | null> {
+  const result = await pool.query(`
+    SELECT b.id, b.millesime, b.status, b.tables, b.started_at, b.completed_at,
+      COUNT(t.table_name) AS tables_done,
+      COALESCE(SUM(t.rows_count), 0) AS rows_count,
+      COALESCE(SUM(t.geocoded_count), 0) AS geocoded_count,
+      b.par_type
+    FROM proprietaires_geo_builds b
+    LEFT JOIN proprietaires_geo_build_tables t ON t.build_id = b.id
+    WHERE ${where}
+    GROUP BY b.id
+    ORDER BY b.id DESC
+    LIMIT 1
+  `);
+  return result.rows.length > 0 ? mapBuildRow(result.rows[0]) : null;
+}
+
+/**
+ * Dernière reconstruction terminée (null si proprietaires_geo n'a jamais été reconstruite ici)
+ */
+export async function getLastGeoBuild(): Promise<GeoBuild | null> {
+  return findBuild(`b.status = 'completed'`);
+}
+
+/**
+ * Reconstruction interrompue ou en erreur, reprise au prochain lancement (null sinon)
+ */
+export async function getResumableGeoBuild(): Promise<GeoBuild | null> {
+  if (rebuildState.status !== 'idle' && rebuildState.status !== 'completed' && rebuildState.status !== 'error') {
+    return null;
+  }
+  const build = await findBuild(`b.status IN ('running', 'error')`);
+  if (!build) return null;
+
+  // La table de travail doit avoir survécu à l'interruption
+  const workTable = await pool.query(`SELECT to_regclass('proprietaires_geo_new') IS NOT NULL AS exists`);
+  return workTable.rows[0].exists ? build : null;
+}
+
+// Clé de voie commune aux lots MAJIC et à la BAN (tirets, apostrophes et ponctuation remplacés par des espaces),
+// et index de rapprochement sur ban_adresses
+async function prepareBanMatching(): Promise<void> {
+  await pool.query(`
+    CREATE OR REPLACE FUNCTION voie_key(voie TEXT)
+    RETURNS TEXT AS $$
+      SELECT NULLIF(TRIM(REGEXP_REPLACE(normalize_voie(voie), '[^A-Z0-9]+', ' ', 'g')), '')
+    $$ LANGUAGE sql IMMUTABLE
+  `);
+  await pool.query(
+    'CREATE INDEX IF NOT EXISTS idx_ban_commune_voie_numero ON ban_adresses(code_commune, voie_key(nom_voie), numero_formatted)'
+  );
+}
+
+// Crée la table de travail (mêmes colonnes que proprietaires_geo, plus le score et la table source)
+async function createWorkTable(): Promise<void> {
+  await pool.query('DROP TABLE IF EXISTS proprietaires_geo_new');
+  await pool.query(`
+    CREATE TABLE proprietaires_geo_new (
+      id BIGSERIAL PRIMARY KEY,
+      departement VARCHAR(3),
+      code_commune VARCHAR(3),
+      nom_commune TEXT,
+      prefixe_section TEXT,
+      section TEXT,
+      numero_plan TEXT,
+      numero_voirie TEXT,
+      nature_voie TEXT,
+      nom_voie TEXT,
+      adresse_complete TEXT,
+      siren TEXT,
+      denomination TEXT,
+      forme_juridique TEXT,
+      ban_type VARCHAR(20),
+      match_score REAL,
+      source_table TEXT NOT NULL,
+      geom GEOMETRY(Point, 4326)
+    )
+  `);
+}
+
+// Géocode une table départementale dans la table de travail et l'enregistre comme terminée (une seule instruction)
+// adresse_complete reste vide: elle est formatée à la lecture (formatAdresseComplete)
+async function geocodeTable(buildId: number, table: string): Promise<{ rows: number; geocoded: number }> {
+  const result = await pool.query(
+    `WITH source AS MATERIALIZED (
+       SELECT t.*,
+         ${CODE_INSEE_SQL} AS code_insee,
+         voie_key(t.nom_voie) AS voie,
+         NULLIF(format_numero(t."n°_voirie"), '0000') AS numero
+       FROM "${table}" t
+     ),
+     rues AS MATERIALIZED (
+       SELECT b.code_commune, voie_key(b.nom_voie) AS voie, ST_Centroid(ST_Collect(b.geom)) AS geom
+       FROM ban_adresses b
+       WHERE b.geom IS NOT NULL AND b.code_commune IN (SELECT DISTINCT code_insee FROM source)
+       GROUP BY 1, 2
+     ),
+     communes AS MATERIALIZED (
+       SELECT b.code_commune, ST_Centroid(ST_Collect(b.geom)) AS geom
+       FROM ban_adresses b
+       WHERE b.geom IS NOT NULL AND b.code_commune IN (SELECT DISTINCT code_insee FROM source)
+       GROUP BY 1
+     ),
+     rapproches AS (
+       SELECT s.*,
+         CASE
+           WHEN exact.geom IS NOT NULL THEN 'housenumber'
+           WHEN avant.geom IS NOT NULL AND apres.geom IS NOT NULL THEN 'interpolation'
+           WHEN r.geom IS NOT NULL THEN 'street'
+           WHEN c.geom IS NOT NULL THEN 'municipality'
+         END AS ban_type,
+         CASE
+           WHEN exact.geom IS NOT NULL THEN CASE WHEN exact.meme_indice THEN ${MATCH_SCORES.housenumber} ELSE ${HOUSENUMBER_OTHER_REP_SCORE} END
+           WHEN avant.geom IS NOT NULL AND apres.geom IS NOT NULL THEN ${MATCH_SCORES.interpolation}
+           WHEN r.geom IS NOT NULL THEN ${MATCH_SCORES.street}
+           WHEN c.geom IS NOT NULL THEN ${MATCH_SCORES.municipality}
+         END AS match_score,
+         COALESCE(
+           exact.geom,
+           ST_LineInterpolatePoint(
+             ST_MakeLine(avant.geom, apres.geom),
+             (s.numero::integer - avant.numero)::float8 / (apres.numero - avant.numero)
+           ),
+           r.geom,
+           c.geom
+         ) AS geom
+       FROM source s
+       -- Numéro exact (même indice de répétition de préférence: B/bis, T/ter...)
+       LEFT JOIN LATERAL (
+         SELECT b.geom,
+           UPPER(LEFT(COALESCE(b.rep, ''), 1)) = UPPER(LEFT(COALESCE(s."indice_de_répétition", ''), 1)) AS meme_indice
+         FROM ban_adresses b
+         WHERE s.numero IS NOT NULL AND b.geom IS NOT NULL
+           AND b.code_commune = s.code_insee AND voie_key(b.nom_voie) = s.voie AND b.numero_formatted = s.numero
+         ORDER BY 2 DESC
+         LIMIT 1
+       ) exact ON TRUE
+       -- Numéros voisins de même parité (interpolation)
+       LEFT JOIN LATERAL (
+         SELECT b.geom, b.numero_formatted::integer AS numero
+         FROM ban_adresses b
+         WHERE exact.geom IS NULL AND s.numero IS NOT NULL AND b.geom IS NOT NULL
+           AND b.code_commune = s.code_insee AND voie_key(b.nom_voie) = s.voie AND b.numero_formatted < s.numero
+           AND (b.numero_formatted::integer - s.numero::integer) % 2 = 0
+         ORDER BY b.numero_formatted DESC
+         LIMIT 1
+       ) avant ON TRUE
+       LEFT JOIN LATERAL (
+         SELECT b.geom, b.numero_formatted::integer AS numero
+         FROM ban_adresses b
+         WHERE exact.geom IS NULL AND avant.geom IS NOT NULL AND b.geom IS NOT NULL
+           AND b.code_commune = s.code_insee AND voie_key(b.nom_voie) = s.voie AND b.numero_formatted > s.numero
+           AND (b.numero_formatted::integer - s.numero::integer) % 2 = 0
+         ORDER BY b.numero_formatted
+         LIMIT 1
+       ) apres ON TRUE
+       LEFT JOIN rues r ON r.code_commune = s.code_insee AND r.voie = s.voie
+       LEFT JOIN communes c ON c.code_commune = s.code_insee
+     ),
+     inseres AS (
+       INSERT INTO proprietaires_geo_new (
+         departement, code_commune, nom_commune, prefixe_section, section, numero_plan,
+         numero_voirie, nature_voie, nom_voie, adresse_complete, siren, denomination, forme_juridique,
+         ban_type, match_score, source_table, geom
+       )
+       SELECT
+         "département", code_commune, nom_de_la_commune, "préfixe", section, "n°_plan",
+         "n°_voirie", nature_voie, nom_voie, NULL, "n°_siren", "dénomination", forme_juridique,
+         ban_type, match_score, $1, geom
+       FROM rapproches
+       RETURNING ban_type
+     )
+     INSERT INTO proprietaires_geo_build_tables (build_id, table_name, departement, rows_count, geocoded_count, par_type)
+     SELECT $2, $1, $3, COUNT(*), COUNT(ban_type),
+       jsonb_build_object(
+         'housenumber', COUNT(*) FILTER (WHERE ban_type = 'housenumber'),
+         'interpolation', COUNT(*) FILTER (WHERE ban_type = 'interpolation'),
+         'street', COUNT(*) FILTER (WHERE ban_type = 'street'),
+         'municipality', COUNT(*) FILTER (WHERE ban_type = 'municipality')
+       )
+     FROM inseres
+     RETURNING rows_count, geocoded_count`,
+    [table, buildId, extractDepartmentFromTable(table)]
+  );
+
+  return {
+    rows: parseInt(result.rows[0].rows_count) || 0,
+    geocoded: parseInt(result.rows[0].geocoded_count) || 0,
+  };
+}
+
+// Index de la table de travail, nommés comme ceux de proprietaires_geo après substitution
+async function indexWorkTable(): Promise<void> {
+  await pool.query('CREATE INDEX proprietaires_geo_new_geom_idx ON proprietaires_geo_new USING GIST (geom)');
+  await pool.query('CREATE INDEX proprietaires_geo_new_siren_idx ON proprietaires_geo_new (siren)');
+  await pool.query('CREATE INDEX proprietaires_geo_new_commune_idx ON proprietaires_geo_new (departement, code_commune)');
+}
+
+// Remplace proprietaires_geo par la table de travail
+// Requête multi-instructions sans paramètres: exécutée en une seule transaction implicite
+async function swapWorkTable(): Promise<void> {
+  await pool.query(`
+    DROP TABLE IF EXISTS proprietaires_geo;
+    ALTER TABLE proprietaires_geo_new RENAME TO proprietaires_geo;
+    ALTER INDEX proprietaires_geo_new_pkey RENAME TO proprietaires_geo_pkey;
+    ALTER INDEX proprietaires_geo_new_geom_idx RENAME TO proprietaires_geo_geom_idx;
+    ALTER INDEX proprietaires_geo_new_siren_idx RENAME TO proprietaires_geo_siren_idx;
+    ALTER INDEX proprietaires_geo_new_commune_idx RENAME TO proprietaires_geo_commune_idx;
+  `);
+  await pool.query('ANALYZE proprietaires_geo');
+}
+
+/**
+ * Lance la reconstruction de proprietaires_geo en arrière-plan
+ * Une reconstruction interrompue (même millésime) est reprise là où elle s'est arrêtée, sauf si restart est demandé.
+ * @param millesime - Millésime MAJIC géocodé (par défaut: millésime par défaut des recherches)
+ */
+export async function startGeoRebuild(
+  millesime?: number,
+  restart: boolean = false
+): Promise<{ success: boolean; message: string; resumed?: boolean }> {
+  if (rebuildStarting) {
+    return { success: false, message: 'Reconstruction déjà en cours (preparing)' };
+  }
+  if (rebuildState.status !== 'idle' && rebuildState.status !== 'completed' && rebuildState.status !== 'error') {
+    return { success: false, message: `Reconstruction déjà en cours (${rebuildState.status})` };
+  }
+
+  // Réservé avant le premier await: un second appel simultané supprimerait la table de travail du premier.
+  // Libéré une fois rebuildState sorti de idle, ou à tout retour anticipé.
+  rebuildStarting = true;
+  try {
+    return await launchGeoRebuild(millesime, restart);
+  } finally {
+    rebuildStarting = false;
+  }
+}
+
+// Prépare la reconstruction (build repris ou nouveau) et la lance en arrière-plan
+async function launchGeoRebuild(
+  millesime: number | undefined,
+  restart: boolean
+): Promise<{ success: boolean; message: string; resumed?: boolean }> {
+  const postgis = await checkPostGIS();
+  if (!postgis.installed) {
+    return { success: false, message: 'PostGIS non installé. Appelez /admin/ban/setup d\'abord.' };
+  }
+
+  const banTable = await checkBanTable();
+  if (!banTable.exists || banTable.count === 0) {
+    return { success: false, message: 'Table BAN vide. Importez la BAN (/admin/ban/import) d\'abord.' };
+  }
+
+  // Relire la liste des tables: de nouvelles tables départementales (ou un nouveau millésime) ont pu être chargées
+  clearTableCache();
+  const effectiveMillesime = millesime ?? await getDefaultMillesime();
+  const tables = await resolveAllTables(effectiveMillesime ?? undefined);
+  if (tables.length === 0) {
+    return { success: false, message: 'Aucune table départementale MAJIC trouvée' };
+  }
+
+  // Reprise: même millésime, tables déjà terminées ignorées
+  const previous = await getResumableGeoBuild();
+  const resume = previous !== null && !restart && previous.millesime === effectiveMillesime;
+
+  let buildId: number;
+  let doneTables = new Set<string>();
+  let startedAt = new Date();
+
+  if (resume) {
+    buildId = previous!.id;
+    startedAt = previous!.started_at;
+    const done = await pool.query('SELECT table_name FROM proprietaires_geo_build_tables WHERE build_id = $1', [buildId]);
+    doneTables = new Set(done.rows.map(row => row.table_name));
+    await pool.query(`UPDATE proprietaires_geo_builds SET status = 'running', tables = $2 WHERE id = $1`, [buildId, tables]);
+  } else {
+    await pool.query(`UPDATE proprietaires_geo_builds SET status = 'abandoned' WHERE status IN ('running', 'error')`);
+    await createWorkTable();
+    const build = await pool.query(
+      `INSERT INTO proprietaires_geo_builds (millesime, status, tables) VALUES ($1, 'running', $2) RETURNING id, started_at`,
+      [effectiveMillesime, tables]
+    );
+    buildId = build.rows[0].id;
+    startedAt = build.rows[0].started_at;
+  }
+
+  const pending = tables.filter(t => !doneTables.has(t));
+  const resumedTables = tables.length - pending.length;
+
+  rebuildState = {
+    status: 'preparing',
+    buildId,
+    millesime: effectiveMillesime,
+    progress: Math.round((resumedTables / tables.length) * 100),
+    tablesTotal: tables.length,
+    tablesDone: resumedTables,
+    tablesResumed: resumedTables,
+    currentTable: null,
+    rows: resume ? previous!.rows_count : 0,
+    geocodedRows: resume ? previous!.geocoded_count : 0,
+    errorCount: 0,
+    startedAt,
+    completedAt: null,
+    error: null,
+  };
+
+  // Lancer en arrière-plan
+  (async () => {
+    try {
+      await prepareBanMatching();
+      rebuildState.status = 'building';
+      geoRebuildEmitter.emit('progress', rebuildState);
+
+      const failed: string[] = [];
+      for (const table of pending) {
+        rebuildState.currentTable = table;
+        try {
+          const result = await geocodeTable(buildId, table);
+          rebuildState.rows += result.rows;
+          rebuildState.geocodedRows += result.geocoded;
+          console.log(`[proprietaires-geo] ${table}: ${result.geocoded.toLocaleString()}/${result.rows.toLocaleString()} lots géocodés`);
+        } catch (error) {
+          rebuildState.errorCount++;
+          failed.push(table);
+          console.error(`[proprietaires-geo] Erreur sur ${table}:`, error);
+        }
+
+        rebuildState.tablesDone++;
+        rebuildState.progress = Math.min(99, Math.round((rebuildState.tablesDone / tables.length) * 100));
+        geoRebuildEmitter.emit('progress', rebuildState);
+      }
+      rebuildState.currentTable = null;
+
+      // Un département manquant ne doit pas disparaître de proprietaires_geo: la reconstruction reste reprenable
+      if (failed.length > 0) {
+        throw new Error(`${failed.length} table(s) en erreur (${failed.join(', ')}): relancez la reconstruction pour les reprendre`);
+      }
+
+      rebuildState.status = 'indexing';
+      await indexWorkTable();
+
+      rebuildState.status = 'swapping';
+      await swapWorkTable();
+
+      rebuildState.status = 'completed';
+      rebuildState.progress = 100;
+      rebuildState.completedAt = new Date();
+
+      const duration = Math.round((Date.now() - startedAt.getTime()) / 1000);
+      await pool.query(
+        `UPDATE proprietaires_geo_builds SET
+           status = 'completed',
+           rows_count = $2,
+           geocoded_count = $3,
+           par_type = (
+             SELECT jsonb_object_agg(key, total) FROM (
+               SELECT key, SUM(value::bigint) AS total
+               FROM proprietaires_geo_build_tables, jsonb_each_text(par_type)
+               WHERE build_id = $1
+               GROUP BY key
+             ) types
+           ),
+           duration_seconds = $4,
+           completed_at = NOW()
+         WHERE id = $1`,
+        [buildId, rebuildState.rows, rebuildState.geocodedRows, duration]
+      );
+
+      const coverage = rebuildState.rows > 0 ? (100 * rebuildState.geocodedRows / rebuildState.rows).toFixed(2) : '0';
+      console.log(`[proprietaires-geo] ✅ Reconstruction terminée: ${rebuildState.rows.toLocaleString()} lots, ${coverage}% géocodés`);
+      geoRebuildEmitter.emit('complete', { ...rebuildState });
+    } catch (error: any) {
+      rebuildState.status = 'error';
+      rebuildState.error = error.message;
+      console.error('[proprietaires-geo] ❌ Erreur:', error);
+      await pool.query(`UPDATE proprietaires_geo_builds SET status = 'error' WHERE id = $1`, [buildId])
+        .catch(updateError => console.error('[proprietaires-geo] Erreur mise à jour du statut:', updateError));
+    }
+  })();
+
+  return {
+    success: true,
+    resumed: resume,
+    message: resume
+      ? `Reconstruction reprise (${pending.length}/${tables.length} tables restantes)`
+      : `Reconstruction lancée (${tables.length} tables)`,
+  };
+}
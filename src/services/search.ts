@@ -8,18 +8,26 @@ import {
   formatAdresseComplete,
   normalizeNomVoie,
 } from '../utils/abbreviations.js';
-import { enrichSiren } from './entreprises-api.js';
+import { enrichSiren } from './enrichment.js';
+import { collectGroupEntities } from './ownership-graph.js';
+import { searchDirigeants, Mandat } from './dirigeants-index.js';
 import {
   LocalRaw,
   Propriete,
   ProprieteGroupee,
   Adresse,
   ReferenceCadastrale,
+  ReferenceCadastraleQuery,
   LocalisationLocal,
   Proprietaire,
   EntrepriseEnrichie,
+  GroupEntity,
+  ProprieteGroupeeDetenue,
 } from '../types/index.js';
 import { config } from '../config/index.js';
+import { encodeCursor, decodeCursor, compareCursorKeys } from '../utils/cursor.js';
+import { queryTables, summarizeTimings, DepartmentTimings } from '../utils/table-query.js';
+import { lookupSirenIndex } from './siren-index.js';
 
 // Normalise une chaîne pour la recherche fuzzy
 function normalizeForSearch(str: string): string {
@@ -95,7 +103,7 @@ function extractNumeroVoirie(adresse: string): { numero: string | null; reste: s
 }
 
 // Transforme un enregistrement brut en Propriete formatée
-function transformToPropiete(raw: LocalRaw): Propriete {
+export function transformToPropiete(raw: LocalRaw): Propriete {
   const adresse: Adresse = {
     numero: raw['n°_voirie'] || '',
     indice_repetition: raw.indice_de_répétition || '',
@@ -259,7 +267,8 @@ export async function searchByAddress(
   adresse: string,
   departement?: string,
   limit?: number,
-  codePostal?: string
+  codePostal?: string,
+  millesime?: number
 ): Promise<{
   resultats: Array<{
     proprietaire: Proprietaire;
@@ -296,9 +305,9 @@ export async function searchByAddress(
   // Déterminer les tables à interroger
   let tables: string[];
   if (effectiveDepartement) {
-    tables = await resolveTablesForDepartment(effectiveDepartement);
+    tables = await resolveTablesForDepartment(effectiveDepartement, millesime);
   } else {
-    tables = await resolveAllTables();
+    tables = await resolveAllTables(millesime);
   }
 
   if (tables.length === 0) {
@@ -412,10 +421,38 @@ export async function searchByAddress(
   };
 }
 
+// Tables d'un millésime à interroger pour un SIREN
+// Index siren_index: seules les tables qui contiennent le SIREN, plus les tables non indexées
+export async function resolveSirenTables(
+  siren: string,
+  departement?: string,
+  millesime?: number
+): Promise<{ tables: string[]; via_siren_index: boolean }> {
+  let tables = departement
+    ? await resolveTablesForDepartment(departement, millesime)
+    : await resolveAllTables(millesime);
+
+  let index: Awaited<ReturnType<typeof lookupSirenIndex>> = null;
+  try {
+    index = await lookupSirenIndex(siren);
+  } catch (error) {
+    console.error('[siren-index] Lecture impossible, recherche sur toutes les tables:', error);
+  }
+
+  if (index) {
+    const indexedTables = new Set(index.coverage.tables);
+    const sirenTables = new Set(index.entries.map(e => e.table_name));
+    tables = tables.filter(t => sirenTables.has(t) || !indexedTables.has(t));
+  }
+
+  return { tables, via_siren_index: index !== null };
+}
+
 // Recherche par propriétaire (SIREN)
 export async function searchBySiren(
   siren: string,
-  departement?: string
+  departement?: string,
+  millesime?: number
 ): Promise<{
   proprietaire?: Proprietaire;
   entreprise?: EntrepriseEnrichie;
@@ -423,38 +460,31 @@ export async function searchBySiren(
   nombre_adresses: number;
   nombre_lots: number;
   departements_concernes: string[];
+  timing?: DepartmentTimings;
+  via_siren_index?: boolean;
 }> {
   if (!siren || siren.length !== 9) {
     return { proprietes: [], nombre_adresses: 0, nombre_lots: 0, departements_concernes: [] };
   }
 
-  // Déterminer les tables à interroger
-  let tables: string[];
-  if (departement) {
-    tables = await resolveTablesForDepartment(departement);
-  } else {
-    tables = await resolveAllTables();
-  }
+  const startedAt = Date.now();
+  const { tables, via_siren_index } = await resolveSirenTables(siren, departement, millesime);
 
-  const results: LocalRaw[] = [];
-  const departementsSet = new Set<string>();
+  // Tables interrogées en parallèle (concurrence bornée), durées par département
+  const { rows: results, timings } = await queryTables<LocalRaw>(
+    tables,
+    table => `SELECT * FROM "${table}" WHERE "n°_siren" = $1`,
+    [siren]
+  );
+  const timing = summarizeTimings(timings, startedAt);
 
-  for (const table of tables) {
-    const query = `SELECT * FROM "${table}" WHERE "n°_siren" = $1`;
-
-    try {
-      const result = await pool.query(query, [siren]);
-      for (const row of result.rows) {
-        results.push(row);
-        if (row.département) departementsSet.add(row.département);
-      }
-    } catch (error) {
-      console.error(`Erreur lors de la recherche dans ${table}:`, error);
-    }
+  if (results.length === 0) {
+    return { proprietes: [], nombre_adresses: 0, nombre_lots: 0, departements_concernes: [], timing, via_siren_index };
   }
 
-  if (results.length === 0) {
-    return { proprietes: [], nombre_adresses: 0, nombre_lots: 0, departements_concernes: [] };
+  const departementsSet = new Set<string>();
+  for (const row of results) {
+    if (row.département) departementsSet.add(row.département);
   }
 
   const proprietes = results.map(transformToPropiete);
@@ -473,14 +503,151 @@ export async function searchBySiren(
     nombre_adresses: proprietesGroupees.length,
     nombre_lots: results.length,
     departements_concernes: Array.from(departementsSet).sort(),
+    timing,
+    via_siren_index,
+  };
+}
+
+// Portefeuille d'un groupe: propriétés de toutes les sociétés reliées à un SIREN par la chaîne de contrôle
+// (null si l'entreprise racine est introuvable dans l'API Recherche Entreprises)
+export async function searchByGroup(
+  siren: string,
+  departement: string | undefined,
+  maxDepth: number,
+  millesime?: number
+): Promise<{
+  entites: Array<GroupEntity & { proprietaire?: Proprietaire; nombre_adresses: number; nombre_lots: number }>;
+  proprietes: ProprieteGroupeeDetenue[];
+  nombre_adresses: number;
+  nombre_lots: number;
+  departements_concernes: string[];
+  truncated: boolean;
+} | null> {
+  const groupe = await collectGroupEntities(siren, maxDepth);
+  if (!groupe) return null;
+
+  const sirens = groupe.entites.map(e => e.siren);
+  const tables = departement ? await resolveTablesForDepartment(departement, millesime) : await resolveAllTables(millesime);
+
+  const { rows: lots } = await queryTables<LocalRaw>(tables, table => `SELECT * FROM "${table}" WHERE "n°_siren" = ANY($1)`, [sirens]);
+
+  const resultsBySiren = new Map<string, LocalRaw[]>();
+  const departementsSet = new Set<string>();
+
+  for (const row of lots) {
+    const rows = resultsBySiren.get(row['n°_siren']) || [];
+    rows.push(row);
+    resultsBySiren.set(row['n°_siren'], rows);
+    if (row.département) departementsSet.add(row.département);
+  }
+
+  const proprietes: ProprieteGroupeeDetenue[] = [];
+  let nombreLots = 0;
+
+  // Entités dans l'ordre du parcours (racine, puis par distance à la racine)
+  const entites = groupe.entites.map(entite => {
+    const rows = resultsBySiren.get(entite.siren) || [];
+    if (rows.length === 0) return { ...entite, nombre_adresses: 0, nombre_lots: 0 };
+
+    const proprietesEntite = rows.map(transformToPropiete);
+    const groupees = groupProprietesParAdresse(proprietesEntite);
+    const detenteur = { siren: entite.siren, denomination: entite.denomination, chemin: entite.chemin };
+
+    for (const propriete of groupees) {
+      proprietes.push({ ...propriete, detenteur });
+    }
+    nombreLots += rows.length;
+
+    return {
+      ...entite,
+      proprietaire: proprietesEntite[0].proprietaire,
+      nombre_adresses: groupees.length,
+      nombre_lots: rows.length,
+    };
+  });
+
+  return {
+    entites,
+    proprietes,
+    nombre_adresses: proprietes.length,
+    nombre_lots: nombreLots,
+    departements_concernes: Array.from(departementsSet).sort(),
+    truncated: groupe.truncated,
   };
 }
 
+// Entreprises retournées au plus par une recherche par dirigeant
+const MAX_DIRIGEANT_ENTREPRISES = 100;
+
+// Propriétés des entreprises dont une personne est dirigeante ou bénéficiaire effective
+// (index entreprises_dirigeants), groupées par entreprise avec les mandats de la personne
+export async function searchByDirigeant(
+  nom: string,
+  prenoms?: string,
+  anneeNaissance?: string,
+  departement?: string,
+  millesime?: number
+): Promise<{
+  resultats: Array<{
+    siren: string;
+    denomination: string;
+    mandats: Mandat[];
+    proprietaire?: Proprietaire;
+    proprietes: ProprieteGroupee[];
+    nombre_adresses: number;
+    nombre_lots: number;
+  }>;
+  total_entreprises: number;
+  total_lots: number;
+  truncated: boolean;
+}> {
+  const { entreprises, truncated } = await searchDirigeants(nom, prenoms, anneeNaissance, MAX_DIRIGEANT_ENTREPRISES);
+  if (entreprises.length === 0) {
+    return { resultats: [], total_entreprises: 0, total_lots: 0, truncated: false };
+  }
+
+  const sirens = entreprises.map(e => e.siren);
+  const tables = departement ? await resolveTablesForDepartment(departement, millesime) : await resolveAllTables(millesime);
+  const { rows: lots } = await queryTables<LocalRaw>(tables, table => `SELECT * FROM "${table}" WHERE "n°_siren" = ANY($1)`, [sirens]);
+
+  const resultsBySiren = new Map<string, LocalRaw[]>();
+  for (const row of lots) {
+    const rows = resultsBySiren.get(row['n°_siren']) || [];
+    rows.push(row);
+    resultsBySiren.set(row['n°_siren'], rows);
+  }
+
+  let totalLots = 0;
+  const resultats = entreprises.map(entreprise => {
+    const rows = resultsBySiren.get(entreprise.siren) || [];
+    const proprietes = rows.map(transformToPropiete);
+    const groupees = groupProprietesParAdresse(proprietes);
+    totalLots += rows.length;
+
+    return {
+      ...entreprise,
+      proprietaire: proprietes[0]?.proprietaire,
+      proprietes: groupees,
+      nombre_adresses: groupees.length,
+      nombre_lots: rows.length,
+    };
+  });
+
+  return { resultats, total_entreprises: resultats.length, total_lots: totalLots, truncated };
+}
+
+// Clé propriétaire dans les tables MAJIC (SIREN, sinon dénomination)
+const OWNER_KEY_SQL = `COALESCE(NULLIF("n°_siren", ''), dénomination)`;
+
 // Recherche par dénomination (nom du propriétaire)
+// Pagination par curseur: les propriétaires sont triés par clé (SIREN ou dénomination),
+// chaque page reprend après la clé du dernier propriétaire de la page précédente.
 export async function searchByDenomination(
   denomination: string,
   departement?: string,
-  limit?: number
+  limit?: number,
+  cursor?: string,
+  millesime?: number
 ): Promise<{
   resultats: Array<{
     proprietaire: Proprietaire;
@@ -492,57 +659,80 @@ export async function searchByDenomination(
   }>;
   total_proprietaires: number;
   total_lots: number;
+  next_cursor: string | null;
+  timing?: DepartmentTimings;
 }> {
-  const maxResults = limit || config.search.maxLimit;
+  const startedAt = Date.now();
+  // Sans limit: page de maxLimit propriétaires, comme avant la pagination (clients ne suivant pas next_cursor)
+  const pageSize = Math.min(limit || config.search.maxLimit, config.search.maxLimit);
+  const afterKey = cursor ? decodeCursor(cursor) : null;
   const normalizedSearch = normalizeForSearch(denomination);
   const searchTerms = normalizedSearch.split(' ').filter(t => t.length >= 2);
 
   if (searchTerms.length === 0) {
-    return { resultats: [], total_proprietaires: 0, total_lots: 0 };
+    return { resultats: [], total_proprietaires: 0, total_lots: 0, next_cursor: null };
   }
 
   // Déterminer les tables à interroger
   let tables: string[];
   if (departement) {
-    tables = await resolveTablesForDepartment(departement);
+    tables = await resolveTablesForDepartment(departement, millesime);
   } else {
-    tables = await resolveAllTables();
+    tables = await resolveAllTables(millesime);
   }
 
-  const results: LocalRaw[] = [];
   const searchPattern = `%${searchTerms.join('%')}%`;
-
-  for (const table of tables) {
-    if (results.length >= maxResults) break;
-
-    const remainingLimit = maxResults - results.length;
-
-    const query = `
-      SELECT *
+  const denominationCondition = `LOWER(TRANSLATE(dénomination, 'àâäéèêëïîôùûüç', 'aaaeeeeiioouuc')) ILIKE $1`;
+
+  // ETAPE 1: clés des propriétaires de la page (pageSize + 1 pour savoir s'il reste une page)
+  // Tables interrogées en parallèle (concurrence bornée), durées cumulées par département sur les deux étapes
+  const keysPass = await queryTables<{ proprio_key: string }>(
+    tables,
+    table => `
+      SELECT DISTINCT ${OWNER_KEY_SQL} COLLATE "C" AS proprio_key
       FROM "${table}"
-      WHERE LOWER(TRANSLATE(dénomination, 'àâäéèêëïîôùûüç', 'aaaeeeeiioouuc')) ILIKE $1
-      LIMIT $2
-    `;
-
-    try {
-      const result = await pool.query(query, [searchPattern, remainingLimit]);
-      results.push(...result.rows);
-    } catch (error) {
-      console.error(`Erreur lors de la recherche dans ${table}:`, error);
-    }
+      WHERE ${denominationCondition}
+        AND ${OWNER_KEY_SQL} IS NOT NULL
+        AND ($2::text IS NULL OR ${OWNER_KEY_SQL} COLLATE "C" > $2)
+      ORDER BY proprio_key
+      LIMIT $3
+    `,
+    [searchPattern, afterKey, pageSize + 1]
+  );
+
+  const ownerKeys = new Set(keysPass.rows.map(row => row.proprio_key));
+  const sortedKeys = Array.from(ownerKeys).sort(compareCursorKeys);
+  const pageKeys = sortedKeys.slice(0, pageSize);
+  const nextCursor = sortedKeys.length > pageSize ? encodeCursor(pageKeys[pageKeys.length - 1]) : null;
+
+  if (pageKeys.length === 0) {
+    return { resultats: [], total_proprietaires: 0, total_lots: 0, next_cursor: null, timing: summarizeTimings(keysPass.timings, startedAt) };
   }
 
-  // Grouper par SIREN ou dénomination
+  // ETAPE 2: tous les lots des propriétaires de la page
+  const lotsPass = await queryTables<LocalRaw>(
+    tables,
+    table => `
+      SELECT *
+      FROM "${table}"
+      WHERE ${denominationCondition}
+        AND ${OWNER_KEY_SQL} = ANY($2)
+    `,
+    [searchPattern, pageKeys]
+  );
+  const results = lotsPass.rows;
+  const timing = summarizeTimings([...keysPass.timings, ...lotsPass.timings], startedAt);
+
+  // Grouper par SIREN ou dénomination, dans l'ordre de la page
   const groupedMap = new Map<string, { rows: LocalRaw[]; sirens: Set<string>; departements: Set<string> }>();
+  for (const key of pageKeys) {
+    groupedMap.set(key, { rows: [], sirens: new Set(), departements: new Set() });
+  }
 
   for (const raw of results) {
-    const key = raw['n°_siren'] || raw.dénomination || 'inconnu';
+    const entry = groupedMap.get(raw['n°_siren'] || raw.dénomination);
+    if (!entry) continue;
 
-    if (!groupedMap.has(key)) {
-      groupedMap.set(key, { rows: [], sirens: new Set(), departements: new Set() });
-    }
-
-    const entry = groupedMap.get(key)!;
     entry.rows.push(raw);
     if (raw['n°_siren']) entry.sirens.add(raw['n°_siren']);
     if (raw.département) entry.departements.add(raw.département);
@@ -559,6 +749,8 @@ export async function searchByDenomination(
   }> = [];
 
   for (const [_, value] of groupedMap) {
+    if (value.rows.length === 0) continue;
+
     const proprietes = value.rows.map(transformToPropiete);
     const proprietaire = proprietes[0].proprietaire;
 
@@ -587,5 +779,136 @@ export async function searchByDenomination(
     resultats,
     total_proprietaires: resultats.length,
     total_lots: results.length,
+    next_cursor: nextCursor,
+    timing,
+  };
+}
+
+// Parse une référence cadastrale complète (format reference_complete)
+// "75-056-000-AB-0123" (avec préfixe) ou "75-056-AB-0123" (sans préfixe)
+export function parseReferenceComplete(reference: string): ReferenceCadastraleQuery | null {
+  const parts = reference.trim().toUpperCase().split('-').map(p => p.trim());
+  if (parts.some(p => p.length === 0)) return null;
+
+  if (parts.length === 5) {
+    const [departement, code_commune, prefixe, section, numero_plan] = parts;
+    return { departement, code_commune, prefixe, section, numero_plan };
+  }
+  if (parts.length === 4) {
+    const [departement, code_commune, section, numero_plan] = parts;
+    return { departement, code_commune, section, numero_plan };
+  }
+  return null;
+}
+
+// Lots d'une parcelle dans les tables d'un millésime
+// Les comparaisons ignorent les zéros de padding (ex: "0123" = "123", "0A" = "A")
+// throwOnError: une table en erreur fait échouer la lecture au lieu d'être ignorée (comparaisons entre millésimes)
+export async function queryReferenceRows(
+  reference: ReferenceCadastraleQuery,
+  millesime?: number,
+  throwOnError: boolean = false
+): Promise<LocalRaw[]> {
+  const tables = await resolveTablesForDepartment(reference.departement, millesime);
+
+  const conditions: string[] = [
+    `LTRIM(code_commune, '0') = LTRIM($1, '0')`,
+    `LTRIM(UPPER(TRIM(section)), '0') = LTRIM(UPPER($2), '0')`,
+    `LTRIM("n°_plan", '0') = LTRIM($3, '0')`,
+  ];
+  const params: string[] = [reference.code_commune, reference.section, reference.numero_plan];
+
+  if (reference.prefixe !== undefined) {
+    conditions.push(`COALESCE(LTRIM(préfixe, '0'), '') = LTRIM($4, '0')`);
+    params.push(reference.prefixe);
+  }
+
+  const results: LocalRaw[] = [];
+
+  for (const table of tables) {
+    const query = `SELECT * FROM "${table}" WHERE ${conditions.join(' AND ')}`;
+
+    try {
+      const result = await pool.query(query, params);
+      results.push(...result.rows);
+    } catch (error) {
+      console.error(`Erreur lors de la recherche dans ${table}:`, error);
+      if (throwOnError) throw error;
+    }
+  }
+
+  return results;
+}
+
+// Recherche par référence cadastrale (section + numéro de plan)
+// Retourne tous les titulaires de droits sur la parcelle (propriétaires, usufruitiers, etc.)
+export async function searchByReference(reference: ReferenceCadastraleQuery, millesime?: number): Promise<{
+  titulaires: Array<{
+    proprietaire: Proprietaire;
+    entreprise?: EntrepriseEnrichie;
+    droits: Array<{ type_droit: string; type_droit_code: string }>;
+    proprietes: ProprieteGroupee[];
+    nombre_adresses: number;
+    nombre_lots: number;
+  }>;
+  references_cadastrales: ReferenceCadastrale[];
+  total_titulaires: number;
+  total_lots: number;
+}> {
+  const results = await queryReferenceRows(reference, millesime);
+  const proprietes = results.map(transformToPropiete);
+
+  // Grouper par titulaire (SIREN ou dénomination), avec la liste de ses droits
+  const titulairesMap = new Map<string, {
+    proprietaire: Proprietaire;
+    proprietes: Propriete[];
+    droits: Map<string, string>;
+  }>();
+
+  for (const propriete of proprietes) {
+    const key = propriete.proprietaire.siren || propriete.proprietaire.denomination || 'inconnu';
+
+    if (!titulairesMap.has(key)) {
+      titulairesMap.set(key, { proprietaire: propriete.proprietaire, proprietes: [], droits: new Map() });
+    }
+
+    const entry = titulairesMap.get(key)!;
+    entry.proprietes.push(propriete);
+    entry.droits.set(propriete.proprietaire.type_droit_code, propriete.proprietaire.type_droit);
+  }
+
+  const titulaires = [];
+
+  for (const [_, value] of titulairesMap) {
+    let entreprise: EntrepriseEnrichie | undefined;
+    const siren = value.proprietaire.siren;
+    if (siren && siren.length === 9) {
+      const enriched = await enrichSiren(siren);
+      if (enriched) entreprise = enriched;
+    }
+
+    const proprietesGroupees = groupProprietesParAdresse(value.proprietes);
+
+    titulaires.push({
+      proprietaire: value.proprietaire,
+      entreprise,
+      droits: Array.from(value.droits, ([type_droit_code, type_droit]) => ({ type_droit, type_droit_code })),
+      proprietes: proprietesGroupees,
+      nombre_adresses: proprietesGroupees.length,
+      nombre_lots: value.proprietes.length,
+    });
+  }
+
+  // Références distinctes trouvées (plusieurs préfixes possibles si le préfixe n'est pas précisé)
+  const referencesMap = new Map<string, ReferenceCadastrale>();
+  for (const propriete of proprietes) {
+    referencesMap.set(propriete.reference_cadastrale.reference_complete, propriete.reference_cadastrale);
+  }
+
+  return {
+    titulaires,
+    references_cadastrales: Array.from(referencesMap.values()),
+    total_titulaires: titulaires.length,
+    total_lots: results.length,
   };
 }
@@ -0,0 +1,319 @@
+/**
+ * Index SIREN -> tables départementales (table siren_index)
+ * Pour chaque SIREN: départements, tables MAJIC et nombre de lots. Une recherche nationale
+ * par SIREN n'interroge plus que les tables qui le contiennent, et le décompte des lots par
+ * département est lu directement dans l'index.
+ * L'index est reconstruit à la demande (après chargement ou mise à jour des tables MAJIC) dans
+ * une table de travail, puis substitué à l'ancien: les recherches continuent pendant la reconstruction.
+ * Les tables absentes de la dernière reconstruction (chargées depuis, ou en erreur) restent
+ * interrogées directement.
+ * L'index couvre tous les millésimes MAJIC chargés; les lectures se limitent aux tables du millésime demandé.
+ */
+
+import { EventEmitter } from 'events';
+import { pool } from './database.js';
+import { resolveAllTables, resolveAllMillesimeTables, clearTableCache, extractDepartmentFromTable } from '../utils/table-resolver.js';
+
+// État de la reconstruction en cours
+export interface SirenIndexBuildState {
+  status: 'idle' | 'building' | 'swapping' | 'completed' | 'error';
+  progress: number;
+  tablesTotal: number;
+  tablesDone: number;
+  rows: number;
+  errorCount: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+export interface SirenIndexEntry {
+  departement: string;
+  table_name: string;
+  nombre_lots: number;
+}
+
+// Dernière reconstruction terminée: date et tables indexées
+export interface SirenIndexCoverage {
+  indexed_at: Date;
+  tables: string[];
+}
+
+let buildState: SirenIndexBuildState = {
+  status: 'idle',
+  progress: 0,
+  tablesTotal: 0,
+  tablesDone: 0,
+  rows: 0,
+  errorCount: 0,
+  startedAt: null,
+  completedAt: null,
+  error: null,
+};
+
+// Vrai pendant la préparation d'une reconstruction (avant que buildState passe à building)
+let rebuildStarting = false;
+
+// Dernière reconstruction terminée (null = jamais construit, undefined = pas encore lue en base)
+let coverage: SirenIndexCoverage | null | undefined;
+
+// Fin de reconstruction ('complete'): de nouvelles tables MAJIC (ou un nouveau millésime) sont prises en compte
+export const sirenIndexEmitter = new EventEmitter();
+
+/**
+ * Crée les tables siren_index et siren_index_builds si elles n'existent pas
+ */
+export async function setupSirenIndexTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS siren_index (
+      siren CHAR(9) NOT NULL,
+      departement VARCHAR(3) NOT NULL,
+      table_name TEXT NOT NULL,
+      nombre_lots INTEGER NOT NULL,
+      PRIMARY KEY (siren, table_name)
+    )
+  `);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS siren_index_builds (
+      id SERIAL PRIMARY KEY,
+      tables_count INTEGER,
+      rows_count BIGINT,
+      error_count INTEGER,
+      duration_seconds INTEGER,
+      status VARCHAR(20),
+      tables TEXT[] NOT NULL DEFAULT '{}',
+      completed_at TIMESTAMP DEFAULT NOW()
+    )
+  `);
+}
+
+/**
+ * Dernière reconstruction terminée (null si l'index n'a jamais été construit)
+ */
+export async function getSirenIndexCoverage(): Promise<SirenIndexCoverage | null> {
+  if (coverage === undefined) {
+    const result = await pool.query(
+      `SELECT completed_at, tables FROM siren_index_builds
+       WHERE status = 'completed'
+       ORDER BY completed_at DESC
+       LIMIT 1`
+    );
+    const row = result.rows[0];
+    coverage = row ? { indexed_at: row.completed_at, tables: row.tables } : null;
+  }
+  return coverage;
+}
+
+/**
+ * Tables contenant un SIREN d'après l'index, et tables couvertes par l'index
+ * (null si l'index n'est pas construit)
+ */
+export async function lookupSirenIndex(
+  siren: string
+): Promise<{ entries: SirenIndexEntry[]; coverage: SirenIndexCoverage } | null> {
+  const current = await getSirenIndexCoverage();
+  if (!current) return null;
+
+  const result = await pool.query(
+    `SELECT departement, table_name, nombre_lots
+     FROM siren_index
+     WHERE siren = $1
+     ORDER BY table_name`,
+    [siren]
+  );
+
+  return { entries: result.rows, coverage: current };
+}
+
+/**
+ * Lots d'un SIREN par département, lus dans l'index sans interroger les tables
+ * (null si l'index n'est pas construit)
+ * @param millesime - Millésime MAJIC (par défaut: millésime par défaut des recherches)
+ */
+export async function getSirenLotsByDepartment(siren: string, millesime?: number): Promise<{
+  indexed_at: Date;
+  nombre_lots: number;
+  departements: Array<{ departement: string; nombre_lots: number; tables: string[] }>;
+  tables_non_indexees: string[];
+} | null> {
+  const index = await lookupSirenIndex(siren);
+  if (!index) return null;
+
+  const tables = await resolveAllTables(millesime);
+  const millesimeTables = new Set(tables);
+
+  const byDepartment = new Map<string, { departement: string; nombre_lots: number; tables: string[] }>();
+  for (const entry of index.entries) {
+    if (!millesimeTables.has(entry.table_name)) continue;
+    let dept = byDepartment.get(entry.departement);
+    if (!dept) {
+      dept = { departement: entry.departement, nombre_lots: 0, tables: [] };
+      byDepartment.set(entry.departement, dept);
+    }
+    dept.nombre_lots += entry.nombre_lots;
+    dept.tables.push(entry.table_name);
+  }
+
+  // Tables chargées depuis la reconstruction (ou en erreur): non couvertes par le décompte
+  const indexedTables = new Set(index.coverage.tables);
+  const tablesNonIndexees = tables.filter(t => !indexedTables.has(t));
+
+  const departements = Array.from(byDepartment.values());
+  return {
+    indexed_at: index.coverage.indexed_at,
+    nombre_lots: departements.reduce((sum, d) => sum + d.nombre_lots, 0),
+    departements,
+    tables_non_indexees: tablesNonIndexees,
+  };
+}
+
+/**
+ * Statistiques de l'index (volume, dernière reconstruction)
+ */
+export async function getSirenIndexStats(): Promise<{
+  indexed_at: Date | null;
+  sirens: number;
+  entries: number;
+  tables: number;
+}> {
+  const indexed_at = (await getSirenIndexCoverage())?.indexed_at || null;
+  const result = await pool.query(`
+    SELECT
+      COUNT(DISTINCT siren) AS sirens,
+      COUNT(*) AS entries,
+      COUNT(DISTINCT table_name) AS tables
+    FROM siren_index
+  `);
+
+  const row = result.rows[0];
+  return {
+    indexed_at,
+    sirens: parseInt(row.sirens) || 0,
+    entries: parseInt(row.entries) || 0,
+    tables: parseInt(row.tables) || 0,
+  };
+}
+
+/**
+ * Obtient l'état de la reconstruction
+ */
+export function getSirenIndexBuildState(): SirenIndexBuildState {
+  return { ...buildState };
+}
+
+// Remplit la table de travail siren_index_new, table par table
+// @returns Tables indexées (sans les tables en erreur)
+async function buildIndexTable(tables: string[]): Promise<string[]> {
+  const indexed: string[] = [];
+
+  await pool.query('DROP TABLE IF EXISTS siren_index_new');
+  await pool.query('CREATE TABLE siren_index_new (LIKE siren_index INCLUDING DEFAULTS)');
+
+  for (const table of tables) {
+    try {
+      const result = await pool.query(
+        `INSERT INTO siren_index_new (siren, departement, table_name, nombre_lots)
+         SELECT "n°_siren", $1, $2, COUNT(*)
+         FROM "${table}"
+         WHERE "n°_siren" ~ '^[0-9]{9}$'
+         GROUP BY "n°_siren"`,
+        [extractDepartmentFromTable(table), table]
+      );
+      buildState.rows += result.rowCount || 0;
+      indexed.push(table);
+    } catch (error) {
+      buildState.errorCount++;
+      console.error(`[siren-index] Erreur sur ${table}:`, error);
+    }
+
+    buildState.tablesDone++;
+    buildState.progress = Math.min(99, Math.round((buildState.tablesDone / tables.length) * 100));
+  }
+
+  return indexed;
+}
+
+// Remplace l'index par la table de travail
+// Requête multi-instructions sans paramètres: exécutée en une seule transaction implicite
+async function swapIndexTable(): Promise<void> {
+  await pool.query('ALTER TABLE siren_index_new ADD PRIMARY KEY (siren, table_name)');
+  await pool.query(`
+    DROP TABLE siren_index;
+    ALTER TABLE siren_index_new RENAME TO siren_index;
+    ALTER INDEX siren_index_new_pkey RENAME TO siren_index_pkey;
+  `);
+}
+
+/**
+ * Lance la reconstruction de l'index en arrière-plan
+ */
+export async function startSirenIndexRebuild(): Promise<{ success: boolean; message: string }> {
+  if (rebuildStarting) {
+    return { success: false, message: 'Reconstruction déjà en cours (preparing)' };
+  }
+  if (buildState.status === 'building' || buildState.status === 'swapping') {
+    return { success: false, message: `Reconstruction déjà en cours (${buildState.status})` };
+  }
+
+  // Réservé avant le premier await: un second appel simultané recréerait siren_index_new pendant le premier build
+  rebuildStarting = true;
+  try {
+    return await launchSirenIndexRebuild();
+  } finally {
+    rebuildStarting = false;
+  }
+}
+
+// Relit les tables et lance la reconstruction en arrière-plan
+async function launchSirenIndexRebuild(): Promise<{ success: boolean; message: string }> {
+  // Relire la liste des tables: de nouvelles tables départementales (ou un nouveau millésime) ont pu être chargées
+  clearTableCache();
+  const tables = await resolveAllMillesimeTables();
+  if (tables.length === 0) {
+    return { success: false, message: 'Aucune table départementale MAJIC trouvée' };
+  }
+
+  buildState = {
+    status: 'building',
+    progress: 0,
+    tablesTotal: tables.length,
+    tablesDone: 0,
+    rows: 0,
+    errorCount: 0,
+    startedAt: new Date(),
+    completedAt: null,
+    error: null,
+  };
+
+  // Lancer en arrière-plan
+  (async () => {
+    try {
+      const indexed = await buildIndexTable(tables);
+
+      buildState.status = 'swapping';
+      await swapIndexTable();
+
+      buildState.status = 'completed';
+      buildState.progress = 100;
+      buildState.completedAt = new Date();
+
+      const duration = Math.round((Date.now() - buildState.startedAt!.getTime()) / 1000);
+      const result = await pool.query(
+        `INSERT INTO siren_index_builds (tables_count, rows_count, error_count, duration_seconds, status, tables)
+         VALUES ($1, $2, $3, $4, 'completed', $5)
+         RETURNING completed_at`,
+        [indexed.length, buildState.rows, buildState.errorCount, duration, indexed]
+      );
+      coverage = { indexed_at: result.rows[0].completed_at, tables: indexed };
+
+      console.log(`[siren-index] Index reconstruit: ${buildState.rows.toLocaleString()} entrées, ${tables.length} tables`);
+      sirenIndexEmitter.emit('complete', { ...buildState });
+    } catch (error: any) {
+      buildState.status = 'error';
+      buildState.error = error.message;
+      console.error('[siren-index] Erreur:', error);
+    }
+  })();
+
+  return { success: true, message: `Reconstruction lancée (${tables.length} tables)` };
+}
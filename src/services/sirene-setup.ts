@@ -0,0 +1,462 @@
+/**
+ * Service d'import du stock SIRENE (INSEE) depuis des fichiers locaux
+ * Gère la création des tables et l'import des unités légales et des établissements,
+ * sans accès réseau: les fichiers sont déposés dans SIRENE_DATA_DIR (déploiements isolés).
+ */
+
+import { pool } from './database.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { createGunzip } from 'zlib';
+import { Readable } from 'stream';
+import { EventEmitter } from 'events';
+import { config } from '../config/index.js';
+
+// Fichiers du stock (CSV UTF-8 publiés par l'INSEE, éventuellement compressés en .gz)
+const UNITES_LEGALES_FILE = 'StockUniteLegale_utf8.csv';
+const ETABLISSEMENTS_FILE = 'StockEtablissement_utf8.csv';
+const BATCH_SIZE = 2000;
+// Volumes approximatifs du stock, pour estimer la progression
+const ESTIMATED_UNITES_LEGALES = 28000000;
+const ESTIMATED_ETABLISSEMENTS = 40000000;
+
+// État global de l'import
+export interface SireneImportState {
+  status: 'idle' | 'importing_unites_legales' | 'importing_etablissements' | 'indexing' | 'completed' | 'error';
+  progress: number;
+  unitesLegales: number;
+  etablissements: number;
+  errorCount: number;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+let importState: SireneImportState = {
+  status: 'idle',
+  progress: 0,
+  unitesLegales: 0,
+  etablissements: 0,
+  errorCount: 0,
+  startedAt: null,
+  completedAt: null,
+  error: null,
+};
+
+// Vrai pendant la préparation d'un import (avant que importState quitte idle)
+let importStarting = false;
+
+export const sireneEmitter = new EventEmitter();
+
+/**
+ * Vérifie si les tables SIRENE existent (et leur volume)
+ */
+export async function checkSireneTables(): Promise<{ exists: boolean; unitesLegales: number; etablissements: number }> {
+  try {
+    const result = await pool.query(`
+      SELECT
+        (SELECT COUNT(*) FROM sirene_unites_legales) AS unites_legales,
+        (SELECT COUNT(*) FROM sirene_etablissements) AS etablissements
+    `);
+    return {
+      exists: true,
+      unitesLegales: parseInt(result.rows[0].unites_legales),
+      etablissements: parseInt(result.rows[0].etablissements),
+    };
+  } catch {
+    return { exists: false, unitesLegales: 0, etablissements: 0 };
+  }
+}
+
+/**
+ * Localise un fichier du stock dans le répertoire de données (.csv ou .csv.gz)
+ */
+export function findSireneFile(fileName: string): string | null {
+  for (const candidate of [fileName, `${fileName}.gz`]) {
+    const filePath = path.join(config.sirene.dataDir, candidate);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Fichiers du stock présents dans le répertoire de données
+ */
+export function getSireneFiles(): { unitesLegales: string | null; etablissements: string | null } {
+  return {
+    unitesLegales: findSireneFile(UNITES_LEGALES_FILE),
+    etablissements: findSireneFile(ETABLISSEMENTS_FILE),
+  };
+}
+
+/**
+ * Crée les tables SIRENE
+ */
+export async function createSireneTables(): Promise<{ success: boolean; message: string }> {
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sirene_unites_legales (
+        siren CHAR(9) PRIMARY KEY,
+        denomination TEXT,
+        sigle TEXT,
+        nom TEXT,
+        nom_usage TEXT,
+        prenom TEXT,
+        categorie_juridique TEXT,
+        date_creation TEXT,
+        etat_administratif TEXT,
+        categorie_entreprise TEXT,
+        tranche_effectifs TEXT,
+        nic_siege TEXT,
+        date_dernier_traitement TEXT,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sirene_etablissements (
+        siret CHAR(14) PRIMARY KEY,
+        siren CHAR(9) NOT NULL,
+        etablissement_siege BOOLEAN NOT NULL DEFAULT FALSE,
+        etat_administratif TEXT,
+        numero_voie TEXT,
+        indice_repetition TEXT,
+        type_voie TEXT,
+        libelle_voie TEXT,
+        code_postal TEXT,
+        code_commune TEXT,
+        libelle_commune TEXT,
+        tranche_effectifs TEXT,
+        updated_at TIMESTAMP DEFAULT NOW()
+      )
+    `);
+
+    // Table de stats
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sirene_import_stats (
+        id SERIAL PRIMARY KEY,
+        import_date TIMESTAMP DEFAULT NOW(),
+        unites_legales BIGINT,
+        etablissements BIGINT,
+        error_count BIGINT,
+        duration_seconds INTEGER,
+        status TEXT DEFAULT 'completed'
+      )
+    `);
+
+    return { success: true, message: 'Tables SIRENE créées' };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Crée les index (après import)
+ */
+export async function createSireneIndexes(): Promise<{ success: boolean; message: string }> {
+  try {
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_sirene_etab_siren ON sirene_etablissements(siren, etat_administratif)');
+    return { success: true, message: 'Index créés avec succès' };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Retourne l'état actuel de l'import
+ */
+export function getSireneImportState(): SireneImportState {
+  return { ...importState };
+}
+
+// Découpe une ligne CSV INSEE (séparateur virgule, champs entre guillemets, "" échappé)
+function parseCSVLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values;
+}
+
+// Lit un fichier du stock ligne par ligne (décompression gzip à la volée)
+function readLines(filePath: string): readline.Interface {
+  const fileStream: Readable = filePath.endsWith('.gz')
+    ? fs.createReadStream(filePath).pipe(createGunzip())
+    : fs.createReadStream(filePath);
+
+  return readline.createInterface({ input: fileStream, crlfDelay: Infinity });
+}
+
+// Insère un lot de lignes (upsert sur la clé primaire), retourne le nombre de lignes insérées
+async function insertBatch(table: string, columns: string[], conflictKey: string, rows: any[][]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const values: any[] = [];
+  const placeholders: string[] = [];
+
+  for (const row of rows) {
+    const offset = values.length;
+    placeholders.push(`(${row.map((_, i) => `$${offset + i + 1}`).join(', ')})`);
+    values.push(...row);
+  }
+
+  const updates = columns
+    .filter(c => c !== conflictKey)
+    .map(c => `${c} = EXCLUDED.${c}`)
+    .concat('updated_at = NOW()')
+    .join(', ');
+
+  try {
+    await pool.query(
+      `INSERT INTO ${table} (${columns.join(', ')})
+       VALUES ${placeholders.join(', ')}
+       ON CONFLICT (${conflictKey}) DO UPDATE SET ${updates}`,
+      values
+    );
+    return rows.length;
+  } catch (error) {
+    console.error(`[SIRENE] Erreur batch ${table}:`, error);
+    importState.errorCount += rows.length;
+    return 0;
+  }
+}
+
+// Valeur d'un champ (null pour les champs vides)
+function field(values: string[], index: number): string | null {
+  const value = index >= 0 ? values[index] : undefined;
+  return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Importe un fichier du stock: mapRow convertit une ligne (null = ligne ignorée)
+ */
+async function importFile(
+  filePath: string,
+  table: string,
+  columns: string[],
+  conflictKey: string,
+  mapRow: (values: string[], col: (name: string) => number) => any[] | null,
+  onProgress: (lines: number, imported: number) => void
+): Promise<number> {
+  let headerIndex = new Map<string, number>();
+  const col = (name: string) => headerIndex.get(name) ?? -1;
+  let batch: any[][] = [];
+  let lineCount = 0;
+  let imported = 0;
+
+  for await (const line of readLines(filePath)) {
+    lineCount++;
+
+    if (lineCount === 1) {
+      headerIndex = new Map(parseCSVLine(line).map((h, i) => [h.trim(), i]));
+      continue;
+    }
+
+    const row = mapRow(parseCSVLine(line), col);
+    if (row) batch.push(row);
+
+    if (batch.length >= BATCH_SIZE) {
+      imported += await insertBatch(table, columns, conflictKey, batch);
+      batch = [];
+
+      if (lineCount % 500000 < BATCH_SIZE) {
+        console.log(`[SIRENE] ${table}: ${lineCount.toLocaleString()} lignes, ${imported.toLocaleString()} importées`);
+        onProgress(lineCount, imported);
+      }
+    }
+  }
+
+  imported += await insertBatch(table, columns, conflictKey, batch);
+  onProgress(lineCount, imported);
+
+  return imported;
+}
+
+// Unités légales: dénomination (personnes morales) ou nom/prénom (entrepreneurs individuels)
+async function importUnitesLegales(filePath: string): Promise<void> {
+  importState.status = 'importing_unites_legales';
+  sireneEmitter.emit('progress', importState);
+  console.log(`[SIRENE] Import des unités légales depuis ${filePath}`);
+
+  await importFile(
+    filePath,
+    'sirene_unites_legales',
+    [
+      'siren', 'denomination', 'sigle', 'nom', 'nom_usage', 'prenom', 'categorie_juridique', 'date_creation',
+      'etat_administratif', 'categorie_entreprise', 'tranche_effectifs', 'nic_siege', 'date_dernier_traitement',
+    ],
+    'siren',
+    (v, col) => {
+      const siren = field(v, col('siren'));
+      if (!siren || siren.length !== 9) return null;
+
+      return [
+        siren,
+        field(v, col('denominationUniteLegale')),
+        field(v, col('sigleUniteLegale')),
+        field(v, col('nomUniteLegale')),
+        field(v, col('nomUsageUniteLegale')),
+        field(v, col('prenomUsuelUniteLegale')) ?? field(v, col('prenom1UniteLegale')),
+        field(v, col('categorieJuridiqueUniteLegale')),
+        field(v, col('dateCreationUniteLegale')),
+        field(v, col('etatAdministratifUniteLegale')),
+        field(v, col('categorieEntreprise')),
+        field(v, col('trancheEffectifsUniteLegale')),
+        field(v, col('nicSiegeUniteLegale')),
+        field(v, col('dateDernierTraitementUniteLegale')),
+      ];
+    },
+    (lines, imported) => {
+      importState.unitesLegales = imported;
+      importState.progress = Math.min(49, Math.round((lines / ESTIMATED_UNITES_LEGALES) * 50));
+      sireneEmitter.emit('progress', importState);
+    }
+  );
+}
+
+// Établissements: sièges et établissements ouverts (les établissements fermés ne servent pas à l'enrichissement)
+async function importEtablissements(filePath: string): Promise<void> {
+  importState.status = 'importing_etablissements';
+  sireneEmitter.emit('progress', importState);
+  console.log(`[SIRENE] Import des établissements depuis ${filePath}`);
+
+  await importFile(
+    filePath,
+    'sirene_etablissements',
+    [
+      'siret', 'siren', 'etablissement_siege', 'etat_administratif', 'numero_voie', 'indice_repetition',
+      'type_voie', 'libelle_voie', 'code_postal', 'code_commune', 'libelle_commune', 'tranche_effectifs',
+    ],
+    'siret',
+    (v, col) => {
+      const siret = field(v, col('siret'));
+      if (!siret || siret.length !== 14) return null;
+
+      const siege = field(v, col('etablissementSiege')) === 'true';
+      const etat = field(v, col('etatAdministratifEtablissement'));
+      if (!siege && etat !== 'A') return null;
+
+      return [
+        siret,
+        siret.substring(0, 9),
+        siege,
+        etat,
+        field(v, col('numeroVoieEtablissement')),
+        field(v, col('indiceRepetitionEtablissement')),
+        field(v, col('typeVoieEtablissement')),
+        field(v, col('libelleVoieEtablissement')),
+        field(v, col('codePostalEtablissement')),
+        field(v, col('codeCommuneEtablissement')),
+        field(v, col('libelleCommuneEtablissement')),
+        field(v, col('trancheEffectifsEtablissement')),
+      ];
+    },
+    (lines, imported) => {
+      importState.etablissements = imported;
+      importState.progress = Math.min(99, 50 + Math.round((lines / ESTIMATED_ETABLISSEMENTS) * 49));
+      sireneEmitter.emit('progress', importState);
+    }
+  );
+}
+
+/**
+ * Lance l'import des fichiers du stock en arrière-plan
+ */
+export async function startSireneImport(): Promise<{ success: boolean; message: string }> {
+  if (importStarting) {
+    return { success: false, message: 'Import déjà en cours (preparing)' };
+  }
+  if (importState.status !== 'idle' && importState.status !== 'completed' && importState.status !== 'error') {
+    return { success: false, message: `Import déjà en cours (${importState.status})` };
+  }
+
+  // Réservé avant le premier await: deux imports simultanés rempliraient les mêmes tables
+  importStarting = true;
+  try {
+    return await launchSireneImport();
+  } finally {
+    importStarting = false;
+  }
+}
+
+// Vérifie tables et fichiers puis lance l'import en arrière-plan
+async function launchSireneImport(): Promise<{ success: boolean; message: string }> {
+  const tables = await checkSireneTables();
+  if (!tables.exists) {
+    return { success: false, message: 'Tables SIRENE non créées. Appelez /admin/sirene/setup d\'abord.' };
+  }
+
+  const files = getSireneFiles();
+  if (!files.unitesLegales || !files.etablissements) {
+    return {
+      success: false,
+      message: `Fichiers ${UNITES_LEGALES_FILE} et ${ETABLISSEMENTS_FILE} (ou .gz) attendus dans ${config.sirene.dataDir}`,
+    };
+  }
+
+  // Reset state
+  importState = {
+    status: 'idle',
+    progress: 0,
+    unitesLegales: 0,
+    etablissements: 0,
+    errorCount: 0,
+    startedAt: new Date(),
+    completedAt: null,
+    error: null,
+  };
+
+  // Lancer en arrière-plan
+  (async () => {
+    try {
+      await importUnitesLegales(files.unitesLegales!);
+      await importEtablissements(files.etablissements!);
+
+      importState.status = 'indexing';
+      sireneEmitter.emit('progress', importState);
+      await createSireneIndexes();
+
+      importState.status = 'completed';
+      importState.progress = 100;
+      importState.completedAt = new Date();
+
+      // Sauvegarder les stats
+      const duration = Math.round((Date.now() - importState.startedAt!.getTime()) / 1000);
+      await pool.query(
+        `INSERT INTO sirene_import_stats (unites_legales, etablissements, error_count, duration_seconds, status)
+         VALUES ($1, $2, $3, $4, 'completed')`,
+        [importState.unitesLegales, importState.etablissements, importState.errorCount, duration]
+      );
+
+      console.log('[SIRENE] ✅ Import complet!');
+      sireneEmitter.emit('complete', importState);
+    } catch (error: any) {
+      importState.status = 'error';
+      importState.error = error.message;
+      console.error('[SIRENE] ❌ Erreur:', error);
+      sireneEmitter.emit('import-error', error);
+    }
+  })();
+
+  return { success: true, message: 'Import démarré en arrière-plan. Suivez la progression via /admin/sirene/status' };
+}
@@ -0,0 +1,66 @@
+/**
+ * Enrichissement entreprises depuis le stock SIRENE importé en base
+ * Construit une EntrepriseEnrichie sans accès réseau (tables sirene_unites_legales et
+ * sirene_etablissements). Le stock ne contient ni dirigeants ni coordonnées GPS du siège.
+ */
+
+import { pool } from './database.js';
+import { EnrichmentProvider } from './enrichment.js';
+import { decodeTrancheEffectif } from '../utils/abbreviations.js';
+import { EntrepriseEnrichie } from '../types/index.js';
+
+// Nom affiché: dénomination (personne morale) ou prénom + nom (entrepreneur individuel)
+function buildNomRaisonSociale(row: any): string {
+  if (row.denomination) return row.denomination;
+  return [row.prenom, row.nom_usage || row.nom].filter(Boolean).join(' ');
+}
+
+/**
+ * Recherche une entreprise par SIREN dans le stock SIRENE (null si absente)
+ */
+export async function getEntrepriseFromSirene(siren: string): Promise<EntrepriseEnrichie | null> {
+  if (!siren || siren.length !== 9) return null;
+
+  const result = await pool.query(
+    `SELECT
+       ul.*,
+       s.numero_voie, s.type_voie, s.libelle_voie, s.code_postal, s.libelle_commune,
+       (SELECT COUNT(*) FROM sirene_etablissements e
+        WHERE e.siren = ul.siren AND e.etat_administratif = 'A') AS nombre_etablissements
+     FROM sirene_unites_legales ul
+     LEFT JOIN sirene_etablissements s ON s.siret = ul.siren || ul.nic_siege
+     WHERE ul.siren = $1`,
+    [siren]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  const nomRaisonSociale = buildNomRaisonSociale(row);
+
+  return {
+    siren: row.siren,
+    nom_complet: row.sigle ? `${nomRaisonSociale} (${row.sigle})` : nomRaisonSociale,
+    nom_raison_sociale: row.denomination || '',
+    sigle: row.sigle || null,
+    nature_juridique: row.categorie_juridique || '',
+    date_creation: row.date_creation || '',
+    etat_administratif: row.etat_administratif || '',
+    categorie_entreprise: row.categorie_entreprise || '',
+    tranche_effectif: decodeTrancheEffectif(row.tranche_effectifs),
+    siege: {
+      adresse: [row.numero_voie, row.type_voie, row.libelle_voie].filter(Boolean).join(' '),
+      code_postal: row.code_postal || '',
+      commune: row.libelle_commune || '',
+    },
+    dirigeants: [],
+    beneficiaires_effectifs: [],
+    nombre_etablissements: parseInt(row.nombre_etablissements) || 0,
+  };
+}
+
+// Source "sirene": stock SIRENE en base, aucun appel réseau
+export const sireneEnrichmentProvider: EnrichmentProvider = {
+  name: 'sirene',
+  lookup: getEntrepriseFromSirene,
+};
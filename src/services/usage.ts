@@ -0,0 +1,169 @@
+/**
+ * Service de comptabilisation de l'usage des clés API
+ * Chaque requête authentifiée est enregistrée dans api_usage (route, résultats,
+ * appels d'enrichissement, durée, code HTTP) pour la facturation et le suivi.
+ */
+
+import { pool } from './database.js';
+import { RequestUsage } from '../types/index.js';
+
+export interface UsageEntry extends RequestUsage {
+  api_key_id: number; // 0 = master key
+  method: string;
+  route: string;
+  status_code: number;
+  duration_ms: number;
+}
+
+export interface UsageAggregate {
+  periode: string;
+  requetes: number;
+  erreurs: number;
+  total_proprietaires: number;
+  total_lots: number;
+  enrichment_calls: number;
+  duree_moyenne_ms: number;
+  duree_max_ms: number;
+}
+
+export interface UsageReport {
+  quotidien: UsageAggregate[];
+  mensuel: UsageAggregate[];
+  par_route: Array<Omit<UsageAggregate, 'periode'> & { route: string }>;
+}
+
+// Agrégats communs à toutes les requêtes de rapport
+const AGGREGATE_COLUMNS = `
+  COUNT(*) AS requetes,
+  COUNT(*) FILTER (WHERE status_code >= 400) AS erreurs,
+  COALESCE(SUM(total_proprietaires), 0) AS total_proprietaires,
+  COALESCE(SUM(total_lots), 0) AS total_lots,
+  COALESCE(SUM(enrichment_calls), 0) AS enrichment_calls,
+  COALESCE(ROUND(AVG(duration_ms)), 0) AS duree_moyenne_ms,
+  COALESCE(MAX(duration_ms), 0) AS duree_max_ms
+`;
+
+/**
+ * Crée la table api_usage si elle n'existe pas
+ */
+export async function setupUsageTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS api_usage (
+      id BIGSERIAL PRIMARY KEY,
+      api_key_id INTEGER NOT NULL,
+      method TEXT NOT NULL,
+      route TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      total_proprietaires INTEGER NOT NULL DEFAULT 0,
+      total_lots INTEGER NOT NULL DEFAULT 0,
+      enrichment_calls INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_api_usage_key_date ON api_usage(api_key_id, created_at)');
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_api_usage_date ON api_usage(created_at)');
+}
+
+/**
+ * Enregistre une requête
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  await pool.query(
+    `INSERT INTO api_usage
+       (api_key_id, method, route, status_code, total_proprietaires, total_lots, enrichment_calls, duration_ms)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      entry.api_key_id,
+      entry.method,
+      entry.route,
+      entry.status_code,
+      entry.total_proprietaires,
+      entry.total_lots,
+      entry.enrichment_calls,
+      Math.round(entry.duration_ms),
+    ]
+  );
+}
+
+// Convertit les agrégats (BIGINT/NUMERIC retournés en string par pg)
+function mapAggregateRow(row: any): Omit<UsageAggregate, 'periode'> {
+  return {
+    requetes: parseInt(row.requetes) || 0,
+    erreurs: parseInt(row.erreurs) || 0,
+    total_proprietaires: parseInt(row.total_proprietaires) || 0,
+    total_lots: parseInt(row.total_lots) || 0,
+    enrichment_calls: parseInt(row.enrichment_calls) || 0,
+    duree_moyenne_ms: parseInt(row.duree_moyenne_ms) || 0,
+    duree_max_ms: parseInt(row.duree_max_ms) || 0,
+  };
+}
+
+/**
+ * Agrégats quotidiens (sur `days` jours), mensuels (12 derniers mois) et par route (sur `days` jours)
+ * @param apiKeyId - Clé concernée (undefined = toutes les clés)
+ */
+export async function getUsageReport(apiKeyId: number | undefined, days: number): Promise<UsageReport> {
+  const params = [apiKeyId ?? null, days];
+  const keyFilter = '($1::int IS NULL OR api_key_id = $1)';
+
+  const [daily, monthly, byRoute] = await Promise.all([
+    pool.query(
+      `SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS periode, ${AGGREGATE_COLUMNS}
+       FROM api_usage
+       WHERE ${keyFilter} AND created_at >= date_trunc('day', NOW()) - make_interval(days => $2 - 1)
+       GROUP BY 1 ORDER BY 1`,
+      params
+    ),
+    pool.query(
+      `SELECT to_char(date_trunc('month', created_at), 'YYYY-MM') AS periode, ${AGGREGATE_COLUMNS}
+       FROM api_usage
+       WHERE ${keyFilter} AND created_at >= date_trunc('month', NOW()) - INTERVAL '11 months'
+       GROUP BY 1 ORDER BY 1`,
+      [apiKeyId ?? null]
+    ),
+    pool.query(
+      `SELECT method || ' ' || route AS route, ${AGGREGATE_COLUMNS}
+       FROM api_usage
+       WHERE ${keyFilter} AND created_at >= date_trunc('day', NOW()) - make_interval(days => $2 - 1)
+       GROUP BY 1 ORDER BY requetes DESC`,
+      params
+    ),
+  ]);
+
+  return {
+    quotidien: daily.rows.map(row => ({ periode: row.periode, ...mapAggregateRow(row) })),
+    mensuel: monthly.rows.map(row => ({ periode: row.periode, ...mapAggregateRow(row) })),
+    par_route: byRoute.rows.map(row => ({ route: row.route, ...mapAggregateRow(row) })),
+  };
+}
+
+/**
+ * Agrégats par clé sur `days` jours (vue admin)
+ */
+export async function getUsageByKey(days: number): Promise<Array<Omit<UsageAggregate, 'periode'> & {
+  api_key_id: number;
+  name: string;
+  key_prefix: string;
+}>> {
+  const result = await pool.query(
+    `SELECT
+       u.api_key_id,
+       COALESCE(k.name, CASE WHEN u.api_key_id = 0 THEN 'master' ELSE 'inconnue' END) AS name,
+       COALESCE(k.key_prefix, CASE WHEN u.api_key_id = 0 THEN 'master' ELSE '' END) AS key_prefix,
+       ${AGGREGATE_COLUMNS}
+     FROM api_usage u
+     LEFT JOIN api_keys k ON k.id = u.api_key_id
+     WHERE u.created_at >= date_trunc('day', NOW()) - make_interval(days => $1 - 1)
+     GROUP BY u.api_key_id, k.name, k.key_prefix
+     ORDER BY total_proprietaires DESC`,
+    [days]
+  );
+
+  return result.rows.map(row => ({
+    api_key_id: row.api_key_id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    ...mapAggregateRow(row),
+  }));
+}
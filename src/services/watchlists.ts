@@ -0,0 +1,831 @@
+/**
+ * Listes de surveillance (watchlists)
+ * Chaque clé API suit des SIREN, des parcelles et des zones (polygones). À l'ajout d'un élément, un état
+ * de référence est relevé: titulaires, lots par référence cadastrale et types de droit, état administratif.
+ * Chaque vérification, lancée après un rafraîchissement des données (nouveau millésime MAJIC, reconstruction
+ * de proprietaires_geo) ou à la demande, compare l'état courant à l'état de référence, enregistre les
+ * changements dans watchlist_events puis remplace l'état de référence.
+ * Un relevé incomplet (table illisible) n'est pas comparé: l'erreur est conservée sur l'élément et
+ * l'état de référence est gardé.
+ */
+
+import { EventEmitter } from 'events';
+import { pool } from './database.js';
+import { transformToPropiete, queryReferenceRows, resolveSirenTables } from './search.js';
+import { enrichSiren } from './enrichment.js';
+import { sirenIndexEmitter } from './siren-index.js';
+import { geoRebuildEmitter } from './proprietaires-geo.js';
+import { queryTables, assertNoTableErrors } from '../utils/table-query.js';
+import {
+  getDefaultMillesime,
+  listAvailableDepartments,
+  normalizeDepartmentCode,
+  extractDepartmentFromTable,
+} from '../utils/table-resolver.js';
+import { config } from '../config/index.js';
+import {
+  LocalRaw,
+  ReferenceCadastraleQuery,
+  Watchlist,
+  WatchlistItem,
+  WatchlistItemType,
+  WatchlistEvent,
+  WatchlistEventType,
+} from '../types/index.js';
+
+// Événements enregistrés par une vérification ('events': { watchlist_id, api_key_id, check_id, count })
+export const watchlistEmitter = new EventEmitter();
+
+// État de la vérification en cours
+export interface WatchlistCheckState {
+  status: 'idle' | 'running' | 'completed' | 'error';
+  trigger: string | null;
+  progress: number;
+  itemsTotal: number;
+  itemsDone: number;
+  events: number;
+  errorCount: number;
+  millesime: number | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+// État relevé pour un élément (colonne snapshot)
+interface WatchSnapshot {
+  millesime: number | null;
+  // Titulaires par clé (SIREN, sinon dénomination)
+  titulaires: Record<string, { siren: string; denomination: string; etat_administratif: string | null }>;
+  // Lots par titulaire et référence cadastrale ("<clé>|<reference_complete>")
+  lots: Record<string, { titulaire: string; reference_complete: string; droits: string[]; nombre_lots: number }>;
+}
+
+// Lot relevé avant regroupement par titulaire et référence
+interface SnapshotRow {
+  siren: string;
+  denomination: string;
+  reference_complete: string;
+  type_droit_code: string | null; // null: droit non disponible (proprietaires_geo)
+}
+
+// Zone trop étendue pour être suivie (plus de config.watchlists.maxPolygonLots lots)
+export class WatchlistAreaTooLargeError extends Error {}
+
+// Erreurs conservées sur l'élément
+const MAX_ERROR_LENGTH = 500;
+
+const WATCHLIST_COLUMNS = 'id, api_key_id, name, is_active, created_at';
+const ITEM_COLUMNS = 'id, watchlist_id, type, label, params, is_active, snapshot_at, checked_at, last_error, created_at';
+
+let checkState: WatchlistCheckState = {
+  status: 'idle',
+  trigger: null,
+  progress: 0,
+  itemsTotal: 0,
+  itemsDone: 0,
+  events: 0,
+  errorCount: 0,
+  millesime: null,
+  startedAt: null,
+  completedAt: null,
+  error: null,
+};
+
+// Vrai pendant la préparation d'une vérification (avant que checkState passe à running)
+let checkStarting = false;
+
+// Vérification refusée pendant une autre, lancée à la fin de celle-ci
+let queuedCheck: { trigger: string; types?: WatchlistItemType[] } | null = null;
+
+let listenersRegistered = false;
+
+/**
+ * Crée les tables watchlists, watchlist_items, watchlist_events et watchlist_checks si elles n'existent pas
+ */
+export async function setupWatchlistsTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS watchlists (
+      id SERIAL PRIMARY KEY,
+      api_key_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_watchlists_key ON watchlists(api_key_id)');
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS watchlist_items (
+      id SERIAL PRIMARY KEY,
+      watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+      type VARCHAR(20) NOT NULL,
+      label TEXT,
+      params JSONB NOT NULL,
+      geometry_wkt TEXT,
+      snapshot JSONB,
+      snapshot_at TIMESTAMP,
+      checked_at TIMESTAMP,
+      last_error TEXT,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_watchlist_items_watchlist ON watchlist_items(watchlist_id)');
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS watchlist_checks (
+      id SERIAL PRIMARY KEY,
+      trigger TEXT NOT NULL,
+      millesime INTEGER,
+      items_count INTEGER,
+      events_count INTEGER,
+      error_count INTEGER,
+      status VARCHAR(20) NOT NULL,
+      started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP
+    )
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS watchlist_events (
+      id BIGSERIAL PRIMARY KEY,
+      watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+      item_id INTEGER NOT NULL REFERENCES watchlist_items(id) ON DELETE CASCADE,
+      check_id INTEGER REFERENCES watchlist_checks(id) ON DELETE SET NULL,
+      type VARCHAR(30) NOT NULL,
+      data JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_watchlist_events_watchlist ON watchlist_events(watchlist_id, id)');
+}
+
+// Mappe une ligne de la table watchlists vers le type Watchlist
+function mapWatchlistRow(row: any): Watchlist {
+  return {
+    id: row.id,
+    api_key_id: row.api_key_id,
+    name: row.name,
+    is_active: row.is_active,
+    created_at: row.created_at,
+    ...(row.items_count !== undefined && { items_count: parseInt(row.items_count) }),
+  };
+}
+
+// Mappe une ligne de la table watchlist_items vers le type WatchlistItem
+function mapItemRow(row: any): WatchlistItem {
+  return {
+    id: row.id,
+    watchlist_id: row.watchlist_id,
+    type: row.type,
+    label: row.label,
+    params: row.params,
+    is_active: row.is_active,
+    snapshot_at: row.snapshot_at,
+    checked_at: row.checked_at,
+    last_error: row.last_error,
+    created_at: row.created_at,
+  };
+}
+
+// Mappe une ligne de la table watchlist_events vers le type WatchlistEvent
+function mapEventRow(row: any): WatchlistEvent {
+  return {
+    id: parseInt(row.id),
+    watchlist_id: row.watchlist_id,
+    item_id: row.item_id,
+    check_id: row.check_id,
+    type: row.type,
+    data: row.data,
+    created_at: row.created_at,
+  };
+}
+
+// ============================================================================
+// Listes et éléments
+// ============================================================================
+
+/**
+ * Crée une liste de surveillance
+ */
+export async function createWatchlist(apiKeyId: number, name: string): Promise<Watchlist> {
+  const result = await pool.query(
+    `INSERT INTO watchlists (api_key_id, name) VALUES ($1, $2) RETURNING ${WATCHLIST_COLUMNS}`,
+    [apiKeyId, name]
+  );
+  return mapWatchlistRow(result.rows[0]);
+}
+
+/**
+ * Liste les listes d'une clé (toutes les listes pour la master key), avec le nombre d'éléments actifs
+ */
+export async function listWatchlists(apiKeyId: number): Promise<Watchlist[]> {
+  const result = await pool.query(
+    `SELECT w.id, w.api_key_id, w.name, w.is_active, w.created_at,
+       (SELECT COUNT(*) FROM watchlist_items i WHERE i.watchlist_id = w.id AND i.is_active) AS items_count
+     FROM watchlists w
+     WHERE $1 = 0 OR w.api_key_id = $1
+     ORDER BY w.id`,
+    [apiKeyId]
+  );
+  return result.rows.map(mapWatchlistRow);
+}
+
+/**
+ * Récupère une liste visible par la clé (null sinon)
+ */
+export async function getWatchlist(id: number, apiKeyId: number): Promise<Watchlist | null> {
+  const result = await pool.query(
+    `SELECT ${WATCHLIST_COLUMNS} FROM watchlists
+     WHERE id = $1 AND ($2 = 0 OR api_key_id = $2)`,
+    [id, apiKeyId]
+  );
+  return result.rows.length > 0 ? mapWatchlistRow(result.rows[0]) : null;
+}
+
+/**
+ * Désactive une liste: ses éléments ne sont plus vérifiés, les événements restent consultables
+ */
+export async function deactivateWatchlist(id: number, apiKeyId: number): Promise<Watchlist | null> {
+  const result = await pool.query(
+    `UPDATE watchlists SET is_active = FALSE
+     WHERE id = $1 AND ($2 = 0 OR api_key_id = $2)
+     RETURNING ${WATCHLIST_COLUMNS}`,
+    [id, apiKeyId]
+  );
+  return result.rows.length > 0 ? mapWatchlistRow(result.rows[0]) : null;
+}
+
+/**
+ * Éléments d'une liste (actifs et désactivés)
+ */
+export async function listWatchlistItems(watchlistId: number): Promise<WatchlistItem[]> {
+  const result = await pool.query(
+    `SELECT ${ITEM_COLUMNS} FROM watchlist_items WHERE watchlist_id = $1 ORDER BY id`,
+    [watchlistId]
+  );
+  return result.rows.map(mapItemRow);
+}
+
+/**
+ * Nombre d'éléments actifs d'une liste
+ */
+export async function countActiveItems(watchlistId: number): Promise<number> {
+  const result = await pool.query(
+    'SELECT COUNT(*) AS count FROM watchlist_items WHERE watchlist_id = $1 AND is_active',
+    [watchlistId]
+  );
+  return parseInt(result.rows[0].count) || 0;
+}
+
+/**
+ * Ajoute un élément et relève son état de référence
+ * @throws WatchlistAreaTooLargeError si la zone contient plus de config.watchlists.maxPolygonLots lots
+ */
+export async function addWatchlistItem(
+  watchlistId: number,
+  type: WatchlistItemType,
+  params: Record<string, any>,
+  label: string | null,
+  geometryWkt?: string
+): Promise<WatchlistItem> {
+  const snapshot = await takeSnapshot(type, params, geometryWkt ?? null);
+
+  const result = await pool.query(
+    `INSERT INTO watchlist_items (watchlist_id, type, label, params, geometry_wkt, snapshot, snapshot_at)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW())
+     RETURNING ${ITEM_COLUMNS}`,
+    [watchlistId, type, label, JSON.stringify(params), geometryWkt ?? null, JSON.stringify(snapshot)]
+  );
+  return mapItemRow(result.rows[0]);
+}
+
+/**
+ * Désactive un élément (plus vérifié)
+ */
+export async function deactivateWatchlistItem(watchlistId: number, itemId: number): Promise<WatchlistItem | null> {
+  const result = await pool.query(
+    `UPDATE watchlist_items SET is_active = FALSE
+     WHERE id = $1 AND watchlist_id = $2
+     RETURNING ${ITEM_COLUMNS}`,
+    [itemId, watchlistId]
+  );
+  return result.rows.length > 0 ? mapItemRow(result.rows[0]) : null;
+}
+
+/**
+ * Événements d'une liste postérieurs à sinceId, du plus ancien au plus récent
+ */
+export async function listWatchlistEvents(
+  watchlistId: number,
+  sinceId: number,
+  limit: number,
+  filters: { type?: WatchlistEventType; itemId?: number } = {}
+): Promise<WatchlistEvent[]> {
+  const result = await pool.query(
+    `SELECT id, watchlist_id, item_id, check_id, type, data, created_at
+     FROM watchlist_events
+     WHERE watchlist_id = $1 AND id > $2
+       AND ($4::text IS NULL OR type = $4::text)
+       AND ($5::integer IS NULL OR item_id = $5)
+     ORDER BY id
+     LIMIT $3`,
+    [watchlistId, sinceId, limit, filters.type ?? null, filters.itemId ?? null]
+  );
+  return result.rows.map(mapEventRow);
+}
+
+// ============================================================================
+// Relevés et comparaison
+// ============================================================================
+
+// Clé titulaire: SIREN, sinon dénomination (comme /search/parcel)
+function titulaireKey(siren: string, denomination: string): string {
+  return siren || denomination || 'inconnu';
+}
+
+// Regroupe les lots relevés par titulaire et par référence cadastrale
+function buildSnapshot(millesime: number | null, rows: SnapshotRow[]): WatchSnapshot {
+  const snapshot: WatchSnapshot = { millesime, titulaires: {}, lots: {} };
+
+  for (const row of rows) {
+    const key = titulaireKey(row.siren, row.denomination);
+    if (!snapshot.titulaires[key]) {
+      snapshot.titulaires[key] = { siren: row.siren, denomination: row.denomination, etat_administratif: null };
+    }
+
+    const lotKey = `${key}|${row.reference_complete}`;
+    const lot = snapshot.lots[lotKey] ||= { titulaire: key, reference_complete: row.reference_complete, droits: [], nombre_lots: 0 };
+    lot.nombre_lots++;
+    if (row.type_droit_code !== null && !lot.droits.includes(row.type_droit_code)) {
+      lot.droits.push(row.type_droit_code);
+      lot.droits.sort();
+    }
+  }
+
+  return snapshot;
+}
+
+function rowsFromMajic(rows: LocalRaw[]): SnapshotRow[] {
+  return rows.map(transformToPropiete).map(p => ({
+    siren: p.proprietaire.siren,
+    denomination: p.proprietaire.denomination,
+    reference_complete: p.reference_cadastrale.reference_complete,
+    type_droit_code: p.proprietaire.type_droit_code,
+  }));
+}
+
+// Lots d'une zone dans proprietaires_geo (sans type de droit)
+async function fetchPolygonRows(geometryWkt: string): Promise<SnapshotRow[]> {
+  const maxLots = config.watchlists.maxPolygonLots;
+  const result = await pool.query(
+    `SELECT siren, denomination, departement, code_commune, prefixe_section, section, numero_plan
+     FROM proprietaires_geo
+     WHERE geom IS NOT NULL AND ST_Within(geom, ST_GeomFromText($1, 4326))
+     LIMIT $2`,
+    [geometryWkt, maxLots + 1]
+  );
+
+  if (result.rows.length > maxLots) {
+    throw new WatchlistAreaTooLargeError(`Plus de ${maxLots} lots dans la zone`);
+  }
+
+  return result.rows.map(row => ({
+    siren: row.siren || '',
+    denomination: row.denomination || '',
+    reference_complete: [row.departement, row.code_commune, row.prefixe_section, row.section, row.numero_plan]
+      .filter(Boolean).join('-'),
+    type_droit_code: null,
+  }));
+}
+
+// Département d'une référence complète ("01-001-A-1" -> "01")
+function referenceDepartment(referenceComplete: string): string {
+  return normalizeDepartmentCode(referenceComplete.split('-')[0]);
+}
+
+// Départements du millésime de l'état de référence pas encore chargés dans le millésime courant
+async function listMissingDepartments(previous: number, current: number): Promise<Set<string>> {
+  const loaded = new Set((await listAvailableDepartments(current)).map(normalizeDepartmentCode));
+  return new Set((await listAvailableDepartments(previous)).map(normalizeDepartmentCode).filter(d => !loaded.has(d)));
+}
+
+// Relève l'état courant d'un élément (millésime MAJIC par défaut pour les SIREN et parcelles)
+// previous: état de référence; sur un nouveau millésime, les départements qu'il n'a pas encore chargés
+// ne sont pas relus et leurs lots sont repris de l'état de référence. Une table illisible lève une erreur.
+async function takeSnapshot(
+  type: WatchlistItemType,
+  params: Record<string, any>,
+  geometryWkt: string | null,
+  previous: WatchSnapshot | null = null
+): Promise<WatchSnapshot> {
+  if (type === 'polygon') {
+    return buildSnapshot(null, await fetchPolygonRows(geometryWkt!));
+  }
+
+  const millesime = await getDefaultMillesime();
+  const missing = previous?.millesime && millesime !== null && previous.millesime !== millesime
+    ? await listMissingDepartments(previous.millesime, millesime)
+    : new Set<string>();
+
+  if (type === 'parcel') {
+    const reference = params.reference as ReferenceCadastraleQuery;
+    if (previous && missing.has(normalizeDepartmentCode(reference.departement))) {
+      return previous;
+    }
+    const snapshot = buildSnapshot(millesime, rowsFromMajic(await queryReferenceRows(reference, millesime ?? undefined, true)));
+    await addEtatsAdministratifs(snapshot, previous);
+    return snapshot;
+  }
+
+  const { tables } = await resolveSirenTables(params.siren, params.departement);
+  const loadedTables = tables.filter(t => !missing.has(normalizeDepartmentCode(extractDepartmentFromTable(t))));
+  const { rows, timings } = await queryTables<LocalRaw>(loadedTables, table => `SELECT * FROM "${table}" WHERE "n°_siren" = $1`, [params.siren]);
+  assertNoTableErrors(timings);
+  const snapshot = buildSnapshot(millesime, rowsFromMajic(rows));
+
+  if (previous) {
+    for (const [lotKey, lot] of Object.entries(previous.lots)) {
+      if (!missing.has(referenceDepartment(lot.reference_complete))) continue;
+      snapshot.lots[lotKey] = lot;
+      snapshot.titulaires[lot.titulaire] ||= { ...previous.titulaires[lot.titulaire] };
+    }
+  }
+
+  // Le SIREN suivi reste relevé sans lot (état administratif, lots acquis ensuite)
+  if (!snapshot.titulaires[params.siren]) {
+    snapshot.titulaires[params.siren] = { siren: params.siren, denomination: '', etat_administratif: null };
+  }
+  await addEtatsAdministratifs(snapshot, previous);
+  return snapshot;
+}
+
+// État administratif des titulaires identifiés par SIREN (fiches enrichies, cache entreprises_cache)
+// Fiche indisponible (erreur, délai, pause du fournisseur): l'état de référence est conservé, sans quoi
+// une fermeture survenue entre-temps ne serait jamais signalée
+async function addEtatsAdministratifs(snapshot: WatchSnapshot, previous: WatchSnapshot | null): Promise<void> {
+  for (const [key, titulaire] of Object.entries(snapshot.titulaires)) {
+    if (!/^\d{9}$/.test(titulaire.siren)) continue;
+    const entreprise = await enrichSiren(titulaire.siren);
+    if (!entreprise) {
+      const reference = previous?.titulaires[key];
+      if (reference) {
+        titulaire.etat_administratif = reference.etat_administratif;
+        if (!titulaire.denomination) titulaire.denomination = reference.denomination;
+      }
+      continue;
+    }
+    titulaire.etat_administratif = entreprise.etat_administratif || null;
+    if (!titulaire.denomination) titulaire.denomination = entreprise.nom_complet || '';
+  }
+}
+
+// Changements entre l'état de référence et l'état courant
+// Un titulaire qui apparaît ou disparaît (parcelle, zone) donne un seul événement, sans le détail de ses lots
+function diffSnapshots(
+  type: WatchlistItemType,
+  before: WatchSnapshot,
+  after: WatchSnapshot
+): Array<{ type: WatchlistEventType; data: Record<string, unknown> }> {
+  const events: Array<{ type: WatchlistEventType; data: Record<string, unknown> }> = [];
+  const trackOwners = type !== 'siren';
+
+  const lotsOf = (snapshot: WatchSnapshot, key: string) =>
+    Object.values(snapshot.lots).filter(l => l.titulaire === key);
+  const millesimes = { millesime_avant: before.millesime, millesime_apres: after.millesime };
+
+  for (const [key, titulaire] of Object.entries(after.titulaires)) {
+    const previous = before.titulaires[key];
+
+    if (!previous) {
+      if (trackOwners) {
+        const lots = lotsOf(after, key);
+        events.push({
+          type: 'nouveau_proprietaire',
+          data: {
+            siren: titulaire.siren,
+            denomination: titulaire.denomination,
+            references: lots.map(l => l.reference_complete),
+            nombre_lots: lots.reduce((sum, l) => sum + l.nombre_lots, 0),
+            ...millesimes,
+          },
+        });
+      }
+      continue;
+    }
+
+    if (titulaire.siren && previous.denomination && titulaire.denomination
+      && previous.denomination !== titulaire.denomination) {
+      events.push({
+        type: 'changement_denomination',
+        data: {
+          siren: titulaire.siren,
+          denomination_avant: previous.denomination,
+          denomination_apres: titulaire.denomination,
+        },
+      });
+    }
+
+    // Entreprise active lors du relevé précédent, cessée depuis
+    if (previous.etat_administratif === 'A' && titulaire.etat_administratif && titulaire.etat_administratif !== 'A') {
+      events.push({
+        type: 'entreprise_fermee',
+        data: {
+          siren: titulaire.siren,
+          denomination: titulaire.denomination,
+          etat_administratif_avant: previous.etat_administratif,
+          etat_administratif_apres: titulaire.etat_administratif,
+        },
+      });
+    }
+  }
+
+  for (const [key, titulaire] of Object.entries(before.titulaires)) {
+    if (after.titulaires[key] || !trackOwners) continue;
+    const lots = lotsOf(before, key);
+    events.push({
+      type: 'proprietaire_sorti',
+      data: {
+        siren: titulaire.siren,
+        denomination: titulaire.denomination,
+        references: lots.map(l => l.reference_complete),
+        nombre_lots: lots.reduce((sum, l) => sum + l.nombre_lots, 0),
+        ...millesimes,
+      },
+    });
+  }
+
+  // Lots des titulaires présents dans les deux relevés (tous les lots pour un SIREN suivi)
+  const lotKeys = new Set([...Object.keys(before.lots), ...Object.keys(after.lots)]);
+  for (const lotKey of lotKeys) {
+    const avant = before.lots[lotKey];
+    const apres = after.lots[lotKey];
+    const key = (apres || avant).titulaire;
+    if (trackOwners && (!before.titulaires[key] || !after.titulaires[key])) continue;
+
+    const titulaire = after.titulaires[key] || before.titulaires[key];
+    const data = {
+      siren: titulaire.siren,
+      denomination: titulaire.denomination,
+      reference_complete: (apres || avant).reference_complete,
+      nombre_lots_avant: avant?.nombre_lots || 0,
+      nombre_lots_apres: apres?.nombre_lots || 0,
+      ...millesimes,
+    };
+
+    if (data.nombre_lots_apres > data.nombre_lots_avant) {
+      events.push({ type: 'lot_ajoute', data });
+    } else if (data.nombre_lots_apres < data.nombre_lots_avant) {
+      events.push({ type: 'lot_retire', data });
+    }
+
+    if (avant && apres && avant.droits.length > 0 && apres.droits.length > 0
+      && avant.droits.join(',') !== apres.droits.join(',')) {
+      events.push({ type: 'changement_droit', data: { ...data, droits_avant: avant.droits, droits_apres: apres.droits } });
+    }
+  }
+
+  return events;
+}
+
+// ============================================================================
+// Vérification
+// ============================================================================
+
+/**
+ * Obtient l'état de la vérification
+ */
+export function getWatchlistCheckState(): WatchlistCheckState {
+  return { ...checkState };
+}
+
+/**
+ * Statistiques des listes (volume, dernière vérification terminée)
+ */
+export async function getWatchlistStats(): Promise<{
+  watchlists: number;
+  items: number;
+  events: number;
+  last_check: { trigger: string; millesime: number | null; events_count: number; completed_at: Date } | null;
+}> {
+  const counts = await pool.query(`
+    SELECT
+      (SELECT COUNT(*) FROM watchlists WHERE is_active) AS watchlists,
+      (SELECT COUNT(*) FROM watchlist_items WHERE is_active) AS items,
+      (SELECT COUNT(*) FROM watchlist_events) AS events
+  `);
+  const lastCheck = await pool.query(
+    `SELECT trigger, millesime, events_count, completed_at FROM watchlist_checks
+     WHERE status = 'completed'
+     ORDER BY completed_at DESC
+     LIMIT 1`
+  );
+
+  const row = counts.rows[0];
+  return {
+    watchlists: parseInt(row.watchlists) || 0,
+    items: parseInt(row.items) || 0,
+    events: parseInt(row.events) || 0,
+    last_check: lastCheck.rows[0] || null,
+  };
+}
+
+// Vérifie un élément: enregistre les changements et remplace l'état de référence
+// (relevé en erreur: rien n'est enregistré, l'appelant conserve l'erreur sur l'élément)
+// @returns Nombre d'événements enregistrés
+async function checkItem(row: any, checkId: number): Promise<number> {
+  const current = await takeSnapshot(row.type, row.params, row.geometry_wkt, row.snapshot);
+  const events = row.snapshot ? diffSnapshots(row.type, row.snapshot, current) : [];
+
+  await pool.query(
+    `WITH evenements AS (
+       INSERT INTO watchlist_events (watchlist_id, item_id, check_id, type, data)
+       SELECT $1, $2, $3, e.type, e.data
+       FROM jsonb_to_recordset($4::jsonb) AS e(type TEXT, data JSONB)
+     )
+     UPDATE watchlist_items SET snapshot = $5, snapshot_at = NOW(), checked_at = NOW(), last_error = NULL
+     WHERE id = $2`,
+    [row.watchlist_id, row.id, checkId, JSON.stringify(events), JSON.stringify(current)]
+  );
+
+  return events.length;
+}
+
+/**
+ * Lance la vérification des éléments actifs en arrière-plan
+ * @param trigger - Origine de la vérification (millesime, proprietaires_geo, admin)
+ * @param types - Types d'éléments vérifiés (par défaut: tous)
+ */
+export async function startWatchlistCheck(
+  trigger: string,
+  types?: WatchlistItemType[]
+): Promise<{ success: boolean; message: string }> {
+  if (checkInProgress()) {
+    return { success: false, message: 'Vérification déjà en cours' };
+  }
+
+  // Réservé avant le premier await: deux vérifications simultanées dupliqueraient les événements
+  checkStarting = true;
+  try {
+    return await launchWatchlistCheck(trigger, types);
+  } finally {
+    checkStarting = false;
+    // Préparation en erreur: la vérification en attente n'attend plus de fin de vérification
+    if (!checkInProgress()) runQueuedCheck();
+  }
+}
+
+// Vérification en préparation ou en cours
+function checkInProgress(): boolean {
+  return checkStarting || checkState.status === 'running';
+}
+
+// Lance la vérification en attente, le cas échéant
+function runQueuedCheck(): void {
+  if (!queuedCheck) return;
+  const { trigger, types } = queuedCheck;
+  queuedCheck = null;
+  startWatchlistCheck(trigger, types)
+    .then(result => console.log(`[watchlists] Vérification en attente (${trigger}): ${result.message}`))
+    .catch(error => console.error('[watchlists] Erreur vérification en attente:', error));
+}
+
+// Relève les éléments à vérifier et lance la vérification en arrière-plan
+async function launchWatchlistCheck(
+  trigger: string,
+  types?: WatchlistItemType[]
+): Promise<{ success: boolean; message: string }> {
+  const items = await pool.query(
+    `SELECT i.id, i.watchlist_id, i.type, i.params, i.geometry_wkt, i.snapshot, w.api_key_id
+     FROM watchlist_items i
+     JOIN watchlists w ON w.id = i.watchlist_id
+     WHERE i.is_active AND w.is_active
+       AND ($1::text[] IS NULL OR i.type = ANY($1::text[]))
+     ORDER BY i.id`,
+    [types ?? null]
+  );
+  const millesime = await getDefaultMillesime();
+
+  checkState = {
+    status: 'running',
+    trigger,
+    progress: 0,
+    itemsTotal: items.rows.length,
+    itemsDone: 0,
+    events: 0,
+    errorCount: 0,
+    millesime,
+    startedAt: new Date(),
+    completedAt: null,
+    error: null,
+  };
+
+  // Lancer en arrière-plan
+  (async () => {
+    try {
+      const check = await pool.query(
+        `INSERT INTO watchlist_checks (trigger, millesime, status) VALUES ($1, $2, 'running') RETURNING id`,
+        [trigger, millesime]
+      );
+      const checkId = check.rows[0].id;
+
+      // Événements par liste, notifiés en fin de vérification
+      const byWatchlist = new Map<number, { api_key_id: number; count: number }>();
+
+      for (const row of items.rows) {
+        try {
+          const count = await checkItem(row, checkId);
+          checkState.events += count;
+          if (count > 0) {
+            const entry = byWatchlist.get(row.watchlist_id) || { api_key_id: row.api_key_id, count: 0 };
+            entry.count += count;
+            byWatchlist.set(row.watchlist_id, entry);
+          }
+        } catch (error) {
+          checkState.errorCount++;
+          console.error(`[watchlists] Erreur sur l'élément ${row.id}:`, error);
+          await pool.query(
+            'UPDATE watchlist_items SET checked_at = NOW(), last_error = $2 WHERE id = $1',
+            [row.id, (error instanceof Error ? error.message : 'Erreur inconnue').substring(0, MAX_ERROR_LENGTH)]
+          );
+        }
+
+        checkState.itemsDone++;
+        checkState.progress = Math.min(99, Math.round((checkState.itemsDone / items.rows.length) * 100));
+      }
+
+      await pool.query(
+        `UPDATE watchlist_checks SET status = 'completed', items_count = $2, events_count = $3, error_count = $4, completed_at = NOW()
+         WHERE id = $1`,
+        [checkId, checkState.itemsDone, checkState.events, checkState.errorCount]
+      );
+
+      checkState.status = 'completed';
+      checkState.progress = 100;
+      checkState.completedAt = new Date();
+
+      for (const [watchlistId, entry] of byWatchlist) {
+        watchlistEmitter.emit('events', { watchlist_id: watchlistId, api_key_id: entry.api_key_id, check_id: checkId, count: entry.count });
+      }
+
+      console.log(`[watchlists] Vérification terminée (${trigger}): ${checkState.itemsDone} éléments, ${checkState.events} événements, ${checkState.errorCount} erreurs`);
+    } catch (error: any) {
+      checkState.status = 'error';
+      checkState.error = error.message;
+      console.error('[watchlists] Erreur:', error);
+    }
+    runQueuedCheck();
+  })();
+
+  return { success: true, message: `Vérification lancée (${items.rows.length} éléments)` };
+}
+
+// Vérifie les listes si des éléments ont été relevés sur un autre millésime que le millésime par défaut
+async function checkForNewMillesime(): Promise<void> {
+  const millesime = await getDefaultMillesime();
+  if (millesime === null) return;
+
+  const stale = await pool.query(
+    `SELECT 1 FROM watchlist_items i
+     JOIN watchlists w ON w.id = i.watchlist_id
+     WHERE i.is_active AND w.is_active AND i.type <> 'polygon'
+       AND (i.snapshot->>'millesime')::integer IS DISTINCT FROM $1
+     LIMIT 1`,
+    [millesime]
+  );
+  if (stale.rows.length === 0) return;
+
+  const result = await startWatchlistCheck('millesime');
+  console.log(`[watchlists] Nouveau millésime ${millesime}: ${result.message}`);
+}
+
+/**
+ * Abonne les vérifications aux rafraîchissements des données (à appeler une fois la base connectée)
+ * Un millésime chargé pendant l'arrêt du service est détecté au démarrage.
+ */
+export function startWatchlistMonitor(): void {
+  if (listenersRegistered) return;
+  listenersRegistered = true;
+
+  // Reconstruction de l'index SIREN: lancée après chaque chargement de tables MAJIC
+  sirenIndexEmitter.on('complete', () => {
+    checkForNewMillesime().catch(error => console.error('[watchlists] Erreur détection millésime:', error));
+  });
+
+  // Reconstruction de proprietaires_geo: seules les zones en dépendent
+  geoRebuildEmitter.on('complete', () => {
+    // Refusée pendant une autre vérification (qui a pu relever les zones avant la reconstruction): mise en attente
+    startWatchlistCheck('proprietaires_geo', ['polygon'])
+      .then(result => {
+        if (!result.success) {
+          queuedCheck = { trigger: 'proprietaires_geo', types: ['polygon'] };
+          // La vérification en cours a pu se terminer entre-temps
+          if (!checkInProgress()) runQueuedCheck();
+        }
+        console.log(`[watchlists] proprietaires_geo reconstruite: ${result.success ? result.message : 'vérification des zones mise en attente'}`);
+      })
+      .catch(error => console.error('[watchlists] Erreur vérification des zones:', error));
+  });
+
+  checkForNewMillesime().catch(error => console.error('[watchlists] Erreur détection millésime:', error));
+}
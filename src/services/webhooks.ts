@@ -0,0 +1,545 @@
+/**
+ * Service de webhooks
+ * Chaque clé API peut enregistrer des URLs notifiées à la fin des traitements en arrière-plan
+ * (import/réindexation BAN, jobs d'export, vérifications des listes de surveillance). Les livraisons sont
+ * persistées dans webhook_deliveries puis envoyées par un worker: requête POST signée HMAC-SHA256, retries avec backoff exponentiel
+ * et journal de chaque tentative dans webhook_delivery_attempts.
+ */
+
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { pool } from './database.js';
+import { importEmitter, ImportState } from './ban-setup.js';
+import { jobEmitter } from './jobs.js';
+import { watchlistEmitter } from './watchlists.js';
+import { config } from '../config/index.js';
+import {
+  ExportJob,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEvent,
+} from '../types/index.js';
+
+// Événements auxquels un webhook peut s'abonner
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'ban.import.completed',
+  'ban.import.failed',
+  'ban.reindex.completed',
+  'ban.reindex.failed',
+  'job.completed',
+  'job.failed',
+  'watchlist.events',
+];
+
+// Événements BAN: communs à toute l'instance, réservés aux clés admin:ban
+export const BAN_WEBHOOK_EVENTS: WebhookEvent[] = WEBHOOK_EVENTS.filter(e => e.startsWith('ban.'));
+
+// Préfixe des secrets générés
+const SECRET_PREFIX = 'whsec_';
+// Nombre de caractères conservés en clair pour identifier un secret
+const DISPLAY_PREFIX_LENGTH = 12;
+// Livraisons envoyées par passage du worker
+const DELIVERY_BATCH_SIZE = 20;
+// Erreurs conservées en base (réponses HTML, stack traces...)
+const MAX_ERROR_LENGTH = 500;
+
+const WEBHOOK_COLUMNS = 'id, api_key_id, url, events, secret_prefix, is_active, created_at';
+
+const DELIVERY_COLUMNS = `
+  id, webhook_id, event, payload, status, attempts, next_attempt_at,
+  last_status_code, last_error, created_at, delivered_at
+`;
+
+/**
+ * Crée les tables webhooks, webhook_deliveries et webhook_delivery_attempts si elles n'existent pas
+ */
+export async function setupWebhooksTable(): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id SERIAL PRIMARY KEY,
+      api_key_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      secret_prefix TEXT NOT NULL,
+      events TEXT[] NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_webhooks_key ON webhooks(api_key_id)');
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id BIGSERIAL PRIMARY KEY,
+      webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event TEXT NOT NULL,
+      payload JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP DEFAULT NOW(),
+      last_status_code INTEGER,
+      last_error TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      delivered_at TIMESTAMP
+    )
+  `);
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+    ON webhook_deliveries(next_attempt_at) WHERE status = 'pending'
+  `);
+  await pool.query('CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at)');
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+      delivery_id BIGINT NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+      attempt INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      duration_ms INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (delivery_id, attempt)
+    )
+  `);
+}
+
+/**
+ * Vérifie qu'une liste d'événements est valide (non vide, sans doublon)
+ */
+export function isValidEventList(events: unknown): events is WebhookEvent[] {
+  return Array.isArray(events)
+    && events.length > 0
+    && new Set(events).size === events.length
+    && events.every(e => WEBHOOK_EVENTS.includes(e as WebhookEvent));
+}
+
+/**
+ * Génère un secret de signature aléatoire
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + randomBytes(24).toString('hex');
+}
+
+/**
+ * Signature d'une livraison: HMAC-SHA256 de "<timestamp>.<corps>" avec le secret du webhook
+ * Le destinataire recalcule la signature et rejette les timestamps trop anciens (rejeu)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Mappe une ligne de la table webhooks vers le type Webhook
+function mapWebhookRow(row: any): Webhook {
+  return {
+    id: row.id,
+    api_key_id: row.api_key_id,
+    url: row.url,
+    events: row.events,
+    secret_prefix: row.secret_prefix,
+    is_active: row.is_active,
+    created_at: row.created_at,
+  };
+}
+
+// Mappe une ligne de la table webhook_deliveries vers le type WebhookDelivery
+function mapDeliveryRow(row: any): WebhookDelivery {
+  return {
+    id: parseInt(row.id),
+    webhook_id: row.webhook_id,
+    event: row.event,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at,
+    last_status_code: row.last_status_code,
+    last_error: row.last_error,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+  };
+}
+
+/**
+ * Enregistre un webhook et retourne son secret en clair (transmis une seule fois au client)
+ */
+export async function createWebhook(
+  apiKeyId: number,
+  url: string,
+  events: WebhookEvent[]
+): Promise<{ secret: string; webhook: Webhook }> {
+  const secret = generateWebhookSecret();
+
+  const result = await pool.query(
+    `INSERT INTO webhooks (api_key_id, url, secret, secret_prefix, events)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [apiKeyId, url, secret, secret.substring(0, DISPLAY_PREFIX_LENGTH), events]
+  );
+
+  return { secret, webhook: mapWebhookRow(result.rows[0]) };
+}
+
+/**
+ * Liste les webhooks d'une clé (tous les webhooks pour la master key)
+ */
+export async function listWebhooks(apiKeyId: number): Promise<Webhook[]> {
+  const result = await pool.query(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks
+     WHERE $1 = 0 OR api_key_id = $1
+     ORDER BY id`,
+    [apiKeyId]
+  );
+
+  return result.rows.map(mapWebhookRow);
+}
+
+/**
+ * Récupère un webhook visible par la clé (null sinon)
+ */
+export async function getWebhook(id: number, apiKeyId: number): Promise<Webhook | null> {
+  const result = await pool.query(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks
+     WHERE id = $1 AND ($2 = 0 OR api_key_id = $2)`,
+    [id, apiKeyId]
+  );
+
+  return result.rows.length > 0 ? mapWebhookRow(result.rows[0]) : null;
+}
+
+/**
+ * Désactive un webhook: ses livraisons en attente sont abandonnées
+ */
+export async function deactivateWebhook(id: number, apiKeyId: number): Promise<Webhook | null> {
+  const result = await pool.query(
+    `UPDATE webhooks SET is_active = FALSE
+     WHERE id = $1 AND ($2 = 0 OR api_key_id = $2)
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [id, apiKeyId]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  await pool.query(
+    `UPDATE webhook_deliveries SET status = 'failed', last_error = 'Webhook désactivé', next_attempt_at = NULL
+     WHERE webhook_id = $1 AND status = 'pending'`,
+    [id]
+  );
+
+  return mapWebhookRow(result.rows[0]);
+}
+
+/**
+ * Dernières livraisons d'un webhook, avec le journal de leurs tentatives
+ */
+export async function listDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+  const result = await pool.query(
+    `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+     WHERE webhook_id = $1
+     ORDER BY id DESC
+     LIMIT $2`,
+    [webhookId, limit]
+  );
+
+  const deliveries = result.rows.map(mapDeliveryRow);
+  if (deliveries.length === 0) return deliveries;
+
+  const attempts = await pool.query(
+    `SELECT delivery_id, attempt, status_code, error, duration_ms, created_at
+     FROM webhook_delivery_attempts
+     WHERE delivery_id = ANY($1::bigint[])
+     ORDER BY delivery_id, attempt`,
+    [deliveries.map(d => d.id)]
+  );
+
+  const byDelivery = new Map<number, WebhookDeliveryAttempt[]>();
+  for (const row of attempts.rows) {
+    const id = parseInt(row.delivery_id);
+    const log = byDelivery.get(id) || [];
+    log.push({
+      attempt: row.attempt,
+      status_code: row.status_code,
+      error: row.error,
+      duration_ms: row.duration_ms,
+      created_at: row.created_at,
+    });
+    byDelivery.set(id, log);
+  }
+
+  return deliveries.map(d => ({ ...d, attempts_log: byDelivery.get(d.id) || [] }));
+}
+
+/**
+ * Planifie une livraison pour chaque webhook actif abonné à l'événement
+ * @param apiKeyId - Limite aux webhooks de cette clé (événements liés à une clé, ex: jobs)
+ * @returns Nombre de livraisons planifiées
+ */
+export async function dispatchEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  apiKeyId?: number
+): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event, payload)
+     SELECT id, $1, $2 FROM webhooks
+     WHERE is_active AND $1 = ANY(events) AND ($3::integer IS NULL OR api_key_id = $3)`,
+    [event, JSON.stringify(data), apiKeyId ?? null]
+  );
+
+  if (result.rowCount) {
+    triggerDeliveries();
+  }
+
+  return result.rowCount || 0;
+}
+
+/**
+ * Planifie un événement webhook.test pour un webhook (vérification de l'intégration côté client)
+ */
+export async function createTestDelivery(webhook: Webhook): Promise<WebhookDelivery> {
+  const result = await pool.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event, payload)
+     VALUES ($1, 'webhook.test', $2)
+     RETURNING ${DELIVERY_COLUMNS}`,
+    [webhook.id, JSON.stringify({ webhook_id: webhook.id, message: 'Livraison de test' })]
+  );
+
+  triggerDeliveries();
+
+  return mapDeliveryRow(result.rows[0]);
+}
+
+/**
+ * Envoie une livraison: POST JSON signé, succès pour toute réponse 2xx
+ * Pas de redirection suivie: l'URL enregistrée doit répondre directement
+ */
+export async function sendWebhookRequest(
+  url: string,
+  secret: string,
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'payload' | 'created_at'>
+): Promise<{ ok: boolean; status_code: number | null; error: string | null; duration_ms: number }> {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    created_at: delivery.created_at,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const start = Date.now();
+
+  try {
+    const response = await axios.post(url, body, {
+      timeout: config.webhooks.timeoutMs,
+      maxRedirects: 0,
+      validateStatus: () => true,
+      responseType: 'text',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'cadastre-api-webhooks',
+        'X-Cadastre-Event': delivery.event,
+        'X-Cadastre-Delivery': String(delivery.id),
+        'X-Cadastre-Timestamp': String(timestamp),
+        'X-Cadastre-Signature': signWebhookPayload(secret, timestamp, body),
+      },
+    });
+
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      ok,
+      status_code: response.status,
+      error: ok ? null : `HTTP ${response.status}`,
+      duration_ms: Date.now() - start,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status_code: null,
+      error: (error instanceof Error ? error.message : 'Erreur inconnue').substring(0, MAX_ERROR_LENGTH),
+      duration_ms: Date.now() - start,
+    };
+  }
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+let workerTimer: NodeJS.Timeout | null = null;
+// Passage en cours (null si le worker est inactif)
+let workerRun: Promise<void> | null = null;
+let listenersRegistered = false;
+
+// Délai avant la tentative suivante: retryBaseSeconds, puis doublé à chaque échec
+function retryDelaySeconds(attempts: number): number {
+  return config.webhooks.retryBaseSeconds * Math.pow(2, attempts - 1);
+}
+
+// Réserve les livraisons dues: next_attempt_at est repoussé le temps de l'envoi
+// (SKIP LOCKED: plusieurs instances peuvent tourner sans envoyer deux fois)
+async function claimDueDeliveries(): Promise<Array<WebhookDelivery & { url: string; secret: string }>> {
+  const result = await pool.query(
+    `UPDATE webhook_deliveries d SET
+       attempts = d.attempts + 1,
+       next_attempt_at = NOW() + make_interval(secs => $2)
+     FROM webhooks w
+     WHERE w.id = d.webhook_id
+       AND d.id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT $1
+       )
+     RETURNING d.id, d.webhook_id, d.event, d.payload, d.status, d.attempts, d.next_attempt_at,
+               d.last_status_code, d.last_error, d.created_at, d.delivered_at, w.url, w.secret`,
+    [DELIVERY_BATCH_SIZE, Math.ceil(config.webhooks.timeoutMs / 1000) * 2]
+  );
+
+  return result.rows.map(row => ({ ...mapDeliveryRow(row), url: row.url, secret: row.secret }));
+}
+
+// Envoie une livraison et enregistre la tentative
+async function deliver(delivery: WebhookDelivery & { url: string; secret: string }): Promise<void> {
+  const outcome = await sendWebhookRequest(delivery.url, delivery.secret, delivery);
+
+  await pool.query(
+    `INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, error, duration_ms)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (delivery_id, attempt) DO NOTHING`,
+    [delivery.id, delivery.attempts, outcome.status_code, outcome.error, outcome.duration_ms]
+  );
+
+  if (outcome.ok) {
+    await pool.query(
+      `UPDATE webhook_deliveries SET
+         status = 'delivered', delivered_at = NOW(), next_attempt_at = NULL,
+         last_status_code = $2, last_error = NULL
+       WHERE id = $1`,
+      [delivery.id, outcome.status_code]
+    );
+    return;
+  }
+
+  const exhausted = delivery.attempts >= config.webhooks.maxAttempts;
+  await pool.query(
+    `UPDATE webhook_deliveries SET
+       status = $2,
+       next_attempt_at = CASE WHEN $2 = 'failed' THEN NULL ELSE NOW() + make_interval(secs => $3) END,
+       last_status_code = $4,
+       last_error = $5
+     WHERE id = $1`,
+    [delivery.id, exhausted ? 'failed' : 'pending', retryDelaySeconds(delivery.attempts), outcome.status_code, outcome.error]
+  );
+
+  if (exhausted) {
+    console.warn(`[webhooks] Livraison ${delivery.id} (${delivery.event}) abandonnée après ${delivery.attempts} tentatives: ${outcome.error}`);
+  }
+}
+
+// Un passage du worker: envoie les livraisons dues jusqu'à épuisement
+async function pollDeliveries(): Promise<void> {
+  try {
+    let deliveries = await claimDueDeliveries();
+    while (deliveries.length > 0) {
+      await Promise.all(deliveries.map(deliver));
+      deliveries = await claimDueDeliveries();
+    }
+  } catch (error) {
+    console.error('[webhooks] Erreur worker:', error);
+  }
+}
+
+// Lance un passage si aucun n'est en cours
+function runWorker(): void {
+  if (workerRun) return;
+  workerRun = pollDeliveries().finally(() => {
+    workerRun = null;
+  });
+}
+
+// Envoie sans attendre le prochain tick (nouvelle livraison planifiée)
+function triggerDeliveries(): void {
+  if (workerTimer) runWorker();
+}
+
+// Planifie l'événement, sans interrompre le traitement qui l'a émis
+function notify(event: WebhookEvent, data: Record<string, unknown>, apiKeyId?: number): void {
+  dispatchEvent(event, data, apiKeyId)
+    .then(count => {
+      if (count > 0) console.log(`[webhooks] ${event}: ${count} livraison(s) planifiée(s)`);
+    })
+    .catch(error => console.error(`[webhooks] Erreur planification ${event}:`, error));
+}
+
+// Données transmises pour un job terminé
+function jobEventData(job: ExportJob): Record<string, unknown> {
+  return {
+    job_id: job.id,
+    type: job.type,
+    status: job.status,
+    total_proprietaires: job.total_proprietaires,
+    total_lots: job.total_lots,
+    error: job.error,
+    finished_at: job.finished_at,
+    result_url: job.status === 'completed' ? `/jobs/${job.id}/result` : null,
+  };
+}
+
+// Abonne les webhooks aux fins de traitement (import/réindexation BAN, jobs, listes de surveillance)
+function registerListeners(): void {
+  if (listenersRegistered) return;
+  listenersRegistered = true;
+
+  importEmitter.on('complete', (state: ImportState) => notify('ban.import.completed', {
+    lignes_importees: state.importedLines,
+    lignes_totales: state.totalLines,
+    erreurs: state.errorCount,
+    started_at: state.startedAt,
+    completed_at: state.completedAt,
+  }));
+  importEmitter.on('error', (error: unknown) => notify('ban.import.failed', {
+    error: error instanceof Error ? error.message : String(error),
+  }));
+  importEmitter.on('reindex-complete', (result: { message: string }) => notify('ban.reindex.completed', {
+    message: result.message,
+  }));
+  importEmitter.on('reindex-error', (result: { message: string }) => notify('ban.reindex.failed', {
+    error: result.message,
+  }));
+
+  jobEmitter.on('completed', (job: ExportJob) => notify('job.completed', jobEventData(job), job.api_key_id));
+  jobEmitter.on('failed', (job: ExportJob) => notify('job.failed', jobEventData(job), job.api_key_id));
+
+  watchlistEmitter.on('events', (result: { watchlist_id: number; api_key_id: number; check_id: number; count: number }) =>
+    notify('watchlist.events', {
+      watchlist_id: result.watchlist_id,
+      check_id: result.check_id,
+      nombre_evenements: result.count,
+      events_url: `/watchlists/${result.watchlist_id}/events`,
+    }, result.api_key_id));
+}
+
+/**
+ * Démarre le worker de livraison (à appeler une fois la base connectée)
+ */
+export function startWebhookWorker(): void {
+  if (workerTimer) return;
+
+  registerListeners();
+  workerTimer = setInterval(runWorker, config.webhooks.pollIntervalMs);
+  runWorker();
+
+  console.log(`[webhooks] Worker démarré (poll ${config.webhooks.pollIntervalMs}ms)`);
+}
+
+/**
+ * Arrête le worker et attend la fin des envois en cours
+ */
+export async function stopWebhookWorker(): Promise<void> {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+
+  if (workerRun) {
+    await workerRun;
+  }
+}
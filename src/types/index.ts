@@ -38,6 +38,16 @@ export interface Adresse {
   adresse_complete: string;
   latitude?: number;
   longitude?: number;
+  geocodage?: Geocodage; // Adresses issues de proprietaires_geo
+}
+
+// Précision de la position d'une adresse géocodée (proprietaires_geo.ban_type)
+export type GeocodagePrecision = 'numero' | 'interpolation' | 'voie' | 'commune';
+
+export interface Geocodage {
+  precision: GeocodagePrecision | null; // null: ban_type non reconnu
+  ban_type: string | null;
+  score: number | null; // 0-1: match_score de la reconstruction, à défaut score du niveau
 }
 
 export interface ReferenceCadastrale {
@@ -49,6 +59,15 @@ export interface ReferenceCadastrale {
   reference_complete: string;
 }
 
+// Critères de recherche d'une parcelle (prefixe optionnel)
+export interface ReferenceCadastraleQuery {
+  departement: string;
+  code_commune: string;
+  prefixe?: string;
+  section: string;
+  numero_plan: string;
+}
+
 export interface LocalisationLocal {
   batiment: string;
   entree: string;
@@ -130,6 +149,113 @@ export interface EntrepriseEnrichie {
   // Bénéficiaires effectifs: personnes physiques finales après résolution des chaînes de PM
   beneficiaires_effectifs: BeneficiaireEffectif[];
   nombre_etablissements: number;
+  // Cache d'enrichissement: fiche lue en cache (true) ou auprès de l'API, date de l'appel à l'API
+  cache_hit?: boolean;
+  fetched_at?: Date;
+  // Source d'enrichissement ayant fourni la fiche (ENRICHMENT_PROVIDERS)
+  provider?: string;
+}
+
+// Graphe de contrôle d'une entreprise (dirigeants personnes morales remontés récursivement)
+export interface ControlGraphNode {
+  id: string; // "pm:<siren>" ou "pp:<nom>|<prenoms>|<année>"
+  type: 'personne_morale' | 'personne_physique';
+  label: string;
+  siren?: string;
+  nom?: string;
+  prenoms?: string;
+  annee_naissance?: string;
+  depth: number; // distance à l'entreprise racine
+  // Profondeur max atteinte: les dirigeants de cette personne morale ne sont pas remontés
+  truncated?: boolean;
+  // Dirigeants non résolus (SIREN introuvable ou erreur de l'API)
+  unresolved?: boolean;
+}
+
+export interface ControlGraphEdge {
+  from: string; // dirigeant
+  to: string; // entreprise dirigée
+  qualite: string;
+  // Arête vers une entreprise déjà présente dans la chaîne en cours (participation circulaire)
+  cycle?: boolean;
+}
+
+export interface ControlGraph {
+  root: string;
+  max_depth: number;
+  nodes: ControlGraphNode[];
+  edges: ControlGraphEdge[];
+  cycles: number;
+  truncated: number;
+}
+
+// Groupe de sociétés: entreprises reliées à une entreprise racine par la chaîne de contrôle
+export interface GroupLink {
+  siren: string;
+  denomination: string;
+  qualite: string;
+  // amont: société dirigeante de la précédente; aval: société dirigée par la précédente
+  sens: 'amont' | 'aval';
+}
+
+export interface GroupEntity {
+  siren: string;
+  denomination: string;
+  profondeur: number;
+  // Chemin depuis l'entreprise racine (vide pour la racine)
+  chemin: GroupLink[];
+  // Liens de cette société non explorés (SIREN introuvable ou erreur de l'API)
+  unresolved?: boolean;
+}
+
+// Propriétés d'une adresse, avec la société du groupe qui les détient
+export interface ProprieteGroupeeDetenue extends ProprieteGroupee {
+  detenteur: {
+    siren: string;
+    denomination: string;
+    chemin: GroupLink[];
+  };
+}
+
+// Propriétaire et ses propriétés, tel que retourné par les recherches (exports GeoJSON, CSV, XLSX)
+export interface ResultatProprietaire {
+  proprietaire: Proprietaire;
+  proprietes: ProprieteGroupee[];
+  entreprise?: EntrepriseEnrichie;
+  distance_metres?: number;
+}
+
+// Historique des détentions entre deux millésimes MAJIC (GET /history/*)
+export type HistoryEventType = 'acquisition' | 'cession' | 'changement_droit' | 'changement_denomination';
+
+export interface HistoryEvent {
+  type: HistoryEventType;
+  siren: string;
+  denomination: string; // Dénomination dans le millésime le plus récent où figure le titulaire
+  reference_cadastrale: ReferenceCadastrale | null; // null pour un changement de dénomination
+  adresse: Adresse | null;
+  droits_avant: Array<{ type_droit: string; type_droit_code: string }>;
+  droits_apres: Array<{ type_droit: string; type_droit_code: string }>;
+  nombre_lots_avant: number;
+  nombre_lots_apres: number;
+  denomination_avant?: string;
+  denomination_apres?: string;
+}
+
+// Changements entre deux millésimes consécutifs
+export interface HistoryPeriod {
+  de: number;
+  a: number;
+  evenements: HistoryEvent[];
+  resume: Record<HistoryEventType, number>;
+}
+
+// Détentions relevées dans un millésime
+export interface HistoryVintage {
+  millesime: number;
+  nombre_titulaires: number;
+  nombre_references: number;
+  nombre_lots: number;
 }
 
 // Types pour les réponses API
@@ -165,8 +291,36 @@ export interface SearchByOwnerResponse {
 }
 
 // Types pour la recherche géographique
+// Géométries GeoJSON acceptées (Polygon avec anneaux intérieurs, MultiPolygon)
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: number[][][]; // [anneau extérieur, trous...]
+}
+
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type SearchGeometry = GeoJSONPolygon | GeoJSONMultiPolygon;
+
+// Sortie GeoJSON (format=geojson): un Point par adresse
+export interface GeoJSONPointFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONPointFeature[];
+  [member: string]: unknown; // Membres additionnels (pagination, totaux)
+}
+
 export interface GeoSearchQuery {
-  polygon: number[][]; // Coordonnées [lng, lat][]
+  polygon?: number[][]; // Coordonnées [lng, lat][]
+  geometry?: SearchGeometry | { type: 'Feature'; geometry: SearchGeometry }; // GeoJSON
+  repair?: boolean; // Réparer la géométrie invalide (ST_MakeValid)
   limit?: number;
 }
 
@@ -200,14 +354,148 @@ export interface BanStats {
 }
 
 // Types pour l'authentification
+export type ApiScope = 'search:read' | 'search:geo' | 'search:stream' | 'admin:ban' | 'admin:sirene' | 'admin:data' | 'admin:keys';
+
 export interface ApiKey {
-  key: string;
+  id: number; // 0 = master key (configuration)
+  key_prefix: string; // Début de la clé, seul le hash complet est stocké
   name: string;
   created_at: Date;
   is_active: boolean;
   rate_limit?: number; // requêtes par minute
   monthly_quota?: number; // résultats par mois
   current_month_usage?: number;
+  scopes: ApiScope[];
+  last_used_at?: Date | null;
+  rotated_at?: Date | null;
+  previous_key_expires_at?: Date | null; // Fin de validité de l'ancienne clé après rotation
+  deactivated_at?: Date | null;
+}
+
+// Compteurs d'usage d'une requête authentifiée
+export interface RequestUsage {
+  total_proprietaires: number;
+  total_lots: number;
+  enrichment_calls: number;
+}
+
+// Jobs d'export asynchrones (table export_jobs)
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Recherche exécutée par un job (mêmes paramètres que la route correspondante)
+export type JobSearchDefinition =
+  | { type: 'address'; params: { adresse: string; departement?: string; code_postal?: string } }
+  | { type: 'siren'; params: { siren: string; departement?: string; millesime?: number } }
+  | { type: 'owner'; params: { denomination: string; departement?: string; millesime?: number } }
+  | { type: 'geo'; params: { polygon?: number[][]; geometry?: unknown; repair?: boolean; limit?: number } }
+  | { type: 'radius'; params: { longitude: number; latitude: number; radius_meters: number; limit?: number } };
+
+export type JobSearchType = JobSearchDefinition['type'];
+
+export type ExportJob = JobSearchDefinition & {
+  id: string;
+  api_key_id: number;
+  status: JobStatus;
+  progress: number; // Propriétaires traités
+  total: number | null; // Propriétaires attendus, si connu à l'avance
+  total_proprietaires: number;
+  total_lots: number;
+  error: string | null;
+  attempts: number;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+  expires_at: Date | null;
+};
+
+// Webhooks (table webhooks): notification des traitements en arrière-plan
+export type WebhookEvent =
+  | 'ban.import.completed'
+  | 'ban.import.failed'
+  | 'ban.reindex.completed'
+  | 'ban.reindex.failed'
+  | 'job.completed'
+  | 'job.failed'
+  | 'watchlist.events';
+
+export interface Webhook {
+  id: number;
+  api_key_id: number;
+  url: string;
+  events: WebhookEvent[];
+  secret_prefix: string;
+  is_active: boolean;
+  created_at: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// Tentative d'envoi d'une livraison (journal webhook_delivery_attempts)
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: Date;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+  attempts_log?: WebhookDeliveryAttempt[];
+}
+
+// Listes de surveillance (table watchlists): SIREN, parcelles et zones suivis par une clé
+export type WatchlistItemType = 'siren' | 'parcel' | 'polygon';
+
+export type WatchlistEventType =
+  | 'nouveau_proprietaire'
+  | 'proprietaire_sorti'
+  | 'lot_ajoute'
+  | 'lot_retire'
+  | 'changement_droit'
+  | 'changement_denomination'
+  | 'entreprise_fermee';
+
+export interface Watchlist {
+  id: number;
+  api_key_id: number;
+  name: string;
+  is_active: boolean;
+  created_at: Date;
+  items_count?: number;
+}
+
+export interface WatchlistItem {
+  id: number;
+  watchlist_id: number;
+  type: WatchlistItemType;
+  label: string | null;
+  params: Record<string, any>; // siren et departement, référence cadastrale, ou repair (polygone)
+  is_active: boolean;
+  snapshot_at: Date | null; // État de référence comparé à la prochaine vérification
+  checked_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+}
+
+export interface WatchlistEvent {
+  id: number;
+  watchlist_id: number;
+  item_id: number;
+  check_id: number | null;
+  type: WatchlistEventType;
+  data: Record<string, unknown>;
+  created_at: Date;
 }
 
 // Types pour les erreurs
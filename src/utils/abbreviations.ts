@@ -152,6 +152,25 @@ export const FORME_JURIDIQUE: Record<string, string> = {
   'SYND': 'Syndicat',
 };
 
+// Dictionnaire des tranches d'effectif salarié (INSEE)
+export const TRANCHE_EFFECTIF: Record<string, string> = {
+  '00': '0 salarié',
+  '01': '1 ou 2 salariés',
+  '02': '3 à 5 salariés',
+  '03': '6 à 9 salariés',
+  '11': '10 à 19 salariés',
+  '12': '20 à 49 salariés',
+  '21': '50 à 99 salariés',
+  '22': '100 à 199 salariés',
+  '31': '200 à 249 salariés',
+  '32': '250 à 499 salariés',
+  '41': '500 à 999 salariés',
+  '42': '1000 à 1999 salariés',
+  '51': '2000 à 4999 salariés',
+  '52': '5000 à 9999 salariés',
+  '53': '10000 salariés et plus',
+};
+
 // Fonction pour décoder le type de voie
 export function decodeNatureVoie(code: string): string {
   if (!code) return '';
@@ -180,6 +199,11 @@ export function decodeFormeJuridique(code: string): string {
   return FORME_JURIDIQUE[normalized] || normalized;
 }
 
+// Fonction pour décoder la tranche d'effectif
+export function decodeTrancheEffectif(code: string): string {
+  return TRANCHE_EFFECTIF[code] || 'Non renseigné';
+}
+
 // Fonction pour normaliser un nom de voie (capitalisation)
 export function normalizeNomVoie(nom: string): string {
   if (!nom) return '';
@@ -0,0 +1,28 @@
+// Curseurs de pagination opaques
+// Un curseur encode la clé du dernier propriétaire retourné (SIREN ou dénomination):
+// la page suivante reprend strictement après cette clé, dans l'ordre binaire (COLLATE "C").
+
+interface CursorPayload {
+  after: string;
+}
+
+// Encode la clé du dernier propriétaire d'une page
+export function encodeCursor(after: string): string {
+  const payload: CursorPayload = { after };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+// Décode un curseur, retourne null s'il est invalide
+export function decodeCursor(cursor: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof payload?.after === 'string' ? payload.after : null;
+  } catch {
+    return null;
+  }
+}
+
+// Compare deux clés dans le même ordre que COLLATE "C" (octets UTF-8)
+export function compareCursorKeys(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8'));
+}
@@ -0,0 +1,198 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { ResultatProprietaire, ReferenceCadastrale, LocalisationLocal, ProprieteGroupee } from '../types/index.js';
+
+// Export tabulaire des résultats de recherche (CSV, XLSX)
+// Une ligne par référence cadastrale: propriétaire, adresse, parcelle et entreprise à plat
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Séparateur CSV: point-virgule, attendu par Excel en locale française
+const CSV_SEPARATOR = ';';
+// BOM UTF-8 pour qu'Excel détecte l'encodage (accents)
+const CSV_BOM = '\uFEFF';
+
+type Cellule = string | number | null;
+
+// Flux de sortie fermé (client déconnecté): l'appelant arrête de produire des résultats
+export class ExportAbortedError extends Error {
+  constructor() {
+    super('Flux de sortie fermé: export interrompu');
+  }
+}
+
+interface LigneContexte {
+  resultat: ResultatProprietaire;
+  propriete?: ProprieteGroupee;
+  reference?: ReferenceCadastrale;
+  localisation?: LocalisationLocal;
+}
+
+// Colonnes exportées, dans l'ordre
+const EXPORT_COLUMNS: Array<{ header: string; value: (ligne: LigneContexte) => Cellule }> = [
+  { header: 'siren', value: l => l.resultat.proprietaire.siren || null },
+  { header: 'denomination', value: l => l.resultat.proprietaire.denomination },
+  { header: 'forme_juridique', value: l => l.resultat.proprietaire.forme_juridique || null },
+  { header: 'type_droit', value: l => l.resultat.proprietaire.type_droit || null },
+  { header: 'adresse', value: l => l.propriete?.adresse.adresse_complete ?? null },
+  { header: 'commune', value: l => l.propriete?.adresse.commune || null },
+  { header: 'departement', value: l => l.propriete?.adresse.departement || null },
+  { header: 'latitude', value: l => l.propriete?.adresse.latitude ?? null },
+  { header: 'longitude', value: l => l.propriete?.adresse.longitude ?? null },
+  { header: 'geocodage_precision', value: l => l.propriete?.adresse.geocodage?.precision ?? null },
+  { header: 'geocodage_score', value: l => l.propriete?.adresse.geocodage?.score ?? null },
+  { header: 'reference_cadastrale', value: l => l.reference?.reference_complete ?? null },
+  { header: 'code_commune', value: l => l.reference?.code_commune ?? null },
+  { header: 'prefixe', value: l => l.reference?.prefixe ?? null },
+  { header: 'section', value: l => l.reference?.section ?? null },
+  { header: 'numero_plan', value: l => l.reference?.numero_plan ?? null },
+  { header: 'batiment', value: l => l.localisation?.batiment || null },
+  { header: 'entree', value: l => l.localisation?.entree || null },
+  { header: 'niveau', value: l => l.localisation?.niveau || null },
+  { header: 'porte', value: l => l.localisation?.porte || null },
+  { header: 'nombre_lots_adresse', value: l => l.propriete?.nombre_lots ?? null },
+  { header: 'distance_metres', value: l => l.resultat.distance_metres ?? null },
+  { header: 'entreprise_nom', value: l => l.resultat.entreprise?.nom_complet ?? null },
+  { header: 'entreprise_sigle', value: l => l.resultat.entreprise?.sigle ?? null },
+  { header: 'entreprise_nature_juridique', value: l => l.resultat.entreprise?.nature_juridique ?? null },
+  { header: 'entreprise_date_creation', value: l => l.resultat.entreprise?.date_creation ?? null },
+  { header: 'entreprise_etat', value: l => l.resultat.entreprise?.etat_administratif ?? null },
+  { header: 'entreprise_categorie', value: l => l.resultat.entreprise?.categorie_entreprise ?? null },
+  { header: 'entreprise_effectif', value: l => l.resultat.entreprise?.tranche_effectif ?? null },
+  { header: 'siege_adresse', value: l => l.resultat.entreprise?.siege.adresse ?? null },
+  { header: 'siege_code_postal', value: l => l.resultat.entreprise?.siege.code_postal ?? null },
+  { header: 'siege_commune', value: l => l.resultat.entreprise?.siege.commune ?? null },
+  { header: 'dirigeants', value: l => l.resultat.entreprise ? joinDirigeants(l.resultat) : null },
+  { header: 'beneficiaires_effectifs', value: l => l.resultat.entreprise ? joinBeneficiaires(l.resultat) : null },
+  { header: 'nombre_etablissements', value: l => l.resultat.entreprise?.nombre_etablissements ?? null },
+];
+
+// "NOM Prénoms (qualité)" pour une personne physique, dénomination (SIREN) pour une personne morale
+function joinDirigeants(resultat: ResultatProprietaire): string {
+  return (resultat.entreprise?.dirigeants || []).map(d => {
+    const nom = d.type === 'personne_morale'
+      ? `${d.denomination || d.nom}${d.siren ? ` (${d.siren})` : ''}`
+      : [d.nom, d.prenoms].filter(Boolean).join(' ');
+    return d.qualite ? `${nom} - ${d.qualite}` : nom;
+  }).join(' | ');
+}
+
+function joinBeneficiaires(resultat: ResultatProprietaire): string {
+  return (resultat.entreprise?.beneficiaires_effectifs || [])
+    .map(b => [b.nom, b.prenoms].filter(Boolean).join(' '))
+    .join(' | ');
+}
+
+/**
+ * Aplatit un propriétaire en lignes d'export: une par référence cadastrale
+ * (une ligne sans parcelle si le propriétaire n'a aucune propriété)
+ */
+export function toExportRows(resultat: ResultatProprietaire): Cellule[][] {
+  const lignes: LigneContexte[] = [];
+
+  for (const propriete of resultat.proprietes) {
+    if (propriete.references_cadastrales.length === 0) {
+      lignes.push({ resultat, propriete });
+      continue;
+    }
+    propriete.references_cadastrales.forEach((reference, i) => {
+      lignes.push({ resultat, propriete, reference, localisation: propriete.localisations[i] });
+    });
+  }
+
+  if (lignes.length === 0) {
+    lignes.push({ resultat });
+  }
+
+  return lignes.map(ligne => EXPORT_COLUMNS.map(column => column.value(ligne)));
+}
+
+// Échappe une cellule CSV (RFC 4180)
+// Un texte commençant par =, +, -, @, tabulation ou retour chariot est préfixé d'une apostrophe
+// pour qu'Excel ne l'évalue pas en formule
+function csvCell(value: Cellule): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: Cellule[]): string {
+  return values.map(csvCell).join(CSV_SEPARATOR) + '\r\n';
+}
+
+// Attend que le flux de sortie se vide si le client lit moins vite qu'on écrit
+// Rejette si le flux est fermé, avant ou pendant l'attente
+async function waitForDrain(output: Writable): Promise<void> {
+  if (output.writableNeedDrain && !output.destroyed) {
+    await Promise.race([once(output, 'drain'), once(output, 'close')]);
+  }
+  if (output.destroyed) throw new ExportAbortedError();
+}
+
+export interface ExportWriter {
+  // Ajoute les lignes d'un propriétaire (résolue quand le flux de sortie peut en recevoir d'autres,
+  // rejetée avec ExportAbortedError une fois le flux fermé)
+  write(resultat: ResultatProprietaire): Promise<void>;
+  // Termine le fichier et ferme le flux de sortie
+  end(): Promise<void>;
+  // Nombre de lignes écrites (hors en-tête)
+  readonly rows: number;
+}
+
+/**
+ * Crée un writer CSV ou XLSX qui écrit au fil de l'eau dans le flux de sortie
+ * (le XLSX utilise le writer streaming d'ExcelJS: les lignes ne sont pas gardées en mémoire)
+ */
+export function createExportWriter(format: ExportFormat, output: Writable): ExportWriter {
+  const headers = EXPORT_COLUMNS.map(column => column.header);
+  let rows = 0;
+
+  if (format === 'csv') {
+    output.write(CSV_BOM + csvLine(headers));
+
+    return {
+      async write(resultat) {
+        if (output.destroyed) throw new ExportAbortedError();
+        for (const row of toExportRows(resultat)) {
+          output.write(csvLine(row));
+          rows++;
+        }
+        await waitForDrain(output);
+      },
+      async end() {
+        if (!output.destroyed) output.end();
+      },
+      get rows() {
+        return rows;
+      },
+    };
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet('Propriétaires');
+  worksheet.addRow(headers).commit();
+
+  return {
+    async write(resultat) {
+      if (output.destroyed) throw new ExportAbortedError();
+      for (const row of toExportRows(resultat)) {
+        worksheet.addRow(row).commit();
+        rows++;
+      }
+      await waitForDrain(output);
+    },
+    async end() {
+      worksheet.commit();
+      await workbook.commit();
+    },
+    get rows() {
+      return rows;
+    },
+  };
+}
@@ -0,0 +1,246 @@
+import {
+  SearchGeometry,
+  GeoJSONPolygon,
+  GeoJSONMultiPolygon,
+  GeoJSONPointFeature,
+  GeoJSONFeatureCollection,
+  ResultatProprietaire,
+} from '../types/index.js';
+
+// Conversion et validation structurelle des géométries GeoJSON de recherche
+// (la validité topologique est vérifiée ensuite par PostGIS avec ST_IsValid)
+
+// Vérifie qu'une position est [lon, lat] (nombres finis)
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    Number.isFinite(value[0]) && Number.isFinite(value[1]);
+}
+
+// Nombre de positions de l'anneau une fois fermé (voir ringToWKT)
+function closedRingLength(ring: number[][]): number {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring.length : ring.length + 1;
+}
+
+// Vérifie un anneau: au moins 4 positions une fois fermé (3 points distincts), comme l'exige PostGIS
+function isRing(value: unknown): value is number[][] {
+  return Array.isArray(value) && value.length >= 3 && value.every(isPosition) && closedRingLength(value) >= 4;
+}
+
+function isPolygonCoordinates(value: unknown): value is number[][][] {
+  return Array.isArray(value) && value.length >= 1 && value.every(isRing);
+}
+
+/**
+ * Extrait une géométrie de recherche d'un objet GeoJSON (Geometry ou Feature)
+ * Retourne un message d'erreur si l'objet n'est pas un Polygon/MultiPolygon valide
+ */
+export function parseGeoJSONGeometry(input: unknown): SearchGeometry | string {
+  if (!input || typeof input !== 'object') {
+    return 'La géométrie doit être un objet GeoJSON (Geometry ou Feature)';
+  }
+
+  const object = input as { type?: unknown; geometry?: unknown; coordinates?: unknown };
+
+  if (object.type === 'Feature') {
+    return parseGeoJSONGeometry(object.geometry);
+  }
+
+  if (object.type === 'Polygon') {
+    if (!isPolygonCoordinates(object.coordinates)) {
+      return 'Polygon: coordinates doit être une liste d\'anneaux [[[lon, lat], ...], ...] d\'au moins 3 points distincts';
+    }
+    return { type: 'Polygon', coordinates: object.coordinates };
+  }
+
+  if (object.type === 'MultiPolygon') {
+    const coordinates = object.coordinates;
+    if (!Array.isArray(coordinates) || coordinates.length === 0 || !coordinates.every(isPolygonCoordinates)) {
+      return 'MultiPolygon: coordinates doit être une liste de polygones [[[[lon, lat], ...], ...], ...]';
+    }
+    return { type: 'MultiPolygon', coordinates: coordinates as number[][][][] };
+  }
+
+  return `Type de géométrie non supporté: ${String(object.type)} (Polygon, MultiPolygon ou Feature attendu)`;
+}
+
+// Nombre max de points d'une géométrie GeoJSON (tous anneaux confondus)
+export const MAX_GEOMETRY_POINTS = 10000;
+// Nombre max de points du polygone simple (paramètre polygon)
+export const MAX_POLYGON_POINTS = 100;
+
+// Erreur de saisie de la zone de recherche (code d'erreur de l'API)
+export interface GeometryInputError {
+  error: string;
+  code: string;
+  details: string;
+}
+
+/**
+ * Valide la zone de recherche: geometry (GeoJSON) si fournie, sinon polygon (anneau simple)
+ */
+export function parseSearchGeometry(polygon: unknown, geometry: unknown): SearchGeometry | GeometryInputError {
+  if (geometry !== undefined) {
+    const parsed = parseGeoJSONGeometry(geometry);
+    if (typeof parsed === 'string') {
+      return { error: 'Géométrie invalide', code: 'INVALID_GEOMETRY', details: parsed };
+    }
+
+    if (countGeometryPoints(parsed) > MAX_GEOMETRY_POINTS) {
+      return {
+        error: 'Polygone trop complexe',
+        code: 'POLYGON_TOO_COMPLEX',
+        details: `La géométrie ne doit pas dépasser ${MAX_GEOMETRY_POINTS} points`,
+      };
+    }
+
+    return parsed;
+  }
+
+  if (!Array.isArray(polygon) || polygon.length < 3) {
+    return {
+      error: 'Polygone invalide',
+      code: 'INVALID_POLYGON',
+      details: 'Fournissez polygon (au moins 3 points [[lng, lat], ...]) ou geometry (GeoJSON Polygon/MultiPolygon)',
+    };
+  }
+
+  // Chaque point doit avoir 2 coordonnées
+  for (const point of polygon) {
+    if (!Array.isArray(point) || point.length !== 2 ||
+        typeof point[0] !== 'number' || typeof point[1] !== 'number') {
+      return {
+        error: 'Format de coordonnées invalide',
+        code: 'INVALID_COORDINATES',
+        details: 'Chaque point doit être au format [longitude, latitude] (nombres)',
+      };
+    }
+  }
+
+  if (closedRingLength(polygon) < 4) {
+    return {
+      error: 'Polygone invalide',
+      code: 'INVALID_POLYGON',
+      details: 'Le polygone doit contenir au moins 3 points distincts',
+    };
+  }
+
+  if (polygon.length > MAX_POLYGON_POINTS) {
+    return {
+      error: 'Polygone trop complexe',
+      code: 'POLYGON_TOO_COMPLEX',
+      details: `Le polygone ne doit pas dépasser ${MAX_POLYGON_POINTS} points`,
+    };
+  }
+
+  return ringToPolygon(polygon);
+}
+
+/**
+ * Convertit un anneau simple [[lon, lat], ...] en Polygon GeoJSON
+ */
+export function ringToPolygon(ring: number[][]): GeoJSONPolygon {
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+/**
+ * Nombre total de points d'une géométrie (toutes parties et anneaux confondus)
+ */
+export function countGeometryPoints(geometry: SearchGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce((sum, rings) => sum + rings.reduce((s, ring) => s + ring.length, 0), 0);
+}
+
+// Convertit un anneau en WKT (en le fermant si nécessaire)
+function ringToWKT(ring: number[][]): string {
+  const coords = [...ring];
+  const first = coords[0];
+  const last = coords[coords.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    coords.push(first);
+  }
+
+  return `(${coords.map(([lon, lat]) => `${lon} ${lat}`).join(', ')})`;
+}
+
+function polygonCoordinatesToWKT(rings: number[][][]): string {
+  return `(${rings.map(ringToWKT).join(', ')})`;
+}
+
+/**
+ * Convertit une géométrie GeoJSON (Polygon avec trous, MultiPolygon) en WKT pour PostGIS
+ */
+export function geometryToWKT(geometry: SearchGeometry): string {
+  if (geometry.type === 'Polygon') {
+    return `POLYGON${polygonCoordinatesToWKT(geometry.coordinates)}`;
+  }
+
+  return `MULTIPOLYGON(${(geometry as GeoJSONMultiPolygon).coordinates.map(polygonCoordinatesToWKT).join(', ')})`;
+}
+
+/**
+ * Convertit un propriétaire en features GeoJSON: un Point par adresse géocodée
+ * (les adresses sans coordonnées sont ignorées)
+ */
+export function resultatToFeatures(resultat: ResultatProprietaire): GeoJSONPointFeature[] {
+  const { proprietaire, entreprise } = resultat;
+  const features: GeoJSONPointFeature[] = [];
+
+  for (const propriete of resultat.proprietes) {
+    const { latitude, longitude } = propriete.adresse;
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') continue;
+
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties: {
+        siren: proprietaire.siren || null,
+        denomination: proprietaire.denomination,
+        forme_juridique: proprietaire.forme_juridique || null,
+        adresse: propriete.adresse.adresse_complete,
+        commune: propriete.adresse.commune || null,
+        departement: propriete.adresse.departement || null,
+        geocodage_precision: propriete.adresse.geocodage?.precision ?? null,
+        geocodage_score: propriete.adresse.geocodage?.score ?? null,
+        references_cadastrales: propriete.references_cadastrales.map(r => r.reference_complete).join(', '),
+        nombre_lots: propriete.nombre_lots,
+        distance_metres: resultat.distance_metres ?? null,
+        entreprise_nom: entreprise?.nom_complet ?? null,
+        entreprise_etat: entreprise?.etat_administratif ?? null,
+        entreprise_categorie: entreprise?.categorie_entreprise ?? null,
+        entreprise_effectif: entreprise?.tranche_effectif ?? null,
+        entreprise_dirigeants: entreprise ? entreprise.dirigeants.length : null,
+      },
+    });
+  }
+
+  return features;
+}
+
+/**
+ * Convertit des résultats de recherche en FeatureCollection GeoJSON
+ * Un Point par adresse géocodée, propriétés à plat (chargeables dans Leaflet ou QGIS)
+ * Les adresses sans coordonnées sont ignorées et comptées dans sans_coordonnees
+ */
+export function toFeatureCollection(
+  resultats: ResultatProprietaire[],
+  members: Record<string, unknown> = {}
+): GeoJSONFeatureCollection {
+  const features: GeoJSONPointFeature[] = [];
+  let sansCoordonnees = 0;
+
+  for (const resultat of resultats) {
+    const resultatFeatures = resultatToFeatures(resultat);
+    features.push(...resultatFeatures);
+    sansCoordonnees += resultat.proprietes.length - resultatFeatures.length;
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+    ...members,
+    sans_coordonnees: sansCoordonnees,
+  };
+}
@@ -0,0 +1,52 @@
+import { ControlGraph, ControlGraphNode } from '../types/index.js';
+
+// Échappe une chaîne pour un identifiant ou un label DOT entre guillemets
+function quote(value: string): string {
+  return '"' + value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n') + '"';
+}
+
+// Attributs d'affichage d'un noeud: sociétés en rectangle, personnes physiques en ellipse
+function nodeAttributes(node: ControlGraphNode): string {
+  const lines = [node.label];
+  if (node.siren) lines.push(`SIREN ${node.siren}`);
+  if (node.annee_naissance) lines.push(`né(e) en ${node.annee_naissance}`);
+  if (node.truncated) lines.push('(profondeur max atteinte)');
+  if (node.unresolved) lines.push('(non résolu)');
+
+  const attrs = [`label=${quote(lines.join('\n'))}`];
+  if (node.type === 'personne_morale') {
+    attrs.push('shape=box');
+  } else {
+    attrs.push('shape=ellipse');
+  }
+  if (node.depth === 0) attrs.push('style="bold,filled"', 'fillcolor="#e8f0fe"');
+  else if (node.truncated || node.unresolved) attrs.push('style=dashed', 'color="#888888"');
+
+  return attrs.join(', ');
+}
+
+/**
+ * Convertit un graphe de contrôle au format Graphviz DOT
+ * Les arêtes vont du dirigeant vers l'entreprise dirigée; les arêtes fermant un cycle sont en rouge.
+ */
+export function controlGraphToDot(graph: ControlGraph): string {
+  const lines = [
+    'digraph controle {',
+    '  rankdir=BT;',
+    '  node [fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(node.id)} [${nodeAttributes(node)}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attrs = [`label=${quote(edge.cycle ? `${edge.qualite} (cycle)` : edge.qualite)}`];
+    if (edge.cycle) attrs.push('color=red', 'fontcolor=red', 'style=bold', 'constraint=false');
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attrs.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,111 @@
+import { pool } from '../services/database.js';
+import { config } from '../config/index.js';
+import { extractDepartmentFromTable } from './table-resolver.js';
+
+// Durée d'une requête sur une table départementale
+export interface TableTiming {
+  table: string;
+  departement: string;
+  duree_ms: number;
+  lignes: number;
+  erreur?: string;
+}
+
+// Durées cumulées par département (Paris: plusieurs tables), retournées avec les résultats
+export interface DepartmentTimings {
+  duree_totale_ms: number;
+  concurrence: number;
+  departements: Array<{
+    departement: string;
+    tables: number;
+    duree_ms: number;
+    lignes: number;
+    erreurs: number;
+  }>;
+}
+
+/**
+ * Exécute la même requête sur plusieurs tables départementales, au plus
+ * config.search.tableConcurrency requêtes simultanées sur le pool
+ * Une table en erreur est journalisée et ignorée. Les lignes sont retournées dans l'ordre des tables.
+ * @param buildQuery - Requête SQL pour une table (le nom de table n'est pas paramétrable)
+ */
+export async function queryTables<T = any>(
+  tables: string[],
+  buildQuery: (table: string) => string,
+  params: any[]
+): Promise<{ rows: T[]; timings: TableTiming[] }> {
+  const rowsByTable: T[][] = new Array(tables.length);
+  const timings: TableTiming[] = new Array(tables.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < tables.length) {
+      const index = next++;
+      const table = tables[index];
+      const start = Date.now();
+
+      try {
+        const result = await pool.query(buildQuery(table), params);
+        rowsByTable[index] = result.rows;
+        timings[index] = { table, departement: extractDepartmentFromTable(table), duree_ms: Date.now() - start, lignes: result.rows.length };
+      } catch (error) {
+        console.error(`Erreur lors de la recherche dans ${table}:`, error);
+        rowsByTable[index] = [];
+        timings[index] = {
+          table,
+          departement: extractDepartmentFromTable(table),
+          duree_ms: Date.now() - start,
+          lignes: 0,
+          erreur: error instanceof Error ? error.message : 'Erreur inconnue',
+        };
+      }
+    }
+  }
+
+  const concurrency = Math.max(1, Math.min(config.search.tableConcurrency, tables.length));
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+  return { rows: rowsByTable.flat(), timings };
+}
+
+/**
+ * Lève une erreur si une table n'a pas pu être lue (comparaisons entre millésimes: une table
+ * ignorée ferait apparaître ses lots comme cédés ou acquis)
+ */
+export function assertNoTableErrors(timings: TableTiming[]): void {
+  const erreurs = timings.filter(t => t.erreur);
+  if (erreurs.length > 0) {
+    throw new Error(`Lecture impossible: ${erreurs.map(t => `${t.table} (${t.erreur})`).join(', ')}`);
+  }
+}
+
+/**
+ * Regroupe les durées par département (plusieurs passes cumulées: clés puis lots)
+ * @param startedAt - Début de la recherche (Date.now())
+ */
+export function summarizeTimings(timings: TableTiming[], startedAt: number): DepartmentTimings {
+  const byDepartment = new Map<string, DepartmentTimings['departements'][number] & { tablesVues: Set<string> }>();
+
+  for (const timing of timings) {
+    const key = timing.departement || timing.table;
+    let entry = byDepartment.get(key);
+    if (!entry) {
+      entry = { departement: key, tables: 0, duree_ms: 0, lignes: 0, erreurs: 0, tablesVues: new Set() };
+      byDepartment.set(key, entry);
+    }
+    entry.tablesVues.add(timing.table);
+    entry.duree_ms += timing.duree_ms;
+    entry.lignes += timing.lignes;
+    if (timing.erreur) entry.erreurs++;
+  }
+
+  return {
+    duree_totale_ms: Date.now() - startedAt,
+    concurrence: config.search.tableConcurrency,
+    departements: Array.from(byDepartment.values()).map(({ tablesVues, ...entry }) => ({
+      ...entry,
+      tables: tablesVues.size,
+    })),
+  };
+}
@@ -1,6 +1,10 @@
 import { pool } from '../services/database.js';
+import { config } from '../config/index.js';
 
-// Cache des tables disponibles
+// Tables MAJIC: <pm|pb>_<AA>_b_<département>, AA = millésime sur deux chiffres (pm_24_b_750, pm_25_b_750...)
+const MAJIC_TABLE_PATTERN = /^(pm|pb)_(\d{2})_b_/;
+
+// Cache des tables disponibles, tous millésimes confondus
 let tableCache: string[] | null = null;
 
 // Récupère la liste des tables depuis la base de données
@@ -12,7 +16,7 @@ async function fetchAvailableTables(): Promise<string[]> {
     FROM information_schema.tables
     WHERE table_schema = 'public'
     AND table_type = 'BASE TABLE'
-    AND (table_name LIKE 'pm_25_b_%' OR table_name LIKE 'pb_25_b_%')
+    AND table_name ~ '^(pm|pb)_[0-9]{2}_b_'
     ORDER BY table_name
   `);
 
@@ -20,6 +24,62 @@ async function fetchAvailableTables(): Promise<string[]> {
   return tableCache;
 }
 
+// Millésime d'une table (pm_24_b_750 -> 2024), null si le nom ne suit pas le format MAJIC
+export function extractMillesimeFromTable(tableName: string): number | null {
+  const match = tableName.match(MAJIC_TABLE_PATTERN);
+  return match ? 2000 + parseInt(match[2]) : null;
+}
+
+// Liste les millésimes chargés en base (ordre croissant)
+export async function listAvailableMillesimes(): Promise<number[]> {
+  const tables = await fetchAvailableTables();
+  const millesimes = new Set<number>();
+
+  for (const table of tables) {
+    const millesime = extractMillesimeFromTable(table);
+    if (millesime) millesimes.add(millesime);
+  }
+
+  return Array.from(millesimes).sort((a, b) => a - b);
+}
+
+// Millésime par défaut: MAJIC_MILLESIME s'il est chargé (validation d'un nouveau millésime), sinon le plus récent
+// (MAJIC_MILLESIME non chargé: signalé une fois au démarrage par isConfiguredMillesimeLoaded)
+export async function getDefaultMillesime(): Promise<number | null> {
+  const millesimes = await listAvailableMillesimes();
+  if (config.majic.millesime && millesimes.includes(config.majic.millesime)) {
+    return config.majic.millesime;
+  }
+  return millesimes.length > 0 ? millesimes[millesimes.length - 1] : null;
+}
+
+// Faux si MAJIC_MILLESIME est défini mais absent de la base
+export async function isConfiguredMillesimeLoaded(): Promise<boolean> {
+  if (!config.majic.millesime) return true;
+  return (await listAvailableMillesimes()).includes(config.majic.millesime);
+}
+
+// Valide un paramètre millesime (ex: "2024")
+// @returns Le millésime s'il est chargé en base, null sinon
+export async function parseMillesime(value: string): Promise<number | null> {
+  if (!/^\d{4}$/.test(value.trim())) return null;
+  const millesime = parseInt(value);
+  const millesimes = await listAvailableMillesimes();
+  return millesimes.includes(millesime) ? millesime : null;
+}
+
+// Tables d'un millésime (millésime par défaut si non précisé)
+async function fetchTablesForMillesime(millesime?: number): Promise<string[]> {
+  const tables = await fetchAvailableTables();
+  const effectiveMillesime = millesime ?? await getDefaultMillesime();
+  return tables.filter(t => extractMillesimeFromTable(t) === effectiveMillesime);
+}
+
+// Partie du nom de table après le préfixe du millésime (pm_25_b_750_1 -> 750_1)
+function tableSuffix(tableName: string): string {
+  return tableName.replace(MAJIC_TABLE_PATTERN, '');
+}
+
 // Normalise un code département (ex: "1" -> "01", "2A" -> "2A")
 export function normalizeDepartmentCode(code: string): string {
   const cleaned = code.trim().toUpperCase();
@@ -40,65 +100,76 @@ export function normalizeDepartmentCode(code: string): string {
 }
 
 // Résout le(s) nom(s) de table(s) pour un département donné
-export async function resolveTablesForDepartment(departement: string): Promise<string[]> {
-  const tables = await fetchAvailableTables();
+// @param millesime - Millésime MAJIC (par défaut: getDefaultMillesime)
+export async function resolveTablesForDepartment(departement: string, millesime?: number): Promise<string[]> {
+  const tables = await fetchTablesForMillesime(millesime);
   const normalizedDept = normalizeDepartmentCode(departement);
 
-  console.log(`[table-resolver] departement=${departement}, normalized=${normalizedDept}, tables count=${tables.length}`);
+  console.log(`[table-resolver] departement=${departement}, normalized=${normalizedDept}, millesime=${millesime ?? 'défaut'}, tables count=${tables.length}`);
 
-  // Cas spécial Paris (75): tables pb_25_b_750_* et pm_25_b_750_*
+  // Cas spécial Paris (75): tables pb_AA_b_750_* et pm_AA_b_750_*
   if (normalizedDept === '75') {
-    const matched = tables.filter(t => t.startsWith('pb_25_b_750') || t.startsWith('pm_25_b_750'));
+    const matched = tables.filter(t => tableSuffix(t).startsWith('750'));
     console.log(`[table-resolver] Paris matched: ${matched.join(', ')}`);
     return matched;
   }
 
-  // DOM-TOM (971-976): pas de zéro final - pm_25_b_971, pm_25_b_972, etc.
+  const pmTables = tables.filter(t => t.startsWith('pm_'));
+
+  // DOM-TOM (971-976): pas de zéro final - pm_AA_b_971, pm_AA_b_972, etc.
   const deptNum = parseInt(normalizedDept);
   if (deptNum >= 971) {
-    const pattern = `pm_25_b_${normalizedDept}`;
-    const matched = tables.filter(t => t === pattern);
-    console.log(`[table-resolver] DOM-TOM pattern=${pattern}, matched: ${matched.join(', ')}`);
+    const matched = pmTables.filter(t => tableSuffix(t) === normalizedDept);
+    console.log(`[table-resolver] DOM-TOM suffix=${normalizedDept}, matched: ${matched.join(', ')}`);
     return matched;
   }
 
-  // Corse: pm_25_b_2a0, pm_25_b_2b0
+  // Corse: pm_AA_b_2a0, pm_AA_b_2b0
   if (normalizedDept === '2A' || normalizedDept === '2B') {
-    const pattern = `pm_25_b_${normalizedDept.toLowerCase()}0`;
-    const matched = tables.filter(t => t === pattern);
-    console.log(`[table-resolver] Corse pattern=${pattern}, matched: ${matched.join(', ')}`);
+    const suffix = `${normalizedDept.toLowerCase()}0`;
+    const matched = pmTables.filter(t => tableSuffix(t) === suffix);
+    console.log(`[table-resolver] Corse suffix=${suffix}, matched: ${matched.join(', ')}`);
     return matched;
   }
 
-  // Départements métropolitains standards: pm_25_b_XXX0 (avec zéro final)
-  const pattern = `pm_25_b_${normalizedDept}0`;
-  const matching = tables.filter(t => t === pattern);
+  // Départements métropolitains standards: pm_AA_b_XXX0 (avec zéro final)
+  const suffix = `${normalizedDept}0`;
+  const matching = pmTables.filter(t => tableSuffix(t) === suffix);
 
-  console.log(`[table-resolver] Metro pattern=${pattern}, matched: ${matching.join(', ')}, first 5 tables: ${tables.slice(0, 5).join(', ')}`);
+  console.log(`[table-resolver] Metro suffix=${suffix}, matched: ${matching.join(', ')}, first 5 tables: ${tables.slice(0, 5).join(', ')}`);
 
   return matching;
 }
 
-// Résout toutes les tables pour une recherche nationale
-export async function resolveAllTables(): Promise<string[]> {
+// Résout toutes les tables d'un millésime pour une recherche nationale
+// @param millesime - Millésime MAJIC (par défaut: getDefaultMillesime)
+export async function resolveAllTables(millesime?: number): Promise<string[]> {
+  return await fetchTablesForMillesime(millesime);
+}
+
+// Résout les tables de tous les millésimes chargés (index SIREN)
+export async function resolveAllMillesimeTables(): Promise<string[]> {
   return await fetchAvailableTables();
 }
 
-// Extrait le code département depuis un nom de table
+// Extrait le code département depuis un nom de table (quel que soit le millésime)
 export function extractDepartmentFromTable(tableName: string): string {
-  // pb_25_b_750_* et pm_25_b_750_* -> 75
-  if (tableName.startsWith('pb_25_b_750') || tableName.startsWith('pm_25_b_750')) return '75';
+  if (!MAJIC_TABLE_PATTERN.test(tableName)) return '';
+  const suffix = tableSuffix(tableName);
 
-  // DOM-TOM: pm_25_b_971, pm_25_b_972, etc. (pas de zéro final)
-  const domTomMatch = tableName.match(/pm_25_b_(97[1-6])$/);
+  // pb_AA_b_750_* et pm_AA_b_750_* -> 75
+  if (suffix.startsWith('750')) return '75';
+
+  // DOM-TOM: pm_AA_b_971, pm_AA_b_972, etc. (pas de zéro final)
+  const domTomMatch = suffix.match(/^(97[1-6])$/);
   if (domTomMatch) return domTomMatch[1];
 
-  // Corse: pm_25_b_2a0, pm_25_b_2b0 -> 2A, 2B
-  const corseMatch = tableName.match(/pm_25_b_(2[ab])0$/i);
+  // Corse: pm_AA_b_2a0, pm_AA_b_2b0 -> 2A, 2B
+  const corseMatch = suffix.match(/^(2[ab])0$/i);
   if (corseMatch) return corseMatch[1].toUpperCase();
 
-  // Départements métropolitains: pm_25_b_XXX0 -> XX (enlever le zéro final)
-  const metroMatch = tableName.match(/pm_25_b_(\d{2,3})0$/);
+  // Départements métropolitains: pm_AA_b_XXX0 -> XX (enlever le zéro final)
+  const metroMatch = suffix.match(/^(\d{2,3})0$/);
   if (metroMatch) {
     const code = metroMatch[1];
     // Enlever le zéro de padding si c'est un département à un chiffre (010 -> 01)
@@ -108,9 +179,9 @@ export function extractDepartmentFromTable(tableName: string): string {
   return '';
 }
 
-// Liste tous les départements disponibles
-export async function listAvailableDepartments(): Promise<string[]> {
-  const tables = await fetchAvailableTables();
+// Liste les départements disponibles pour un millésime (par défaut: getDefaultMillesime)
+export async function listAvailableDepartments(millesime?: number): Promise<string[]> {
+  const tables = await fetchTablesForMillesime(millesime);
   const departments = new Set<string>();
 
   for (const table of tables) {
@@ -129,7 +200,25 @@ export async function listAvailableDepartments(): Promise<string[]> {
   });
 }
 
-// Réinitialise le cache (utile pour les tests)
+// Départements chargés dans tous les millésimes donnés (codes normalisés: "01", "2A", "971")
+// et départements présents dans une partie seulement (millésime en cours de chargement)
+export async function listCommonDepartments(millesimes: number[]): Promise<{ communs: string[]; exclus: string[] }> {
+  const parMillesime: Set<string>[] = [];
+  for (const millesime of millesimes) {
+    parMillesime.push(new Set((await listAvailableDepartments(millesime)).map(normalizeDepartmentCode)));
+  }
+
+  const tous = new Set(parMillesime.flatMap(departements => Array.from(departements)));
+  const communs: string[] = [];
+  const exclus: string[] = [];
+  for (const departement of tous) {
+    (parMillesime.every(departements => departements.has(departement)) ? communs : exclus).push(departement);
+  }
+
+  return { communs, exclus };
+}
+
+// Réinitialise le cache (utile pour les tests, et après le chargement d'un millésime)
 export function clearTableCache(): void {
   tableCache = null;
 }
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestUsage } from '../types/index.js';
+
+// Compteurs de la requête en cours, accessibles depuis les services sans les passer en paramètre
+const usageStorage = new AsyncLocalStorage<RequestUsage>();
+
+// Exécute fn avec les compteurs de la requête
+export function runWithUsage<T>(usage: RequestUsage, fn: () => T): T {
+  return usageStorage.run(usage, fn);
+}
+
+// Comptabilise un appel d'enrichissement pour la requête en cours (sans effet hors requête)
+export function countEnrichmentCall(): void {
+  const usage = usageStorage.getStore();
+  if (usage) usage.enrichment_calls++;
+}